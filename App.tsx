@@ -5,9 +5,13 @@ import { LoginView, SignupView } from './components/Auth';
 import { ProjectsListView, ProjectDetailView } from './components/Dashboard';
 import AuditWorkspace from './components/AuditWorkspace';
 import { AuditDetailView } from './components/AuditDetail';
-import { Activity, LogOut } from 'lucide-react';
+import { AcrGeneratorView } from './components/AcrGenerator';
+import { AuditCompareView } from './components/AuditCompare';
+import { SyncIndicator } from './components/SyncStatus';
+import { AccountSettingsView } from './components/AccountSettings';
+import { Activity, LogOut, UserCircle } from 'lucide-react';
 
-type AppView = 'login' | 'signup' | 'projects' | 'project-detail' | 'audit' | 'audit-detail';
+type AppView = 'login' | 'signup' | 'projects' | 'project-detail' | 'audit' | 'audit-detail' | 'audit-compare' | 'acr' | 'account';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = React.useState<AppView>('login');
@@ -120,9 +124,20 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-4">
-            <span className="text-sm text-slate-400 hidden md:inline">
-                {currentUser.displayName}
-            </span>
+            <SyncIndicator />
+            <button
+                onClick={() => {
+                  setSelectedProject(null);
+                  setCurrentView('account');
+                }}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  currentView === 'account' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                }`}
+                title="Account settings"
+                aria-label="Account settings"
+            >
+              <UserCircle size={16} /> <span className="hidden md:inline">{currentUser.displayName}</span>
+            </button>
             
             <div className="h-6 w-px bg-slate-800 hidden md:block"></div>
             
@@ -155,7 +170,7 @@ const App: React.FC = () => {
       <main className="max-w-7xl mx-auto px-6 py-8 w-full flex-grow">
         {currentView === 'projects' && (
           <ProjectsListView 
-            userId={currentUser.userId}
+            currentUser={currentUser}
             onSelectProject={(project) => {
               setSelectedProject(project);
               setCurrentView('project-detail');
@@ -166,12 +181,42 @@ const App: React.FC = () => {
         {currentView === 'project-detail' && selectedProject && (
           <ProjectDetailView 
             project={selectedProject}
+            currentUser={currentUser}
             onBack={() => setCurrentView('projects')}
             onStartAudit={() => setCurrentView('audit')}
             onSelectAudit={(audit) => {
               setSelectedAudit(audit);
               setCurrentView('audit-detail');
             }}
+            onCompareAudits={() => setCurrentView('audit-compare')}
+            onGenerateAcr={() => setCurrentView('acr')}
+          />
+        )}
+        
+        {currentView === 'account' && (
+          <AccountSettingsView
+            user={currentUser}
+            onBack={() => setCurrentView('projects')}
+            onUpdated={setCurrentUser}
+            onDeleted={() => {
+              setCurrentUser(null);
+              setCurrentView('login');
+            }}
+          />
+        )}
+
+        {currentView === 'acr' && selectedProject && (
+          <AcrGeneratorView
+            project={selectedProject}
+            userId={currentUser.userId}
+            onBack={() => setCurrentView('project-detail')}
+          />
+        )}
+        
+        {currentView === 'audit-compare' && selectedProject && (
+          <AuditCompareView
+            project={selectedProject}
+            onBack={() => setCurrentView('project-detail')}
           />
         )}
         
@@ -179,8 +224,8 @@ const App: React.FC = () => {
           <AuditWorkspace 
             project={selectedProject}
             userId={currentUser.userId}
-            onComplete={async (auditReport) => {
-              await saveAudit(selectedProject.projectId, currentUser.userId, auditReport);
+            onComplete={async (auditReport, frames) => {
+              await saveAudit(selectedProject.projectId, currentUser.userId, auditReport, frames);
               setCurrentView('project-detail');
             }}
             onCancel={() => setCurrentView('project-detail')}
@@ -191,9 +236,10 @@ const App: React.FC = () => {
           <AuditDetailView
             audit={selectedAudit}
             project={selectedProject}
+            currentUser={currentUser}
             onBack={() => setCurrentView('project-detail')}
             onDelete={async () => {
-              await deleteAudit(selectedAudit.auditId, selectedProject.projectId);
+              await deleteAudit(selectedAudit.auditId, currentUser.userId);
               setCurrentView('project-detail');
             }}
           />
@@ -0,0 +1,247 @@
+import React from 'react';
+import { User } from '../types';
+import { createRecoveryCode, deleteAccount, updateProfile } from '../services/storage';
+import { ChangePasswordForm } from './ChangePassword';
+import { ArrowLeft, Check, Copy, KeyRound, LifeBuoy, Trash2, UserCircle } from 'lucide-react';
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white focus:outline-none focus:border-indigo-500';
+const sectionClass = 'bg-slate-800 rounded-xl p-6 border border-slate-700 space-y-4';
+
+// Display names are stored HTML-escaped, see sanitizeInput
+const unescapeHtml = (value: string) => new DOMParser().parseFromString(value, 'text/html').documentElement.textContent || '';
+
+interface SectionProps {
+  user: User;
+  onUpdated: (user: User) => void;
+}
+
+function ProfileSection({ user, onUpdated }: SectionProps) {
+  const [displayName, setDisplayName] = React.useState(unescapeHtml(user.displayName));
+  const [email, setEmail] = React.useState(user.email);
+  const [error, setError] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [saved, setSaved] = React.useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaved(false);
+    setSaving(true);
+    try {
+      onUpdated(await updateProfile(user.userId, { displayName, email }));
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update profile');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className={sectionClass} aria-labelledby="account-profile-heading">
+      <h2 id="account-profile-heading" className="text-lg font-semibold text-white flex items-center gap-2"><UserCircle size={18} /> Profile</h2>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div>
+          <label htmlFor="account-display-name" className="block text-xs font-medium text-slate-400 mb-1">Display name</label>
+          <input id="account-display-name" required value={displayName} onChange={(e) => setDisplayName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="account-email" className="block text-xs font-medium text-slate-400 mb-1">Email</label>
+          <input id="account-email" type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+        </div>
+
+        {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+        {saved && <p role="status" className="text-sm text-green-400 flex items-center gap-1"><Check size={14} /> Profile saved</p>}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg text-sm font-semibold text-white transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save profile'}
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function RecoveryCodeSection({ user, onUpdated }: SectionProps) {
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+  const [copied, setCopied] = React.useState(false);
+  const [error, setError] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      const result = await createRecoveryCode(user.userId, password);
+      setCode(result.code);
+      setPassword('');
+      onUpdated(result.user);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create recovery code');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <section className={sectionClass} aria-labelledby="account-recovery-heading">
+      <h2 id="account-recovery-heading" className="text-lg font-semibold text-white flex items-center gap-2"><LifeBuoy size={18} /> Recovery code</h2>
+      <p className="text-sm text-slate-400">
+        Resets your password from the sign-in page if you forget it. Each code works once; creating a new one replaces the old.
+        {' '}{user.recoveryCode
+          ? `Your current code was created on ${new Date(user.recoveryCode.createdAt).toLocaleDateString()}.`
+          : 'You have no recovery code yet.'}
+      </p>
+
+      {code && (
+        <div role="status" className="bg-slate-900/50 border border-yellow-700/50 rounded-lg p-4 space-y-2">
+          <p className="text-sm text-yellow-300">Write this down and keep it somewhere safe. It will not be shown again.</p>
+          <div className="flex items-center gap-3">
+            <code className="font-mono text-lg tracking-wider text-white">{code}</code>
+            <button onClick={handleCopy} className="p-1.5 text-slate-400 hover:text-white rounded transition-colors" aria-label="Copy recovery code">
+              {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-2 items-end">
+        <div className="flex-1 min-w-[12rem]">
+          <label htmlFor="recovery-password" className="block text-xs font-medium text-slate-400 mb-1">Confirm with your password</label>
+          <input
+            id="recovery-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-semibold text-white transition-colors"
+        >
+          {user.recoveryCode ? 'Replace code' : 'Create code'}
+        </button>
+      </form>
+      {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+    </section>
+  );
+}
+
+function DeleteAccountSection({ user, onDeleted }: { user: User; onDeleted: () => void }) {
+  const [showConfirm, setShowConfirm] = React.useState(false);
+  const [password, setPassword] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [deleting, setDeleting] = React.useState(false);
+
+  async function handleDelete(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setDeleting(true);
+    try {
+      await deleteAccount(user.userId, password);
+      onDeleted();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete account');
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="pt-8 border-t border-slate-800">
+      <button
+        onClick={() => setShowConfirm(true)}
+        className="flex items-center gap-2 px-4 py-2 bg-red-950/20 hover:bg-red-900/30 text-red-400 border border-red-900/50 rounded-lg transition-colors text-sm font-medium"
+      >
+        <Trash2 size={16} /> Delete Account
+      </button>
+
+      {showConfirm && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
+          <form onSubmit={handleDelete} role="dialog" aria-modal="true" aria-labelledby="delete-account-title" className="bg-slate-800 rounded-xl p-8 max-w-md w-full border border-slate-700 shadow-2xl space-y-4">
+            <h3 id="delete-account-title" className="text-xl font-bold text-red-400">Delete Account?</h3>
+            <p className="text-slate-300">
+              This permanently deletes your account, your projects with all their audits and frames, and your
+              organization memberships, shares and invitations. Projects others shared with you are not affected.
+              This action cannot be undone.
+            </p>
+            <div>
+              <label htmlFor="delete-account-password" className="block text-xs font-medium text-slate-400 mb-1">Confirm with your password</label>
+              <input
+                id="delete-account-password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => { setShowConfirm(false); setPassword(''); setError(''); }}
+                className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={deleting}
+                className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg font-bold text-white transition-colors"
+              >
+                {deleting ? 'Deleting...' : 'Delete Forever'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AccountSettingsProps {
+  user: User;
+  onBack: () => void;
+  onUpdated: (user: User) => void;
+  onDeleted: () => void;
+}
+
+export function AccountSettingsView({ user, onBack, onUpdated, onDeleted }: AccountSettingsProps) {
+  return (
+    <div className="max-w-2xl space-y-8 animate-fadeIn">
+      <div>
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white mb-3 transition-colors text-sm font-medium">
+          <ArrowLeft size={16} /> Back to projects
+        </button>
+        <h1 className="text-3xl font-bold text-white">Account Settings</h1>
+      </div>
+
+      <ProfileSection user={user} onUpdated={onUpdated} />
+
+      <section className={sectionClass} aria-labelledby="account-password-heading">
+        <h2 id="account-password-heading" className="text-lg font-semibold text-white flex items-center gap-2"><KeyRound size={18} /> Password</h2>
+        <ChangePasswordForm user={user} onChanged={onUpdated} />
+      </section>
+
+      <RecoveryCodeSection user={user} onUpdated={onUpdated} />
+
+      <DeleteAccountSection user={user} onDeleted={onDeleted} />
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React from 'react';
+import { AcrConformance, AcrRow, AcrRowOverride, AuditRecord, Project, WcagLevel, WcagVersion } from '../types';
+import { clearAcrOverride, getProject, getProjectAudits, saveAcrOverride } from '../services/storage';
+import { ACR_CONFORMANCE_LEVELS, buildAcr, renderAcrDocx, renderAcrHtml, summarizeAcr } from '../utils/acr';
+import { downloadBlob, slugifyFilename } from '../utils/download';
+import { ArrowLeft, FileDown, FileText, RotateCcw } from 'lucide-react';
+
+interface AcrGeneratorProps {
+  project: Project;
+  userId: string;
+  onBack: () => void;
+}
+
+const conformanceColor = (c: AcrConformance) => {
+  switch (c) {
+    case 'Supports': return 'text-green-400';
+    case 'Partially Supports': return 'text-yellow-400';
+    case 'Does Not Support': return 'text-red-400';
+    default: return 'text-slate-400';
+  }
+};
+
+interface AcrRowEditorProps {
+  row: AcrRow;
+  onSave: (conformance: AcrConformance, remarks: string) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+function AcrRowEditor({ row, onSave, onReset }: AcrRowEditorProps) {
+  const [remarks, setRemarks] = React.useState(row.remarks);
+
+  React.useEffect(() => setRemarks(row.remarks), [row.remarks]);
+
+  return (
+    <tr className="border-t border-slate-700 align-top">
+      <th scope="row" className="py-3 pr-4 text-left font-medium text-slate-200">
+        {row.criterionId} {row.name}
+        <span className="block text-xs text-slate-500 font-normal">Level {row.level}{row.violations > 0 && ` · ${row.violations} finding(s)`}</span>
+      </th>
+      <td className="py-3 pr-4">
+        <label htmlFor={`acr-${row.criterionId}-conformance`} className="sr-only">Conformance for {row.criterionId}</label>
+        <select
+          id={`acr-${row.criterionId}-conformance`}
+          value={row.conformance}
+          onChange={(e) => onSave(e.target.value as AcrConformance, remarks)}
+          className={`w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-sm ${conformanceColor(row.conformance)}`}
+        >
+          {ACR_CONFORMANCE_LEVELS.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </td>
+      <td className="py-3 pr-2">
+        <label htmlFor={`acr-${row.criterionId}-remarks`} className="sr-only">Remarks for {row.criterionId}</label>
+        <textarea
+          id={`acr-${row.criterionId}-remarks`}
+          value={remarks}
+          onChange={(e) => setRemarks(e.target.value)}
+          onBlur={() => remarks !== row.remarks && onSave(row.conformance, remarks)}
+          rows={2}
+          className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-slate-300 text-sm resize-y"
+        />
+      </td>
+      <td className="py-3 w-8">
+        {row.overridden && (
+          <button
+            onClick={onReset}
+            className="p-1.5 rounded-lg text-indigo-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Manually edited — reset to derived value"
+            aria-label={`Reset ${row.criterionId} to derived value`}
+          >
+            <RotateCcw size={14} />
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function AcrGeneratorView({ project, userId, onBack }: AcrGeneratorProps) {
+  const [audits, setAudits] = React.useState<AuditRecord[]>([]);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [overrides, setOverrides] = React.useState<AcrRowOverride[]>(project.acrOverrides || []);
+  const [productVersion, setProductVersion] = React.useState('');
+  const [wcagVersion, setWcagVersion] = React.useState<WcagVersion>('2.2');
+  const [target, setTarget] = React.useState<WcagLevel>('AA');
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    load();
+  }, [project.projectId]);
+
+  async function load() {
+    const [projectAudits, latest] = await Promise.all([getProjectAudits(project.projectId), getProject(project.projectId)]);
+    setAudits(projectAudits);
+    setSelectedIds(projectAudits[0] ? [projectAudits[0].auditId] : []);
+    setOverrides(latest?.acrOverrides || []);
+    setLoading(false);
+  }
+
+  const selected = audits.filter(a => selectedIds.includes(a.auditId));
+  const report = React.useMemo(
+    () => (selected.length > 0 ? buildAcr(project, selected, { productVersion, wcagVersion, target }, overrides) : null),
+    [selected.map(a => a.auditId).join(), overrides, productVersion, wcagVersion, target]
+  );
+
+  const toggleAudit = (auditId: string) =>
+    setSelectedIds(prev => prev.includes(auditId) ? prev.filter(id => id !== auditId) : [...prev, auditId]);
+
+  async function saveRow(criterionId: string, conformance: AcrConformance, remarks: string) {
+    setError('');
+    try {
+      const override = await saveAcrOverride(project.projectId, userId, criterionId, conformance, remarks);
+      setOverrides(prev => [...prev.filter(o => o.criterionId !== criterionId), override]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save row');
+    }
+  }
+
+  async function resetRow(criterionId: string) {
+    await clearAcrOverride(project.projectId, userId, criterionId);
+    setOverrides(prev => prev.filter(o => o.criterionId !== criterionId));
+  }
+
+  function exportHtml() {
+    if (!report) return;
+    downloadBlob(new Blob([renderAcrHtml(report)], { type: 'text/html' }), `${slugifyFilename(report.productName)}-acr.html`);
+  }
+
+  function exportDocx() {
+    if (!report) return;
+    downloadBlob(renderAcrDocx(report), `${slugifyFilename(report.productName)}-acr.docx`);
+  }
+
+  if (loading) return (
+    <div className="flex items-center justify-center h-64">
+        <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+    </div>
+  );
+
+  const summary = report ? summarizeAcr(report) : null;
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white mb-3 transition-colors text-sm font-medium">
+            <ArrowLeft size={16} /> Back to {project.projectName}
+          </button>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <FileText size={28} className="text-indigo-400" /> Accessibility Conformance Report
+          </h1>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={exportHtml} disabled={!report} className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-sm font-medium text-slate-200 transition-colors">
+            <FileDown size={16} /> HTML
+          </button>
+          <button onClick={exportDocx} disabled={!report} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg text-sm font-bold text-white transition-colors">
+            <FileDown size={16} /> DOCX
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-300 mb-2">Audits to include</legend>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {audits.map(audit => (
+              <label key={audit.auditId} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(audit.auditId)}
+                  onChange={() => toggleAudit(audit.auditId)}
+                  className="accent-indigo-500"
+                />
+                Version {audit.auditVersion} — {new Date(audit.timestamp).toLocaleDateString()} ({audit.totalViolations} violations)
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="grid grid-cols-2 gap-3 content-start">
+          <div className="col-span-2">
+            <label htmlFor="acr-product-version" className="block text-sm font-medium text-slate-300 mb-1">Product version</label>
+            <input
+              id="acr-product-version"
+              type="text"
+              value={productVersion}
+              onChange={(e) => setProductVersion(e.target.value)}
+              placeholder="e.g. 4.2"
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="acr-wcag-version" className="block text-sm font-medium text-slate-300 mb-1">WCAG version</label>
+            <select
+              id="acr-wcag-version"
+              value={wcagVersion}
+              onChange={(e) => setWcagVersion(e.target.value as WcagVersion)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+            >
+              <option value="2.2">WCAG 2.2</option>
+              <option value="2.1">WCAG 2.1</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="acr-target" className="block text-sm font-medium text-slate-300 mb-1">Levels</label>
+            <select
+              id="acr-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value as WcagLevel)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+            >
+              <option value="A">A</option>
+              <option value="AA">A + AA</option>
+              <option value="AAA">A + AA + AAA</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="flex flex-wrap gap-4 text-sm">
+          {ACR_CONFORMANCE_LEVELS.map(c => (
+            <span key={c} className={conformanceColor(c)}>{c}: <strong>{summary[c]}</strong></span>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {report ? (
+        <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th scope="col" className="pb-2 pr-4 w-1/3">Criteria</th>
+                <th scope="col" className="pb-2 pr-4 w-48">Conformance Level</th>
+                <th scope="col" className="pb-2">Remarks and Explanations</th>
+                <th scope="col" className="pb-2"><span className="sr-only">Reset</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <AcrRowEditor
+                  key={row.criterionId}
+                  row={row}
+                  onSave={(conformance, remarks) => saveRow(row.criterionId, conformance, remarks)}
+                  onReset={() => resetRow(row.criterionId)}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="bg-slate-800/50 border border-slate-700 border-dashed rounded-xl p-12 text-center text-slate-400">
+          Select at least one audit to build the report.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import React from 'react';
+import { AuditRecord, Project } from '../types';
+import { getProjectAudits } from '../services/storage';
+import { diffAudits, PersistingViolation } from '../utils/auditDiff';
+import ViolationCard from './ViolationCard';
+import { ArrowLeft, ArrowDown, ArrowUp, GitCompare } from 'lucide-react';
+
+interface AuditCompareProps {
+  project: Project;
+  onBack: () => void;
+}
+
+function SeverityDelta({ change }: { change: PersistingViolation }) {
+  if (change.severityDelta === 0) return null;
+  const worse = change.severityDelta > 0;
+  return (
+    <span className={`flex items-center gap-1 text-xs font-bold uppercase ${worse ? 'text-red-400' : 'text-green-400'}`}>
+      {worse ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+      {change.before.severity} → {change.after.severity}
+    </span>
+  );
+}
+
+export function AuditCompareView({ project, onBack }: AuditCompareProps) {
+  const [audits, setAudits] = React.useState<AuditRecord[]>([]);
+  const [baseId, setBaseId] = React.useState('');
+  const [targetId, setTargetId] = React.useState('');
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    loadAudits();
+  }, [project.projectId]);
+
+  async function loadAudits() {
+    const projectAudits = await getProjectAudits(project.projectId);
+    setAudits(projectAudits);
+    // Default: previous version vs latest
+    setTargetId(projectAudits[0]?.auditId || '');
+    setBaseId(projectAudits[1]?.auditId || projectAudits[0]?.auditId || '');
+    setLoading(false);
+  }
+
+  const base = audits.find(a => a.auditId === baseId);
+  const target = audits.find(a => a.auditId === targetId);
+  const diff = React.useMemo(() => (base && target ? diffAudits(base, target) : null), [base, target]);
+
+  if (loading) return (
+    <div className="flex items-center justify-center h-64">
+        <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+    </div>
+  );
+
+  const auditOption = (audit: AuditRecord) => (
+    <option key={audit.auditId} value={audit.auditId}>
+      Version {audit.auditVersion} — {new Date(audit.timestamp).toLocaleDateString()} (score {audit.accessibilityScore})
+    </option>
+  );
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <div>
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white mb-3 transition-colors text-sm font-medium">
+          <ArrowLeft size={16} /> Back to {project.projectName}
+        </button>
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <GitCompare className="text-indigo-400" /> Compare Audits
+        </h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <div>
+          <label htmlFor="compare-base" className="block text-sm font-medium text-slate-300 mb-2">Baseline</label>
+          <select
+            id="compare-base"
+            value={baseId}
+            onChange={(e) => setBaseId(e.target.value)}
+            className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          >
+            {audits.map(auditOption)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="compare-target" className="block text-sm font-medium text-slate-300 mb-2">Compared with</label>
+          <select
+            id="compare-target"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          >
+            {audits.map(auditOption)}
+          </select>
+        </div>
+      </div>
+
+      {diff && base && target && (
+        <>
+          <div className="bg-gradient-to-r from-indigo-900 to-purple-900 rounded-xl p-6 shadow-lg border border-indigo-500/30">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-center md:text-left">
+              <div>
+                <p className="text-indigo-200 text-sm mb-1 font-medium">Score Change</p>
+                <p className={`text-4xl font-bold ${diff.scoreDelta > 0 ? 'text-green-400' : diff.scoreDelta < 0 ? 'text-red-400' : 'text-slate-200'}`}>
+                  {diff.scoreDelta > 0 ? '+' : ''}{diff.scoreDelta}
+                </p>
+              </div>
+              <div>
+                <p className="text-indigo-200 text-sm mb-1 font-medium">Introduced</p>
+                <p className="text-4xl font-bold text-red-400">{diff.introduced.length}</p>
+              </div>
+              <div>
+                <p className="text-indigo-200 text-sm mb-1 font-medium">Resolved</p>
+                <p className="text-4xl font-bold text-green-400">{diff.resolved.length}</p>
+              </div>
+              <div>
+                <p className="text-indigo-200 text-sm mb-1 font-medium">Still Open</p>
+                <p className="text-4xl font-bold text-white">{diff.persisting.length}</p>
+              </div>
+            </div>
+          </div>
+
+          {diff.criteria.length > 0 && (
+            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+              <h3 className="text-xl font-bold mb-4 text-white">Changes by Criterion</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th scope="col" className="py-2 font-medium">Criterion</th>
+                    <th scope="col" className="py-2 font-medium text-right">v{base.auditVersion}</th>
+                    <th scope="col" className="py-2 font-medium text-right">v{target.auditVersion}</th>
+                    <th scope="col" className="py-2 font-medium text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.criteria.map(row => (
+                    <tr key={row.criterion} className="border-b border-slate-700/50">
+                      <td className="py-2 font-mono text-slate-200">{row.criterion}</td>
+                      <td className="py-2 text-right text-slate-300">{row.before}</td>
+                      <td className="py-2 text-right text-slate-300">{row.after}</td>
+                      <td className={`py-2 text-right font-bold ${row.delta > 0 ? 'text-red-400' : row.delta < 0 ? 'text-green-400' : 'text-slate-500'}`}>
+                        {row.delta > 0 ? '+' : ''}{row.delta}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {diff.introduced.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-xl font-bold text-red-400">Introduced in v{target.auditVersion}</h3>
+              {diff.introduced.map(v => <ViolationCard key={v.fingerprint} violation={v} />)}
+            </div>
+          )}
+
+          {diff.resolved.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-xl font-bold text-green-400">Resolved since v{base.auditVersion}</h3>
+              <div className="opacity-75">
+                {diff.resolved.map(v => <ViolationCard key={v.fingerprint} violation={v} />)}
+              </div>
+            </div>
+          )}
+
+          {diff.persisting.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-xl font-bold text-slate-200">Still Open</h3>
+              {diff.persisting.map(change => (
+                <div key={change.after.fingerprint}>
+                  <SeverityDelta change={change} />
+                  <ViolationCard violation={change.after} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {base.auditId === target.auditId && (
+            <p className="text-slate-400 text-center">Select two different audit versions to compare.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
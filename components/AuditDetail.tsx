@@ -1,27 +1,107 @@
 import React from 'react';
-import { AuditRecord, Project, Violation } from '../types';
-import { updateAuditNotes } from '../services/storage';
+import { AuditRecord, MemberRole, Project, SuppressionRule, TriageStatus, User, Violation } from '../types';
+import { addViolationComment, getProjectRole, updateAuditNotes, updateViolationTriage } from '../services/storage';
+import { Permission, hasPermission } from '../utils/permissions';
 import ViolationCard from './ViolationCard';
+import { TRIAGE_STATUSES, triageStatusOf } from './TriagePanel';
+import { SuppressionRuleDialog } from './SuppressionRules';
+import { describeSuppressionMatch } from '../utils/suppression';
+import { mapToStandards } from '../utils/standardsMapping';
+import { StandardsComplianceCard } from './StandardsComplianceCard';
+import { getFrameDataUrl } from '../services/frameStore';
+import { renderAuditReportHtml } from '../utils/auditReportHtml';
+import { downloadBlob, printHtmlDocument, slugifyFilename } from '../utils/download';
+import { ExportMenu } from './ExportMenu';
+import { IMPORT_SOURCE_LABELS } from '../utils/scannerImport';
+import { FileDown, Printer } from 'lucide-react';
 
 interface AuditDetailProps {
   audit: AuditRecord;
   project: Project;
+  currentUser: User;
   onBack: () => void;
   onDelete: () => void;
 }
 
-export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, onBack, onDelete }) => {
+export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, currentUser, onBack, onDelete }) => {
   const [notes, setNotes] = React.useState(audit.notes || '');
+  // Safeguard if fullReport is missing
+  const [allViolations, setAllViolations] = React.useState<Violation[]>(audit.fullReport?.violations || []);
+  const [statusFilter, setStatusFilter] = React.useState<TriageStatus | 'all'>('all');
+  const [suppressTarget, setSuppressTarget] = React.useState<Violation | null>(null);
+  const [suppressNotice, setSuppressNotice] = React.useState('');
+  const [exporting, setExporting] = React.useState(false);
+  const suppressed = audit.fullReport?.suppressed || [];
+  const [rules, setRules] = React.useState<SuppressionRule[]>(project.suppressionRules || []);
+  const ruleFor = (v: Violation) => rules.find(r => r.ruleId === v.suppressed_by);
   const [editingNotes, setEditingNotes] = React.useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
+  const [role, setRole] = React.useState<MemberRole | null>(null);
+  const can = (permission: Permission) => hasPermission(role, permission);
+  
+  React.useEffect(() => {
+    getProjectRole(project, currentUser.userId).then(setRole);
+  }, [project.projectId, currentUser.userId]);
   
   async function saveNotes() {
-    await updateAuditNotes(audit.auditId, notes);
+    await updateAuditNotes(audit.auditId, currentUser.userId, notes);
     setEditingNotes(false);
   }
   
-  // Safeguard if fullReport is missing
-  const violations = audit.fullReport?.violations || [];
+  // Evidence frames live in IndexedDB; inline them so the exported file stands alone
+  async function buildReportHtml(): Promise<string> {
+    const frames: Record<string, string> = {};
+    const urls = new Set(allViolations.map(v => v.visual_evidence?.frame_image_url).filter((url): url is string => !!url));
+    for (const url of urls) {
+      const data = await getFrameDataUrl(url);
+      if (data) frames[url] = data;
+    }
+    return renderAuditReportHtml(currentAudit, project, { notes, frames });
+  }
+  
+  async function exportHtml() {
+    setExporting(true);
+    try {
+      const html = await buildReportHtml();
+      downloadBlob(new Blob([html], { type: 'text/html' }), `${slugifyFilename(project.projectName)}-audit-v${audit.auditVersion}.html`);
+    } finally {
+      setExporting(false);
+    }
+  }
+  
+  async function printReport() {
+    setExporting(true);
+    try {
+      printHtmlDocument(await buildReportHtml());
+    } finally {
+      setExporting(false);
+    }
+  }
+  
+  // Data exports reflect triage edits made since the audit was loaded
+  const currentAudit: AuditRecord = { ...audit, notes, fullReport: { ...audit.fullReport, violations: allViolations } };
+
+  const replaceViolation = (updated: Violation) =>
+    setAllViolations(prev => prev.map(v => v.fingerprint === updated.fingerprint ? updated : v));
+
+  const triageHandlers = (violation: Violation) => ({
+    onUpdate: async (updates: { status?: TriageStatus; assignee?: string; dueDate?: string }) => {
+      replaceViolation(await updateViolationTriage(audit.auditId, violation.fingerprint!, currentUser.userId, updates));
+    },
+    onComment: async (text: string) => {
+      replaceViolation(await addViolationComment(audit.auditId, violation.fingerprint!, currentUser, text));
+    }
+  });
+
+  const statusCounts = allViolations.reduce((counts, v) => {
+    const status = triageStatusOf(v);
+    counts[status] = (counts[status] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<TriageStatus, number>>);
+
+  const violations = statusFilter === 'all'
+    ? allViolations
+    : allViolations.filter(v => triageStatusOf(v) === statusFilter);
   
   const criticalViolations = violations.filter(v => v.severity === 'critical');
   const highViolations = violations.filter(v => v.severity === 'high');
@@ -42,14 +122,39 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
           </button>
           <h1 className="text-3xl font-bold text-white">Audit Version {audit.auditVersion}</h1>
           <p className="text-slate-400">{new Date(audit.timestamp).toLocaleString()}</p>
+          <p className="text-xs text-slate-500 mt-1">
+            Scored with {audit.scoringProfile ? `${audit.scoringProfile.name} v${audit.scoringProfile.version}` : 'Default'} profile
+            {audit.fullReport?.wcag_compliance.target && ` · target WCAG ${audit.fullReport.wcag_compliance.target} ${audit.fullReport.wcag_compliance.meets_target ? 'met' : 'not met'}`}
+            {audit.rescoredAt && ` · re-scored ${new Date(audit.rescoredAt).toLocaleDateString()}`}
+            {audit.source && ` · imported from ${IMPORT_SOURCE_LABELS[audit.source]}`}
+          </p>
         </div>
         
-        <button
-          onClick={() => setShowDeleteConfirm(true)}
-          className="px-4 py-2 bg-red-950/30 hover:bg-red-900/50 text-red-400 border border-red-700 rounded-lg transition-colors"
-        >
-          Delete Audit
-        </button>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={exportHtml}
+            disabled={exporting}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-slate-200 transition-colors"
+          >
+            <FileDown size={16} /> Export HTML
+          </button>
+          <button
+            onClick={printReport}
+            disabled={exporting}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-slate-200 transition-colors"
+          >
+            <Printer size={16} /> Print / PDF
+          </button>
+          <ExportMenu project={project} audits={[currentAudit]} filenameSuffix={`audit-v${audit.auditVersion}`} />
+          {can('audit:delete') && (
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="px-4 py-2 bg-red-950/30 hover:bg-red-900/50 text-red-400 border border-red-700 rounded-lg transition-colors"
+            >
+              Delete Audit
+            </button>
+          )}
+        </div>
       </div>
       
       {/* Score Overview */}
@@ -82,7 +187,7 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
       <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-lg font-bold text-white">Notes</h3>
-          {!editingNotes && (
+          {!editingNotes && can('audit:notes') && (
             <button
               onClick={() => setEditingNotes(true)}
               className="text-indigo-400 hover:text-indigo-300 text-sm font-medium"
@@ -142,12 +247,35 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
         </div>
       </div>
       
+      <StandardsComplianceCard standards={audit.fullReport?.standards_compliance || mapToStandards(allViolations)} />
+      
+      {/* Triage Status Filter */}
+      {allViolations.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by triage status">
+          {[{ value: 'all' as const, label: 'All', count: allViolations.length },
+            ...TRIAGE_STATUSES.map(s => ({ ...s, count: statusCounts[s.value] || 0 }))].map(chip => (
+            <button
+              key={chip.value}
+              onClick={() => setStatusFilter(chip.value)}
+              aria-pressed={statusFilter === chip.value}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                statusFilter === chip.value
+                  ? 'bg-indigo-600 border-indigo-500 text-white'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              {chip.label} <span className="opacity-70">({chip.count})</span>
+            </button>
+          ))}
+        </div>
+      )}
+      
       {/* Critical Violations */}
       {criticalViolations.length > 0 && (
         <div className="space-y-4">
           <h3 className="text-xl font-bold text-red-400 flex items-center gap-2">🔴 Critical Violations</h3>
           {criticalViolations.map((violation, idx) => (
-            <ViolationCard key={idx} violation={violation} />
+            <ViolationCard key={violation.fingerprint || idx} violation={violation} auditVersion={audit.auditVersion} triage={can('audit:triage') ? triageHandlers(violation) : undefined} onSuppress={can('project:manage') ? () => setSuppressTarget(violation) : undefined} />
           ))}
         </div>
       )}
@@ -157,7 +285,7 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
         <div className="space-y-4">
           <h3 className="text-xl font-bold text-orange-400 flex items-center gap-2">🟠 High Priority Violations</h3>
           {highViolations.map((violation, idx) => (
-            <ViolationCard key={idx} violation={violation} />
+            <ViolationCard key={violation.fingerprint || idx} violation={violation} auditVersion={audit.auditVersion} triage={can('audit:triage') ? triageHandlers(violation) : undefined} onSuppress={can('project:manage') ? () => setSuppressTarget(violation) : undefined} />
           ))}
         </div>
       )}
@@ -167,7 +295,7 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
         <div className="space-y-4">
           <h3 className="text-xl font-bold text-yellow-400 flex items-center gap-2">🟡 Medium Priority Violations</h3>
           {mediumViolations.map((violation, idx) => (
-            <ViolationCard key={idx} violation={violation} />
+            <ViolationCard key={violation.fingerprint || idx} violation={violation} auditVersion={audit.auditVersion} triage={can('audit:triage') ? triageHandlers(violation) : undefined} onSuppress={can('project:manage') ? () => setSuppressTarget(violation) : undefined} />
           ))}
         </div>
       )}
@@ -177,12 +305,24 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
         <div className="space-y-4">
           <h3 className="text-xl font-bold text-blue-400 flex items-center gap-2">🔵 Low Priority Violations</h3>
           {lowViolations.map((violation, idx) => (
-            <ViolationCard key={idx} violation={violation} />
+            <ViolationCard key={violation.fingerprint || idx} violation={violation} auditVersion={audit.auditVersion} triage={can('audit:triage') ? triageHandlers(violation) : undefined} onSuppress={can('project:manage') ? () => setSuppressTarget(violation) : undefined} />
           ))}
         </div>
       )}
       
-      {violations.length === 0 && (
+      {suppressNotice && (
+        <div className="bg-indigo-950/40 border border-indigo-800 rounded-lg px-4 py-3 text-sm text-indigo-200" role="status">
+          {suppressNotice}
+        </div>
+      )}
+      
+      {allViolations.length > 0 && violations.length === 0 && (
+        <div className="bg-slate-800 rounded-xl p-8 text-center border border-slate-700 text-slate-400">
+          No violations with this triage status.
+        </div>
+      )}
+      
+      {allViolations.length === 0 && (
         <div className="bg-slate-800 rounded-xl p-16 text-center border border-slate-700">
           <div className="text-6xl mb-6">🎉</div>
           <h3 className="text-2xl font-bold mb-2 text-white">Perfect Accessibility!</h3>
@@ -190,6 +330,43 @@ export const AuditDetailView: React.FC<AuditDetailProps> = ({ audit, project, on
         </div>
       )}
       
+      {/* Suppressed Findings */}
+      {suppressed.length > 0 && (
+        <details className="bg-slate-800/50 rounded-xl border border-slate-700 p-6">
+          <summary className="cursor-pointer text-lg font-bold text-slate-400 hover:text-white">
+            Suppressed ({suppressed.length})
+          </summary>
+          <p className="text-sm text-slate-500 mt-2 mb-4">Matched a project suppression rule and excluded from the score.</p>
+          <div className="space-y-4 opacity-75">
+            {suppressed.map((violation, idx) => {
+              const rule = ruleFor(violation);
+              return (
+                <div key={violation.fingerprint || idx}>
+                  <p className="text-xs text-slate-500 mb-1">
+                    {rule ? `${describeSuppressionMatch(rule.match)} — ${rule.justification}` : 'Suppression rule has since been removed'}
+                  </p>
+                  <ViolationCard violation={violation} auditVersion={audit.auditVersion} />
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      )}
+      
+      {suppressTarget && (
+        <SuppressionRuleDialog
+          project={project}
+          userId={currentUser.userId}
+          violation={suppressTarget}
+          onClose={() => setSuppressTarget(null)}
+          onSaved={(rule) => {
+            setRules(prev => [...prev, rule]);
+            setSuppressTarget(null);
+            setSuppressNotice('Suppression rule added. It applies to audits run from now on.');
+          }}
+        />
+      )}
+      
       {/* Delete Confirmation */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
@@ -1,11 +1,16 @@
 import React, { useState, useRef } from 'react';
-import { Play, FileVideo, FileCode, AlertCircle, ShieldCheck, Activity, CheckCircle2, Save, ArrowLeft } from 'lucide-react';
-import { extractFramesFromVideo } from '../utils/videoProcessor';
-import { runAudit } from '../services/geminiService';
-import { generateAuditReport } from '../utils/scoring';
-import { AuditReport, AnalysisStatus, Project } from '../types';
+import { Play, FileVideo, AlertCircle, ShieldCheck, Activity, CheckCircle2, Save, ArrowLeft } from 'lucide-react';
+import { findFrameForTimestamp } from '../utils/videoProcessor';
+import { getAuditEngine } from '../services/auditEngine';
+import { runChunkedAudit, ChunkProgress } from '../services/chunkedAudit';
+import { activeScoringProfile, generateAuditReport } from '../utils/scoring';
+import { normalizeViolationCriterion } from '../utils/wcagCatalogue';
+import { runStaticRules, mergeViolations } from '../utils/staticRules';
+import { analyzeFramesContrast, measureModelContrast, withoutModelOverlaps } from '../utils/contrastAnalyzer';
+import { AuditReport, AnalysisStatus, Project, SourceFile, VideoFrame, Violation } from '../types';
 import ScoreGauge from './ScoreGauge';
 import ViolationCard from './ViolationCard';
+import { SourceUpload } from './SourceUpload';
 import {
   BarChart,
   Bar,
@@ -19,23 +24,60 @@ import {
 interface AuditWorkspaceProps {
   project: Project;
   userId: string;
-  onComplete: (results: AuditReport) => Promise<void>;
+  onComplete: (results: AuditReport, frames: VideoFrame[]) => Promise<void>;
   onCancel: () => void;
 }
 
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const chunkStatusColor: Record<ChunkProgress['status'], string> = {
+  pending: 'text-slate-500',
+  extracting: 'text-blue-400',
+  analyzing: 'text-indigo-400 animate-pulse',
+  retrying: 'text-yellow-400 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400'
+};
+
+const chunkStatusLabel = (chunk: ChunkProgress) => {
+  switch (chunk.status) {
+    case 'pending': return 'Queued';
+    case 'extracting': return 'Sampling frames...';
+    case 'analyzing': return `Analyzing ${chunk.frames} frames...`;
+    case 'retrying': return `Retry ${chunk.attempts - 1}...`;
+    case 'done': return `${chunk.violations} findings`;
+    case 'failed': return 'Failed';
+  }
+};
+
 const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComplete, onCancel }) => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [codeFile, setCodeFile] = useState<File | null>(null);
-  const [codeContent, setCodeContent] = useState<string>('');
+  const [sourceFiles, setSourceFiles] = useState<SourceFile[]>([]);
   
   const [status, setStatus] = useState<AnalysisStatus>('idle');
   const [progressMessage, setProgressMessage] = useState<string>('');
   const [report, setReport] = useState<AuditReport | null>(null);
+  const [frames, setFrames] = useState<VideoFrame[]>([]);
+  const [chunks, setChunks] = useState<ChunkProgress[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const codeInputRef = useRef<HTMLInputElement>(null);
+
+  const engine = getAuditEngine(project);
+
+  // Preview-only data URLs; saveAudit swaps them for persisted frame references
+  const attachPreviewFrames = (violations: Violation[], extracted: VideoFrame[]): Violation[] =>
+    violations.map(v => {
+      if (!v.visual_evidence) return v;
+      const frame = findFrameForTimestamp(extracted, v.visual_evidence.frame_timestamp);
+      if (!frame) return v;
+      return {
+        ...v,
+        visual_evidence: { ...v.visual_evidence, frame_image_url: `data:image/jpeg;base64,${frame.data}` }
+      };
+    });
 
   const handleVideoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -44,37 +86,40 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
     }
   };
 
-  const handleCodeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setCodeFile(file);
-      const text = await file.text();
-      setCodeContent(text);
-      setError(null);
-    }
+  const handleSourceChange = (files: SourceFile[]) => {
+    setSourceFiles(files);
+    setError(null);
   };
 
   const startAudit = async () => {
-    if (!videoFile || !codeContent) {
-      setError("Please upload both a video recording and source code file.");
+    if (!videoFile || sourceFiles.length === 0) {
+      setError("Please upload both a video recording and source code files.");
       return;
     }
 
     try {
-      setStatus('extracting');
-      setProgressMessage('Processing video frames (5 FPS)...');
-      
-      const frames = await extractFramesFromVideo(videoFile);
-      
       setStatus('analyzing');
-      setProgressMessage('Gemini 3.0 Pro is analyzing visual + code context...');
+      setProgressMessage(`${engine.label} is analyzing visual + code context...`);
+      setChunks([]);
       
-      // Get raw violations from Gemini
-      const { violations } = await runAudit(frames, codeContent);
+      // Long recordings are analyzed window by window, then merged. Progress only
+      // updates the window list; status changes here so a failure cannot be overwritten.
+      const { violations, frames } = await runChunkedAudit(videoFile, sourceFiles, engine, {
+        onProgress: setChunks
+      });
+
+      setProgressMessage('Measuring contrast on extracted frames...');
+      // Model criteria are free text; canonicalize before matching them against local checks
+      const measuredViolations = await measureModelContrast(violations.map(normalizeViolationCriterion), frames);
+      const contrastViolations = withoutModelOverlaps(await analyzeFramesContrast(frames), measuredViolations);
+
+      // Deterministic source checks run locally and take precedence over model duplicates
+      const merged = mergeViolations([...runStaticRules(sourceFiles), ...contrastViolations], measuredViolations);
       
       // Calculate score and generate full report client-side
-      const fullReport = generateAuditReport(violations);
+      const fullReport = generateAuditReport(attachPreviewFrames(merged, frames), activeScoringProfile(project));
       
+      setFrames(frames);
       setReport(fullReport);
       setStatus('complete');
     } catch (err: any) {
@@ -88,7 +133,7 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
     if (!report) return;
     setIsSaving(true);
     try {
-        await onComplete(report);
+        await onComplete(report, frames);
     } catch (err) {
         console.error(err);
         setError("Failed to save audit results.");
@@ -115,7 +160,7 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
                 <h2 className="text-3xl font-bold mb-4 text-white">Multimodal Inspection</h2>
                 <p className="text-slate-400">
                     Upload a screen recording of the user flow and the corresponding component source code.
-                    <br/><span className="text-sm text-indigo-400 font-mono mt-2 block">Powered by Gemini 3.0 Pro</span>
+                    <br/><span className="text-sm text-indigo-400 font-mono mt-2 block">Powered by {engine.label}</span>
                 </p>
             </div>
         )}
@@ -148,28 +193,7 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
             </div>
 
             {/* Code Input */}
-            <div 
-              className={`border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center transition-all cursor-pointer group
-                ${codeFile ? 'border-purple-500 bg-purple-950/10' : 'border-slate-700 hover:border-purple-400 hover:bg-slate-800'}`}
-              onClick={() => codeInputRef.current?.click()}
-            >
-              <input 
-                type="file" 
-                ref={codeInputRef} 
-                onChange={handleCodeUpload} 
-                className="hidden" 
-                accept=".tsx,.jsx,.html,.js,.ts" 
-              />
-               <div className={`p-4 rounded-full mb-4 ${codeFile ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-400 group-hover:bg-slate-700'}`}>
-                {codeFile ? <CheckCircle2 size={32} /> : <FileCode size={32} />}
-              </div>
-              <h3 className="text-lg font-semibold text-slate-200 mb-2">
-                {codeFile ? codeFile.name : "Upload Source Code"}
-              </h3>
-               <p className="text-sm text-slate-500 text-center">
-                {codeFile ? `${codeContent.length} chars` : "Upload .tsx component"}
-              </p>
-            </div>
+            <SourceUpload files={sourceFiles} onChange={handleSourceChange} onError={setError} />
           </div>
         )}
 
@@ -184,9 +208,9 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
              )}
             <button
                 onClick={startAudit}
-                disabled={!videoFile || !codeFile}
+                disabled={!videoFile || sourceFiles.length === 0}
                 className={`flex items-center gap-3 px-8 py-4 rounded-full font-bold text-lg transition-all transform hover:scale-105
-                ${(!videoFile || !codeFile) 
+                ${(!videoFile || sourceFiles.length === 0) 
                     ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
                     : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-900/50'}`}
             >
@@ -212,19 +236,29 @@ const AuditWorkspace: React.FC<AuditWorkspaceProps> = ({ project, userId, onComp
              </div>
              <h3 className="text-2xl font-bold text-white mb-2">{status === 'extracting' ? 'Preprocessing Video' : 'AI Analysis in Progress'}</h3>
              <p className="text-slate-400 animate-pulse">{progressMessage}</p>
-             {status === 'analyzing' && (
-                <div className="mt-8 p-4 bg-slate-800/50 rounded border border-slate-700 inline-block text-left max-w-lg">
-                    <div className="flex items-center gap-2 text-indigo-400 text-xs font-bold uppercase tracking-wider mb-2">
-                        <span className="w-2 h-2 rounded-full bg-indigo-400 animate-ping"></span>
-                        Thinking Mode
-                    </div>
-                    <div className="text-slate-500 font-mono text-sm h-24 overflow-hidden relative">
-                         <div className="absolute inset-0 bg-gradient-to-t from-slate-800/50 to-transparent pointer-events-none"></div>
-                         &gt; Analyzing visual hierarchy...<br/>
-                         &gt; Detecting contrast violations...<br/>
-                         &gt; Mapping code sources to UI...<br/>
-                         &gt; Evaluating WCAG compliance...
+             {status === 'analyzing' && chunks.length > 0 && (
+                <div className="mt-8 p-4 bg-slate-800/50 rounded border border-slate-700 text-left max-w-lg mx-auto">
+                    <div className="flex items-center justify-between text-xs font-bold uppercase tracking-wider mb-3">
+                        <span className="flex items-center gap-2 text-indigo-400">
+                            <span className="w-2 h-2 rounded-full bg-indigo-400 animate-ping"></span>
+                            Recording Windows
+                        </span>
+                        <span className="text-slate-500">
+                            {chunks.filter(c => c.status === 'done').length}/{chunks.length} complete
+                        </span>
                     </div>
+                    <ul className="space-y-2 font-mono text-xs">
+                        {chunks.map(chunk => (
+                            <li key={chunk.index} className="flex items-center justify-between gap-4">
+                                <span className="text-slate-400">
+                                    {formatSeconds(chunk.start)}–{formatSeconds(chunk.end)}
+                                </span>
+                                <span className={chunkStatusColor[chunk.status]}>
+                                    {chunkStatusLabel(chunk)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
                 </div>
              )}
           </div>
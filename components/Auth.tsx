@@ -1,12 +1,100 @@
 import React from 'react';
 import { User } from '../types';
-import { loginUser, createUser, setCurrentUser } from '../services/storage';
+import { loginUser, createUser, resetPassword, setCurrentUser } from '../services/storage';
 
 interface AuthProps {
   onSuccess: (user: User) => void;
   onSwitch: () => void;
 }
 
+const fieldClass = 'w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400 transition-all';
+
+// Forgotten password: a recovery code from Account Settings stands in for it
+function RecoveryResetForm({ onSuccess, onCancel }: { onSuccess: (user: User) => void; onCancel: () => void }) {
+  const [email, setEmail] = React.useState('');
+  const [recoveryCode, setRecoveryCode] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [confirmPassword, setConfirmPassword] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [loading, setLoading] = React.useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setLoading(true);
+    try {
+      const user = await resetPassword(email, recoveryCode, password);
+      await setCurrentUser(user.userId);
+      onSuccess(user);
+    } catch (err: any) {
+      setError(err.message || 'Password reset failed');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-white mb-2">Reset Password</h2>
+        <p className="text-gray-400 text-sm">Use the recovery code you saved from Account Settings. Each code works once.</p>
+      </div>
+
+      {error && (
+        <div role="alert" className="bg-red-900/30 border border-red-700 text-red-400 px-4 py-3 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="reset-email" className="block text-sm font-medium text-gray-300 mb-2">Email Address</label>
+          <input id="reset-email" type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={fieldClass} placeholder="you@example.com" />
+        </div>
+        <div>
+          <label htmlFor="reset-code" className="block text-sm font-medium text-gray-300 mb-2">Recovery Code</label>
+          <input
+            id="reset-code"
+            required
+            autoComplete="off"
+            spellCheck={false}
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            className={`${fieldClass} font-mono tracking-wider`}
+            placeholder="XXXXX-XXXXX-XXXXX-XXXXX"
+          />
+        </div>
+        <div>
+          <label htmlFor="reset-password" className="block text-sm font-medium text-gray-300 mb-2">New Password</label>
+          <input id="reset-password" type="password" autoComplete="new-password" required minLength={8} value={password} onChange={(e) => setPassword(e.target.value)} className={fieldClass} placeholder="••••••••" />
+          <p className="text-xs text-gray-400 mt-1">Minimum 8 characters</p>
+        </div>
+        <div>
+          <label htmlFor="reset-confirm" className="block text-sm font-medium text-gray-300 mb-2">Confirm New Password</label>
+          <input id="reset-confirm" type="password" autoComplete="new-password" required minLength={8} value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={fieldClass} placeholder="••••••••" />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed rounded-lg font-semibold text-white transition-all shadow-lg hover:shadow-blue-500/50"
+        >
+          {loading ? 'Resetting...' : 'Reset Password & Sign In'}
+        </button>
+      </form>
+
+      <div className="mt-6 text-center">
+        <button onClick={onCancel} className="text-blue-400 hover:text-blue-300 text-sm font-semibold transition-colors">
+          Back to sign in
+        </button>
+      </div>
+    </>
+  );
+}
+
 // ============= IMPROVED LOGIN/LANDING PAGE =============
 export function LoginView({ onSuccess, onSwitch }: AuthProps) {
   const [email, setEmail] = React.useState('');
@@ -14,6 +102,7 @@ export function LoginView({ onSuccess, onSwitch }: AuthProps) {
   const [showPassword, setShowPassword] = React.useState(false);
   const [error, setError] = React.useState('');
   const [loading, setLoading] = React.useState(false);
+  const [resetting, setResetting] = React.useState(false);
   
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -144,6 +233,10 @@ export function LoginView({ onSuccess, onSwitch }: AuthProps) {
           {/* Right Column - Login Form */}
           <div className="w-full max-w-md mx-auto lg:mx-0">
             <div className="bg-gray-800/50 backdrop-blur-lg rounded-2xl p-8 shadow-2xl border border-gray-700/50">
+              {resetting ? (
+                <RecoveryResetForm onSuccess={onSuccess} onCancel={() => setResetting(false)} />
+              ) : (
+              <>
               <div className="mb-6">
                 <h2 className="text-2xl font-bold text-white mb-2">Welcome Back</h2>
                 <p className="text-gray-400 text-sm">Sign in to continue your accessibility journey</p>
@@ -172,9 +265,18 @@ export function LoginView({ onSuccess, onSwitch }: AuthProps) {
                 </div>
                 
                 <div>
-                  <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                    Password
-                  </label>
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-300">
+                      Password
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setResetting(true)}
+                      className="text-xs text-blue-400 hover:text-blue-300 font-medium transition-colors"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
                   <div className="relative">
                     <input
                       id="password"
@@ -235,6 +337,8 @@ export function LoginView({ onSuccess, onSwitch }: AuthProps) {
                   </button>
                 </p>
               </div>
+              </>
+              )}
             </div>
             
             {/* Trust indicators */}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { User } from '../types';
+import { changePassword } from '../services/storage';
+import { Check } from 'lucide-react';
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white focus:outline-none focus:border-indigo-500';
+
+interface ChangePasswordFormProps {
+  user: User;
+  onChanged?: (user: User) => void;
+}
+
+export function ChangePasswordForm({ user, onChanged }: ChangePasswordFormProps) {
+  const [currentPassword, setCurrentPassword] = React.useState('');
+  const [newPassword, setNewPassword] = React.useState('');
+  const [confirmPassword, setConfirmPassword] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [done, setDone] = React.useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setDone(false);
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      const updated = await changePassword(user.userId, currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setDone(true);
+      onChanged?.(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to change password');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor="current-password" className="block text-xs font-medium text-slate-400 mb-1">Current password</label>
+        <input
+          id="current-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="new-password" className="block text-xs font-medium text-slate-400 mb-1">New password</label>
+        <input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          minLength={8}
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          aria-describedby="new-password-hint"
+          className={inputClass}
+        />
+        <p id="new-password-hint" className="text-xs text-slate-500 mt-1">Minimum 8 characters</p>
+      </div>
+      <div>
+        <label htmlFor="confirm-new-password" className="block text-xs font-medium text-slate-400 mb-1">Confirm new password</label>
+        <input
+          id="confirm-new-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          minLength={8}
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+      {done && <p role="status" className="text-sm text-green-400 flex items-center gap-1"><Check size={14} /> Password changed</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg text-sm font-semibold text-white transition-colors"
+      >
+        {saving ? 'Saving...' : 'Change password'}
+      </button>
+    </form>
+  );
+}
@@ -1,17 +1,32 @@
 import React from 'react';
-import { Project, AuditRecord } from '../types';
-import { getUserProjects, createProject, getProjectAudits, deleteProject } from '../services/storage';
-import { Plus, Layout, Globe, Activity, ArrowLeft, Play, Calendar, Trash2 } from 'lucide-react';
+import { Project, AuditRecord, AuditEngineId, MemberRole, User } from '../types';
+import { getUserProjects, createProject, getProjectAudits, deleteProject, getPendingInvitations, getProjectRole } from '../services/storage';
+import { AUDIT_ENGINES, getAuditEngine } from '../services/auditEngine';
+import ScoreTrendChart from './ScoreTrendChart';
+import { SuppressionRulesPanel } from './SuppressionRules';
+import { ScoringProfilesPanel } from './ScoringProfiles';
+import { ExportMenu } from './ExportMenu';
+import { ScannerImportDialog } from './ScannerImport';
+import { WorkspaceBackupDialog } from './WorkspaceBackup';
+import { StorageUsageMeter } from './StorageUsage';
+import { IMPORT_SOURCE_LABELS } from '../utils/scannerImport';
+import { TeamsDialog, ProjectSharingDialog } from './Teams';
+import { MEMBER_ROLES, Permission, hasPermission } from '../utils/permissions';
+import { Plus, Layout, Globe, Activity, ArrowLeft, Play, Calendar, Trash2, GitCompare, FileText, Upload, Archive, Building2, Share2 } from 'lucide-react';
 
 interface ProjectsListProps {
-  userId: string;
+  currentUser: User;
   onSelectProject: (project: Project) => void;
 }
 
-export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps) {
+export function ProjectsListView({ currentUser, onSelectProject }: ProjectsListProps) {
+  const userId = currentUser.userId;
   const [projects, setProjects] = React.useState<Project[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [showCreate, setShowCreate] = React.useState(false);
+  const [showBackup, setShowBackup] = React.useState(false);
+  const [showTeams, setShowTeams] = React.useState(false);
+  const [pendingInvitations, setPendingInvitations] = React.useState(0);
   
   React.useEffect(() => {
     loadProjects();
@@ -21,6 +36,7 @@ export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps)
     const userProjects = await getUserProjects(userId);
     setProjects(userProjects);
     setLoading(false);
+    setPendingInvitations((await getPendingInvitations(currentUser.email)).length);
   }
   
   if (loading) return (
@@ -36,12 +52,31 @@ export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps)
             <h1 className="text-3xl font-bold text-white">My Projects</h1>
             <p className="text-slate-400 mt-1">Manage and track accessibility audits</p>
         </div>
-        <button
-          onClick={() => setShowCreate(true)}
-          className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold text-white transition-colors shadow-lg shadow-indigo-900/20"
-        >
-          <Plus size={18} /> New Project
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowTeams(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium text-slate-200 transition-colors"
+          >
+            <Building2 size={18} /> Teams
+            {pendingInvitations > 0 && (
+              <span className="text-[10px] font-bold bg-indigo-600 text-white px-1.5 py-0.5 rounded-full" aria-label={`${pendingInvitations} pending invitations`}>
+                {pendingInvitations}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setShowBackup(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium text-slate-200 transition-colors"
+          >
+            <Archive size={18} /> Backup
+          </button>
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold text-white transition-colors shadow-lg shadow-indigo-900/20"
+          >
+            <Plus size={18} /> New Project
+          </button>
+        </div>
       </div>
       
       {projects.length === 0 ? (
@@ -82,6 +117,9 @@ export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps)
               </div>
               
               <h3 className="font-bold text-xl text-slate-100 mb-1 group-hover:text-indigo-200 transition-colors line-clamp-1">{project.projectName}</h3>
+              {project.userId !== userId && (
+                <p className="text-xs text-indigo-300 mb-1 flex items-center gap-1"><Share2 size={12} /> Shared with you</p>
+              )}
               {project.websiteUrl ? (
                  <p className="text-sm text-slate-400 mb-4 truncate w-full">{project.websiteUrl}</p>
               ) : (
@@ -101,11 +139,29 @@ export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps)
         </div>
       )}
       
+      <StorageUsageMeter refreshKey={projects} />
+      
+      {showTeams && (
+        <TeamsDialog
+          user={currentUser}
+          onClose={() => setShowTeams(false)}
+          onChanged={loadProjects}
+        />
+      )}
+
+      {showBackup && (
+        <WorkspaceBackupDialog
+          userId={userId}
+          onClose={() => setShowBackup(false)}
+          onImported={loadProjects}
+        />
+      )}
+
       {showCreate && (
         <CreateProjectDialog
           onClose={() => setShowCreate(false)}
-          onCreate={async (name, url, desc) => {
-            const project = await createProject(userId, name, url, desc);
+          onCreate={async (name, url, desc, engine) => {
+            const project = await createProject(userId, name, url, desc, engine);
             setProjects([project, ...projects]);
             setShowCreate(false);
             onSelectProject(project);
@@ -118,18 +174,19 @@ export function ProjectsListView({ userId, onSelectProject }: ProjectsListProps)
 
 interface CreateProjectDialogProps {
     onClose: () => void;
-    onCreate: (name: string, url?: string, desc?: string) => void;
+    onCreate: (name: string, url?: string, desc?: string, engine?: AuditEngineId) => void;
 }
 
 function CreateProjectDialog({ onClose, onCreate }: CreateProjectDialogProps) {
   const [projectName, setProjectName] = React.useState('');
   const [websiteUrl, setWebsiteUrl] = React.useState('');
   const [description, setDescription] = React.useState('');
+  const [auditEngine, setAuditEngine] = React.useState<AuditEngineId | ''>('');
   
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!projectName.trim()) return;
-    onCreate(projectName.trim(), websiteUrl.trim() || undefined, description.trim() || undefined);
+    onCreate(projectName.trim(), websiteUrl.trim() || undefined, description.trim() || undefined, auditEngine || undefined);
   }
   
   return (
@@ -175,6 +232,20 @@ function CreateProjectDialog({ onClose, onCreate }: CreateProjectDialogProps) {
             />
           </div>
           
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Audit Engine</label>
+            <select
+              value={auditEngine}
+              onChange={(e) => setAuditEngine(e.target.value as AuditEngineId | '')}
+              className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white transition-colors"
+            >
+              <option value="">Default ({getAuditEngine().label})</option>
+              {AUDIT_ENGINES.map(engine => (
+                <option key={engine.id} value={engine.id}>{engine.label}</option>
+              ))}
+            </select>
+          </div>
+          
           <div className="flex space-x-4 pt-4">
             <button 
                 type="button" 
@@ -198,20 +269,32 @@ function CreateProjectDialog({ onClose, onCreate }: CreateProjectDialogProps) {
 
 interface ProjectDetailProps {
     project: Project;
+    currentUser: User;
     onBack: () => void;
     onStartAudit: () => void;
     onSelectAudit: (audit: AuditRecord) => void;
+    onCompareAudits: () => void;
+    onGenerateAcr: () => void;
 }
 
-export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit }: ProjectDetailProps) {
+export function ProjectDetailView({ project: initialProject, currentUser, onBack, onStartAudit, onSelectAudit, onCompareAudits, onGenerateAcr }: ProjectDetailProps) {
+  const [project, setProject] = React.useState(initialProject);
   const [audits, setAudits] = React.useState<AuditRecord[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
+  const [showImport, setShowImport] = React.useState(false);
+  const [showSharing, setShowSharing] = React.useState(false);
+  const [role, setRole] = React.useState<MemberRole | null>(null);
+  const can = (permission: Permission) => hasPermission(role, permission);
   
   React.useEffect(() => {
     loadAudits();
   }, [project.projectId]);
   
+  React.useEffect(() => {
+    getProjectRole(project, currentUser.userId).then(setRole);
+  }, [project, currentUser.userId]);
+  
   async function loadAudits() {
     const projectAudits = await getProjectAudits(project.projectId);
     setAudits(projectAudits);
@@ -238,18 +321,39 @@ export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit
              <ArrowLeft size={16} /> Back to Projects
           </button>
           <h1 className="text-3xl font-bold text-white mb-1">{project.projectName}</h1>
+          {role && role !== 'owner' && (
+            <p className="text-xs text-slate-400 mb-1">Your role: {MEMBER_ROLES.find(r => r.value === role)?.label}</p>
+          )}
           {project.websiteUrl && (
              <a href={project.websiteUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 text-sm flex items-center gap-1">
                 <Globe size={14} /> {project.websiteUrl}
              </a>
           )}
         </div>
-        <button 
-            onClick={onStartAudit} 
-            className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-bold text-white transition-colors shadow-lg shadow-indigo-900/20"
-        >
-          <Play size={20} fill="currentColor" /> Run New Audit
-        </button>
+        <div className="flex gap-2">
+          <button
+              onClick={() => setShowSharing(true)}
+              className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium text-slate-200 transition-colors"
+          >
+            <Share2 size={18} /> Share
+          </button>
+          {can('audit:create') && (
+            <>
+              <button
+                  onClick={() => setShowImport(true)}
+                  className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium text-slate-200 transition-colors"
+              >
+                <Upload size={18} /> Import Scan
+              </button>
+              <button 
+                  onClick={onStartAudit} 
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-bold text-white transition-colors shadow-lg shadow-indigo-900/20"
+              >
+                <Play size={20} fill="currentColor" /> Run New Audit
+              </button>
+            </>
+          )}
+        </div>
       </div>
       
       {audits.length > 0 && (
@@ -282,18 +386,43 @@ export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit
         </div>
       )}
       
+      {audits.length > 1 && (
+        <ScoreTrendChart audits={audits} onSelectAudit={onSelectAudit} />
+      )}
+      
       {audits.length === 0 ? (
         <div className="bg-slate-800/50 border border-slate-700 border-dashed rounded-xl p-12 text-center mt-8">
           <p className="text-slate-400 mb-4">No audits recorded for this project yet.</p>
-          <button onClick={onStartAudit} className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium text-white transition-colors">
-            Run First Audit
-          </button>
+          {can('audit:create') && (
+            <button onClick={onStartAudit} className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium text-white transition-colors">
+              Run First Audit
+            </button>
+          )}
         </div>
       ) : (
         <div className="space-y-6">
-          <h2 className="text-xl font-bold text-white flex items-center gap-2">
-            <Activity size={20} className="text-indigo-400" /> Audit History
-          </h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Activity size={20} className="text-indigo-400" /> Audit History
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              <ExportMenu project={project} audits={audits} filenameSuffix="audits" />
+              <button
+                onClick={onGenerateAcr}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-slate-200 transition-colors"
+              >
+                <FileText size={16} /> Generate ACR
+              </button>
+              {audits.length >= 2 && (
+                <button
+                  onClick={onCompareAudits}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium text-slate-200 transition-colors"
+                >
+                  <GitCompare size={16} /> Compare Versions
+                </button>
+              )}
+            </div>
+          </div>
           <div className="space-y-4">
             {audits.map((audit) => {
                const isLatest = audit.auditId === latestAudit.auditId;
@@ -316,6 +445,7 @@ export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit
                                   <div className="flex items-center gap-2">
                                       <h4 className="font-bold text-lg text-slate-200 group-hover:text-white transition-colors">Version {audit.auditVersion}</h4>
                                       {isLatest && <span className="text-[10px] font-bold uppercase bg-indigo-600 text-white px-2 py-0.5 rounded-full">Latest</span>}
+                                      {audit.source && <span className="text-[10px] font-bold uppercase bg-slate-700 text-slate-200 px-2 py-0.5 rounded-full">{IMPORT_SOURCE_LABELS[audit.source]}</span>}
                                   </div>
                                   <div className="flex items-center gap-3 text-sm text-slate-400">
                                       <span className="flex items-center gap-1"><Calendar size={14} /> {new Date(audit.timestamp).toLocaleString()}</span>
@@ -350,14 +480,45 @@ export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit
         </div>
       )}
       
-      <div className="pt-8 border-t border-slate-800">
-        <button
-          onClick={() => setShowDeleteConfirm(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-red-950/20 hover:bg-red-900/30 text-red-400 border border-red-900/50 rounded-lg transition-colors text-sm font-medium"
-        >
-          <Trash2 size={16} /> Delete Project
-        </button>
-      </div>
+      {can('project:manage') && (
+        <>
+          <ScoringProfilesPanel project={project} userId={currentUser.userId} onRescored={loadAudits} />
+          
+          <SuppressionRulesPanel project={project} userId={currentUser.userId} />
+        </>
+      )}
+      
+      {can('project:delete') && (
+        <div className="pt-8 border-t border-slate-800">
+          <button
+            onClick={() => setShowDeleteConfirm(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-red-950/20 hover:bg-red-900/30 text-red-400 border border-red-900/50 rounded-lg transition-colors text-sm font-medium"
+          >
+            <Trash2 size={16} /> Delete Project
+          </button>
+        </div>
+      )}
+      
+      {showSharing && (
+        <ProjectSharingDialog
+          project={project}
+          user={currentUser}
+          onClose={() => setShowSharing(false)}
+          onChanged={(updated) => updated ? setProject(updated) : onBack()}
+        />
+      )}
+      
+      {showImport && (
+        <ScannerImportDialog
+          project={project}
+          userId={currentUser.userId}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false);
+            loadAudits();
+          }}
+        />
+      )}
       
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
@@ -373,7 +534,7 @@ export function ProjectDetailView({ project, onBack, onStartAudit, onSelectAudit
               </button>
               <button
                 onClick={async () => {
-                  await deleteProject(project.projectId, project.userId);
+                  await deleteProject(project.projectId, currentUser.userId);
                   onBack(); // Go back to list
                 }}
                 className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-bold text-white transition-colors"
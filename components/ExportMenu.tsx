@@ -0,0 +1,46 @@
+import React from 'react';
+import { AuditRecord, Project } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportAudits } from '../utils/auditExports';
+import { downloadBlob, slugifyFilename } from '../utils/download';
+import { Download } from 'lucide-react';
+
+interface ExportMenuProps {
+  project: Project;
+  audits: AuditRecord[];
+  filenameSuffix: string; // e.g. "audit-v3" or "audits"
+}
+
+// Format picker plus download button for the machine-readable exports
+export function ExportMenu({ project, audits, filenameSuffix }: ExportMenuProps) {
+  const [format, setFormat] = React.useState<ExportFormat>('json');
+  const selectId = `export-format-${filenameSuffix}`;
+
+  function download() {
+    const file = exportAudits(format, project, audits);
+    downloadBlob(
+      new Blob([file.content], { type: file.mimeType }),
+      `${slugifyFilename(project.projectName)}-${filenameSuffix}.${file.extension}`
+    );
+  }
+
+  return (
+    <div className="flex items-center">
+      <label htmlFor={selectId} className="sr-only">Export format</label>
+      <select
+        id={selectId}
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-l-lg focus:outline-none focus:border-indigo-500 text-sm text-slate-200"
+      >
+        {EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+      </select>
+      <button
+        onClick={download}
+        disabled={audits.length === 0}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-l-0 border-slate-700 rounded-r-lg text-sm font-medium text-slate-200 transition-colors"
+      >
+        <Download size={16} /> Export
+      </button>
+    </div>
+  );
+}
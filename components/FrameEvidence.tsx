@@ -0,0 +1,144 @@
+import React from 'react';
+import { BoundingBox } from '../types';
+import { resolveFrameUrl } from '../services/frameStore';
+import { Maximize2, X } from 'lucide-react';
+
+interface FrameEvidenceProps {
+  url: string;
+  timestamp: string;
+  boundingBox?: BoundingBox;
+}
+
+interface HighlightProps {
+  box: BoundingBox;
+  naturalSize: { width: number; height: number };
+}
+
+// Bounding boxes are in frame pixels; convert to percentages so they scale with the image
+function Highlight({ box, naturalSize }: HighlightProps) {
+  return (
+    <div
+      className="absolute border-2 border-pink-500 bg-pink-500/10 rounded-sm pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+      style={{
+        left: `${(box.x / naturalSize.width) * 100}%`,
+        top: `${(box.y / naturalSize.height) * 100}%`,
+        width: `${(box.width / naturalSize.width) * 100}%`,
+        height: `${(box.height / naturalSize.height) * 100}%`
+      }}
+    />
+  );
+}
+
+export function FrameEvidence({ url, timestamp, boundingBox }: FrameEvidenceProps) {
+  const [src, setSrc] = React.useState<string | null>(null);
+  const [missing, setMissing] = React.useState(false);
+  const [naturalSize, setNaturalSize] = React.useState<{ width: number; height: number } | null>(null);
+  const [lightboxOpen, setLightboxOpen] = React.useState(false);
+  const [showHighlight, setShowHighlight] = React.useState(true);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    resolveFrameUrl(url).then(resolved => {
+      if (!resolved) {
+        if (!cancelled) setMissing(true);
+        return;
+      }
+      if (resolved.revoke) objectUrl = resolved.src;
+      if (cancelled) {
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        return;
+      }
+      setSrc(resolved.src);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  React.useEffect(() => {
+    if (!lightboxOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLightboxOpen(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [lightboxOpen]);
+
+  if (missing) {
+    return <p className="text-xs text-slate-500 italic mt-3">Frame at {timestamp} is no longer available.</p>;
+  }
+
+  if (!src) {
+    return <div className="mt-3 w-48 h-28 rounded bg-slate-800 animate-pulse" />;
+  }
+
+  const highlight = boundingBox && naturalSize && showHighlight
+    ? <Highlight box={boundingBox} naturalSize={naturalSize} />
+    : null;
+
+  return (
+    <>
+      <button
+        onClick={(e) => { e.stopPropagation(); setLightboxOpen(true); }}
+        className="mt-3 relative block w-48 rounded overflow-hidden border border-slate-700 hover:border-blue-400 transition-colors group"
+        aria-label={`Enlarge evidence frame at ${timestamp}`}
+      >
+        <div className="relative">
+          <img
+            src={src}
+            alt={`Recording frame at ${timestamp}`}
+            className="w-full block"
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {highlight}
+        </div>
+        <span className="absolute top-1 right-1 p-1 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+          <Maximize2 size={12} />
+        </span>
+      </button>
+
+      {lightboxOpen && (
+        <div
+          className="fixed inset-0 bg-black/90 backdrop-blur-sm flex flex-col items-center justify-center z-50 p-6 animate-fadeIn"
+          role="dialog"
+          aria-modal="true"
+          aria-label={`Evidence frame at ${timestamp}`}
+          onClick={(e) => { e.stopPropagation(); setLightboxOpen(false); }}
+        >
+          <div className="w-full max-w-5xl flex items-center justify-between mb-3 text-sm text-slate-300" onClick={(e) => e.stopPropagation()}>
+            <span className="font-mono">Frame {timestamp}</span>
+            <div className="flex items-center gap-4">
+              {boundingBox && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showHighlight}
+                    onChange={(e) => setShowHighlight(e.target.checked)}
+                    className="accent-pink-500"
+                  />
+                  Highlight region
+                </label>
+              )}
+              <button
+                onClick={() => setLightboxOpen(false)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                aria-label="Close"
+                autoFocus
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+          <div className="relative max-w-5xl w-full overflow-hidden rounded-lg" onClick={(e) => e.stopPropagation()}>
+            <img src={src} alt={`Recording frame at ${timestamp}`} className="w-full rounded-lg border border-slate-700" />
+            {highlight}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
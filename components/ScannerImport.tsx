@@ -0,0 +1,107 @@
+import React from 'react';
+import { AuditRecord, Project, Severity } from '../types';
+import { saveAudit } from '../services/storage';
+import { activeScoringProfile, generateAuditReport } from '../utils/scoring';
+import { IMPORT_SOURCE_LABELS, ScannerImport, parseScannerResults } from '../utils/scannerImport';
+import { Upload } from 'lucide-react';
+
+interface ScannerImportDialogProps {
+  project: Project;
+  userId: string;
+  onClose: () => void;
+  onImported: (audit: AuditRecord) => void;
+}
+
+const SEVERITIES: { severity: Severity; label: string; color: string }[] = [
+  { severity: Severity.CRITICAL, label: 'Critical', color: 'text-red-400' },
+  { severity: Severity.HIGH, label: 'High', color: 'text-orange-400' },
+  { severity: Severity.MEDIUM, label: 'Medium', color: 'text-yellow-400' },
+  { severity: Severity.LOW, label: 'Low', color: 'text-blue-400' }
+];
+
+export function ScannerImportDialog({ project, userId, onClose, onImported }: ScannerImportDialogProps) {
+  const [parsed, setParsed] = React.useState<ScannerImport | null>(null);
+  const [fileName, setFileName] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    setParsed(null);
+    setError('');
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setParsed(parseScannerResults(await file.text()));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read scanner results');
+    }
+  }
+
+  async function handleImport() {
+    if (!parsed) return;
+    setSaving(true);
+    setError('');
+    try {
+      const report = generateAuditReport(parsed.violations, activeScoringProfile(project));
+      onImported(await saveAudit(project.projectId, userId, report, [], parsed.source));
+    } catch (err: any) {
+      setError(err.message || 'Failed to import audit');
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
+      <div role="dialog" aria-modal="true" aria-labelledby="scanner-import-title" className="bg-slate-800 rounded-xl p-8 max-w-lg w-full border border-slate-700 shadow-2xl space-y-4">
+        <h3 id="scanner-import-title" className="text-xl font-bold text-white flex items-center gap-2"><Upload size={20} /> Import Scanner Results</h3>
+        <p className="text-sm text-slate-400">
+          Upload axe-core, Lighthouse or Pa11y JSON. The results are saved as a new audit version.
+        </p>
+
+        <div>
+          <label htmlFor="scanner-import-file" className="block text-sm font-medium text-slate-300 mb-1">Results file</label>
+          <input
+            id="scanner-import-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            className="w-full text-sm text-slate-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+          />
+        </div>
+
+        {parsed && (
+          <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-sm space-y-2" aria-live="polite">
+            <p className="text-slate-200">
+              <span className="font-semibold">{IMPORT_SOURCE_LABELS[parsed.source]}</span> results from {fileName}
+              {parsed.pageUrl && <span className="block text-xs text-slate-500 font-mono truncate">{parsed.pageUrl}</span>}
+            </p>
+            <p className="text-slate-300">{parsed.violations.length} finding(s)</p>
+            <div className="flex flex-wrap gap-4">
+              {SEVERITIES.map(({ severity, label, color }) => (
+                <span key={severity} className={color}>
+                  {label}: <strong>{parsed.violations.filter(v => v.severity === severity).length}</strong>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+        <div className="flex space-x-3 pt-2">
+          <button onClick={onClose} className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!parsed || saving}
+            className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-bold text-white transition-colors"
+          >
+            {saving ? 'Importing…' : 'Import as Audit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React from 'react';
+import { AuditRecord } from '../types';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid
+} from 'recharts';
+
+interface ScoreTrendChartProps {
+  audits: AuditRecord[];
+  onSelectAudit: (audit: AuditRecord) => void;
+}
+
+interface TrendPoint {
+  version: string;
+  score: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  levelA: boolean;
+  levelAA: boolean;
+  audit: AuditRecord;
+}
+
+// Dot colour encodes conformance: green = AA pass, amber = A only, red = fails A
+const complianceColor = (point: TrendPoint) =>
+  point.levelAA ? '#22c55e' : point.levelA ? '#f59e0b' : '#ef4444';
+
+const ComplianceDot = (props: any) => {
+  const { cx, cy, payload } = props;
+  if (cx === undefined || cy === undefined) return null;
+  return <circle cx={cx} cy={cy} r={6} fill={complianceColor(payload)} stroke="#0f172a" strokeWidth={2} />;
+};
+
+const TrendTooltip = ({ active, payload }: any) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const point: TrendPoint = payload[0].payload;
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 text-sm shadow-xl">
+      <p className="font-bold text-white mb-1">Version {point.audit.auditVersion}</p>
+      <p className="text-slate-400 text-xs mb-2">{new Date(point.audit.timestamp).toLocaleString()}</p>
+      <p className="text-indigo-300">Score: <span className="font-bold text-white">{point.score}</span></p>
+      <p className="text-slate-300 text-xs mt-1">
+        <span className="text-red-400">{point.critical} critical</span> · <span className="text-orange-400">{point.high} high</span> ·{' '}
+        <span className="text-yellow-400">{point.medium} medium</span> · <span className="text-blue-400">{point.low} low</span>
+      </p>
+      <p className="text-xs mt-2">
+        <span className={point.levelA ? 'text-green-400' : 'text-red-400'}>Level A {point.levelA ? '✓' : '✗'}</span>
+        {'  '}
+        <span className={point.levelAA ? 'text-green-400' : 'text-red-400'}>Level AA {point.levelAA ? '✓' : '✗'}</span>
+      </p>
+      <p className="text-slate-500 text-xs mt-2">Click to open</p>
+    </div>
+  );
+};
+
+const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ audits, onSelectAudit }) => {
+  const data: TrendPoint[] = [...audits]
+    .sort((a, b) => a.auditVersion - b.auditVersion)
+    .map(audit => ({
+      version: `v${audit.auditVersion}`,
+      score: audit.accessibilityScore,
+      critical: audit.violationsBySeverity.critical,
+      high: audit.violationsBySeverity.high,
+      medium: audit.violationsBySeverity.medium,
+      low: audit.violationsBySeverity.low,
+      levelA: audit.wcagCompliance.levelA,
+      levelAA: audit.wcagCompliance.levelAA,
+      audit
+    }));
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-bold text-white">Score Trend</h3>
+        <div className="flex items-center gap-4 text-xs text-slate-400">
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-green-500"></span> AA pass</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-amber-500"></span> A pass only</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-red-500"></span> Fails A</span>
+        </div>
+      </div>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={data}
+            onClick={(state: any) => {
+              const point: TrendPoint | undefined = state?.activePayload?.[0]?.payload;
+              if (point) onSelectAudit(point.audit);
+            }}
+            style={{ cursor: 'pointer' }}
+          >
+            <CartesianGrid stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="version" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+            <YAxis yAxisId="score" domain={[0, 100]} stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+            <YAxis yAxisId="count" orientation="right" allowDecimals={false} stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+            <Tooltip content={<TrendTooltip />} cursor={{ fill: '#1e293b' }} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar yAxisId="count" dataKey="critical" name="Critical" stackId="severity" fill="#ef4444" />
+            <Bar yAxisId="count" dataKey="high" name="High" stackId="severity" fill="#f97316" />
+            <Bar yAxisId="count" dataKey="medium" name="Medium" stackId="severity" fill="#eab308" />
+            <Bar yAxisId="count" dataKey="low" name="Low" stackId="severity" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            <Line
+              yAxisId="score"
+              type="monotone"
+              dataKey="score"
+              name="Score"
+              stroke="#818cf8"
+              strokeWidth={3}
+              dot={<ComplianceDot />}
+              activeDot={{ r: 8 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreTrendChart;
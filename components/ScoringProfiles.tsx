@@ -0,0 +1,291 @@
+import React from 'react';
+import { ConformanceTarget, Project, ScoringProfile, Severity, WcagVersion } from '../types';
+import {
+  deleteScoringProfile,
+  getProject,
+  rescoreProjectAudits,
+  saveScoringProfile,
+  setActiveScoringProfile
+} from '../services/storage';
+import { DEFAULT_SCORING_PROFILE } from '../utils/scoring';
+import { Pencil, Plus, RefreshCw, Scale, Trash2 } from 'lucide-react';
+
+const SEVERITIES: Severity[] = [Severity.CRITICAL, Severity.HIGH, Severity.MEDIUM, Severity.LOW];
+const TARGETS: ConformanceTarget[] = ['A', 'AA', 'AAA'];
+const VERSIONS: WcagVersion[] = ['2.2', '2.1'];
+
+// "1.4.3=2" per line <-> { "1.4.3": 2 }
+const formatMultipliers = (multipliers: Record<string, number>) =>
+  Object.entries(multipliers).map(([criterion, value]) => `${criterion}=${value}`).join('\n');
+
+function parseMultipliers(text: string): Record<string, number> {
+  const multipliers: Record<string, number> = {};
+  for (const line of text.split('\n')) {
+    const [criterion, value] = line.split('=').map(part => part.trim());
+    if (!criterion) continue;
+    const parsed = Number(value);
+    if (!/^\d+\.\d+\.\d+$/.test(criterion) || !Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid multiplier "${line.trim()}" — use e.g. 1.4.3=2`);
+    }
+    multipliers[criterion] = parsed;
+  }
+  return multipliers;
+}
+
+interface ProfileFormProps {
+  initial: ScoringProfile;
+  onCancel: () => void;
+  onSave: (profile: Omit<ScoringProfile, 'profileId' | 'version' | 'updatedAt'>) => Promise<void>;
+}
+
+function ProfileForm({ initial, onCancel, onSave }: ProfileFormProps) {
+  const [name, setName] = React.useState(initial.name);
+  const [weights, setWeights] = React.useState(initial.severityWeights);
+  const [multipliers, setMultipliers] = React.useState(formatMultipliers(initial.criterionMultipliers));
+  const [diminishingFactor, setDiminishingFactor] = React.useState(initial.diminishingFactor);
+  const [target, setTarget] = React.useState<ConformanceTarget>(initial.conformanceTarget);
+  const [wcagVersion, setWcagVersion] = React.useState<WcagVersion>(initial.wcagVersion || '2.2');
+  const [error, setError] = React.useState('');
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    try {
+      await onSave({
+        name,
+        severityWeights: weights,
+        criterionMultipliers: parseMultipliers(multipliers),
+        diminishingFactor,
+        conformanceTarget: target,
+        wcagVersion
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save profile');
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-900/50 rounded-lg p-4 border border-slate-700/50 space-y-4">
+      <div>
+        <label htmlFor="profile-name" className="block text-sm font-medium text-slate-300 mb-1">Profile Name *</label>
+        <input
+          id="profile-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+        />
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-slate-300 mb-1">Points deducted per violation</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {SEVERITIES.map(severity => (
+            <div key={severity}>
+              <label htmlFor={`weight-${severity}`} className="block text-xs text-slate-400 mb-1 capitalize">{severity}</label>
+              <input
+                id={`weight-${severity}`}
+                type="number"
+                min={0}
+                step={0.5}
+                value={weights[severity]}
+                onChange={(e) => setWeights({ ...weights, [severity]: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+              />
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="profile-multipliers" className="block text-sm font-medium text-slate-300 mb-1">Criterion multipliers</label>
+        <textarea
+          id="profile-multipliers"
+          value={multipliers}
+          onChange={(e) => setMultipliers(e.target.value)}
+          placeholder={'1.4.3=2\n2.4.7=1.5'}
+          rows={3}
+          className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white font-mono text-sm resize-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="profile-diminishing" className="block text-sm font-medium text-slate-300 mb-1">
+            Repeat factor ({diminishingFactor.toFixed(2)})
+          </label>
+          <input
+            id="profile-diminishing"
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={diminishingFactor}
+            onChange={(e) => setDiminishingFactor(Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+          <p className="text-xs text-slate-500 mt-1">1 counts every repeat of a criterion fully; lower values discount repeats.</p>
+        </div>
+        <div>
+          <label htmlFor="profile-target" className="block text-sm font-medium text-slate-300 mb-1">Conformance target</label>
+          <select
+            id="profile-target"
+            value={target}
+            onChange={(e) => setTarget(e.target.value as ConformanceTarget)}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          >
+            {TARGETS.map(t => <option key={t} value={t}>Level {t}</option>)}
+          </select>
+          <label htmlFor="profile-version" className="block text-sm font-medium text-slate-300 mb-1 mt-3">WCAG version</label>
+          <select
+            id="profile-version"
+            value={wcagVersion}
+            onChange={(e) => setWcagVersion(e.target.value as WcagVersion)}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          >
+            {VERSIONS.map(v => <option key={v} value={v}>WCAG {v}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex space-x-3">
+        <button type="submit" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-sm font-bold text-white transition-colors">
+          Save Profile
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white transition-colors">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface ScoringProfilesPanelProps {
+  project: Project;
+  userId: string;
+  onRescored: () => void;
+}
+
+export function ScoringProfilesPanel({ project, userId, onRescored }: ScoringProfilesPanelProps) {
+  const [profiles, setProfiles] = React.useState<ScoringProfile[]>(project.scoringProfiles || []);
+  const [activeId, setActiveId] = React.useState<string | undefined>(project.activeScoringProfileId);
+  const [editing, setEditing] = React.useState<ScoringProfile | null>(null);
+  const [rescoring, setRescoring] = React.useState(false);
+  const [message, setMessage] = React.useState('');
+
+  async function reload() {
+    const latest = await getProject(project.projectId);
+    setProfiles(latest?.scoringProfiles || []);
+    setActiveId(latest?.activeScoringProfileId);
+  }
+
+  React.useEffect(() => {
+    reload();
+  }, [project.projectId]);
+
+  async function handleSave(profile: Omit<ScoringProfile, 'profileId' | 'version' | 'updatedAt'>) {
+    const isNew = editing?.profileId === DEFAULT_SCORING_PROFILE.profileId;
+    await saveScoringProfile(project.projectId, userId, { ...profile, profileId: isNew ? undefined : editing?.profileId });
+    setEditing(null);
+    await reload();
+  }
+
+  async function handleActivate(profileId?: string) {
+    await setActiveScoringProfile(project.projectId, userId, profileId);
+    setActiveId(profileId);
+    setMessage('New audits will use this profile. Re-score history to apply it to past audits.');
+  }
+
+  async function handleDelete(profileId: string) {
+    await deleteScoringProfile(project.projectId, userId, profileId);
+    await reload();
+  }
+
+  async function handleRescore() {
+    setRescoring(true);
+    try {
+      const audits = await rescoreProjectAudits(project.projectId, userId);
+      setMessage(`Re-scored ${audits.length} audit(s).`);
+      onRescored();
+    } catch (err: any) {
+      setMessage(err.message || 'Re-scoring failed');
+    } finally {
+      setRescoring(false);
+    }
+  }
+
+  const allProfiles = [DEFAULT_SCORING_PROFILE, ...profiles];
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Scale size={18} className="text-slate-400" /> Scoring Profiles
+        </h3>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleRescore}
+            disabled={rescoring}
+            className="flex items-center gap-1 text-slate-300 hover:text-white disabled:text-slate-600 text-sm font-medium"
+          >
+            <RefreshCw size={16} className={rescoring ? 'animate-spin' : ''} /> Re-score History
+          </button>
+          <button
+            onClick={() => setEditing({ ...DEFAULT_SCORING_PROFILE, name: '' })}
+            className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 text-sm font-medium"
+          >
+            <Plus size={16} /> New Profile
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {allProfiles.map(profile => {
+          const isDefault = profile.profileId === DEFAULT_SCORING_PROFILE.profileId;
+          const isActive = isDefault ? !activeId : profile.profileId === activeId;
+          return (
+            <li key={profile.profileId} className={`flex items-center justify-between gap-4 rounded-lg p-3 border ${isActive ? 'border-indigo-500/60 bg-indigo-950/20' : 'border-slate-700/50 bg-slate-900/50'}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-200">
+                  {profile.name} <span className="text-xs font-mono text-slate-500">v{profile.version}</span>
+                  {isActive && <span className="ml-2 text-[10px] font-bold uppercase bg-indigo-600 text-white px-2 py-0.5 rounded-full">Active</span>}
+                </p>
+                <p className="text-xs text-slate-500 font-mono mt-0.5">
+                  {SEVERITIES.map(s => profile.severityWeights[s]).join('/')} · WCAG {profile.wcagVersion || '2.2'} {profile.conformanceTarget}
+                  {profile.diminishingFactor < 1 && ` · repeats ×${profile.diminishingFactor}`}
+                  {Object.keys(profile.criterionMultipliers).length > 0 && ` · ${Object.keys(profile.criterionMultipliers).length} multiplier(s)`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {!isActive && (
+                  <button onClick={() => handleActivate(isDefault ? undefined : profile.profileId)} className="px-3 py-1 text-xs text-indigo-400 hover:text-indigo-300">
+                    Use
+                  </button>
+                )}
+                {!isDefault && (
+                  <>
+                    <button onClick={() => setEditing(profile)} className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700 transition-colors" aria-label={`Edit ${profile.name}`}>
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(profile.profileId)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-950/30 transition-colors" aria-label={`Delete ${profile.name}`}>
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {editing && (
+        <ProfileForm key={editing.profileId + editing.version} initial={editing} onCancel={() => setEditing(null)} onSave={handleSave} />
+      )}
+
+      {message && <p className="text-sm text-slate-400" role="status">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React from 'react';
+import { SourceFile } from '../types';
+import {
+  DEFAULT_UPLOAD_OPTIONS,
+  FileTreeNode,
+  SkippedFile,
+  SourceUploadOptions,
+  buildFileTree,
+  collectSourceFiles,
+  filesFromDataTransfer,
+  parseGlobList
+} from '../utils/sourceFiles';
+import { CheckCircle2, FileCode, Folder, FolderOpen, FileArchive, SlidersHorizontal, X } from 'lucide-react';
+
+interface SourceUploadProps {
+  files: SourceFile[];
+  onChange: (files: SourceFile[]) => void;
+  onError: (message: string) => void;
+}
+
+type Upload = File & { relativePath?: string };
+
+function TreeNode({ node, depth }: { node: FileTreeNode; depth: number }) {
+  const [open, setOpen] = React.useState(depth < 2);
+
+  if (node.file) {
+    return (
+      <li className="flex items-center justify-between gap-2 py-0.5" style={{ paddingLeft: depth * 12 }}>
+        <span className="flex items-center gap-1.5 truncate text-slate-300">
+          <FileCode size={12} className="text-purple-400 shrink-0" /> {node.name}
+        </span>
+        <span className="text-slate-500 shrink-0">{(node.file.content.length / 1024).toFixed(1)} KB</span>
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 py-0.5 text-slate-400 hover:text-white"
+        style={{ paddingLeft: depth * 12 }}
+        aria-expanded={open}
+      >
+        {open ? <FolderOpen size={12} /> : <Folder size={12} />} {node.name}/
+      </button>
+      {open && (
+        <ul>
+          {node.children.map(child => <TreeNode key={child.path} node={child} depth={depth + 1} />)}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function SourceUpload({ files, onChange, onError }: SourceUploadProps) {
+  const [uploads, setUploads] = React.useState<Upload[]>([]);
+  const [skipped, setSkipped] = React.useState<SkippedFile[]>([]);
+  const [options, setOptions] = React.useState<SourceUploadOptions>(DEFAULT_UPLOAD_OPTIONS);
+  const [showFilters, setShowFilters] = React.useState(false);
+  const [dragging, setDragging] = React.useState(false);
+  const [loading, setLoading] = React.useState(false);
+
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+
+  // webkitdirectory is not in React's input typings
+  React.useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  async function collect(nextUploads: Upload[], nextOptions: SourceUploadOptions) {
+    setLoading(true);
+    try {
+      const collection = await collectSourceFiles(nextUploads, nextOptions);
+      setUploads(nextUploads);
+      setSkipped(collection.skipped);
+      onChange(collection.files);
+      if (collection.files.length === 0 && nextUploads.length > 0) {
+        onError('No source files matched the current filters.');
+      }
+    } catch (err: any) {
+      onError(err.message || 'Could not read the uploaded source.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      collect([...uploads, ...Array.from(e.target.files)], options);
+    }
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const dropped = await filesFromDataTransfer(e.dataTransfer);
+    if (dropped.length > 0) collect([...uploads, ...dropped], options);
+  };
+
+  const updateOptions = (updates: Partial<SourceUploadOptions>) => {
+    const next = { ...options, ...updates };
+    setOptions(next);
+    if (uploads.length > 0) collect(uploads, next);
+  };
+
+  const clear = () => {
+    setUploads([]);
+    setSkipped([]);
+    onChange([]);
+  };
+
+  const hasFiles = files.length > 0;
+  const totalSize = files.reduce((sum, f) => sum + f.content.length, 0);
+
+  return (
+    <div
+      className={`border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center transition-all group
+        ${dragging ? 'border-purple-400 bg-slate-800' : hasFiles ? 'border-purple-500 bg-purple-950/10' : 'border-slate-700 hover:border-purple-400 hover:bg-slate-800'}`}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleInput}
+        className="hidden"
+        accept=".tsx,.jsx,.html,.htm,.js,.ts,.vue,.svelte,.css,.zip"
+        multiple
+      />
+      <input type="file" ref={folderInputRef} onChange={handleInput} className="hidden" />
+
+      <div className={`p-4 rounded-full mb-4 ${hasFiles ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-400 group-hover:bg-slate-700'}`}>
+        {hasFiles ? <CheckCircle2 size={32} /> : <FileCode size={32} />}
+      </div>
+      <h3 className="text-lg font-semibold text-slate-200 mb-2">
+        {loading ? 'Reading files...' : hasFiles ? `${files.length} source file${files.length === 1 ? '' : 's'}` : 'Upload Source Code'}
+      </h3>
+      <p className="text-sm text-slate-500 text-center mb-4">
+        {hasFiles
+          ? `${(totalSize / 1024).toFixed(1)} KB${skipped.length > 0 ? ` · ${skipped.length} skipped` : ''}`
+          : 'Drop files, a folder or a .zip of your repository'}
+      </p>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs text-slate-300 transition-colors">
+          <FileArchive size={14} /> Files or .zip
+        </button>
+        <button type="button" onClick={() => folderInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs text-slate-300 transition-colors">
+          <Folder size={14} /> Folder
+        </button>
+        <button type="button" onClick={() => setShowFilters(!showFilters)} aria-expanded={showFilters} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs text-slate-300 transition-colors">
+          <SlidersHorizontal size={14} /> Filters
+        </button>
+        {hasFiles && (
+          <button type="button" onClick={clear} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-red-950/40 border border-slate-700 rounded-lg text-xs text-slate-300 hover:text-red-300 transition-colors">
+            <X size={14} /> Clear
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="w-full mt-6 space-y-3 text-left">
+          <div>
+            <label htmlFor="source-include" className="block text-xs font-medium text-slate-400 mb-1">Include globs</label>
+            <textarea
+              id="source-include"
+              defaultValue={options.include.join('\n')}
+              onBlur={(e) => updateOptions({ include: parseGlobList(e.target.value) })}
+              rows={2}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-purple-500 text-white text-xs font-mono resize-none"
+            />
+          </div>
+          <div>
+            <label htmlFor="source-exclude" className="block text-xs font-medium text-slate-400 mb-1">Exclude globs</label>
+            <textarea
+              id="source-exclude"
+              defaultValue={options.exclude.join('\n')}
+              onBlur={(e) => updateOptions({ exclude: parseGlobList(e.target.value) })}
+              rows={4}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-purple-500 text-white text-xs font-mono resize-none"
+            />
+          </div>
+          <div>
+            <label htmlFor="source-max-size" className="block text-xs font-medium text-slate-400 mb-1">Max file size (KB)</label>
+            <input
+              id="source-max-size"
+              type="number"
+              min={1}
+              defaultValue={Math.round(options.maxFileSize / 1024)}
+              onBlur={(e) => updateOptions({ maxFileSize: Math.max(1, Number(e.target.value) || 1) * 1024 })}
+              className="w-32 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-purple-500 text-white text-xs"
+            />
+          </div>
+        </div>
+      )}
+
+      {hasFiles && (
+        <ul className="w-full mt-6 max-h-48 overflow-y-auto text-xs font-mono bg-slate-900/50 rounded-lg border border-slate-700/50 p-3 text-left">
+          {buildFileTree(files).children.map(node => <TreeNode key={node.path} node={node} depth={0} />)}
+        </ul>
+      )}
+
+      {skipped.length > 0 && (
+        <details className="w-full mt-3 text-xs text-slate-500">
+          <summary className="cursor-pointer hover:text-slate-300">{skipped.length} file(s) skipped</summary>
+          <ul className="mt-2 max-h-32 overflow-y-auto font-mono space-y-0.5">
+            {skipped.map(s => (
+              <li key={s.path} className="truncate">{s.path} <span className="text-slate-600">— {s.reason}</span></li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { StandardCompliance } from '../types';
+import { Landmark } from 'lucide-react';
+
+interface StandardsComplianceCardProps {
+  standards: StandardCompliance[];
+}
+
+export function StandardsComplianceCard({ standards }: StandardsComplianceCardProps) {
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <h3 className="text-xl font-bold mb-1 text-white flex items-center gap-2">
+        <Landmark size={20} className="text-slate-400" /> Standards Conformance
+      </h3>
+      <p className="text-sm text-slate-500 mb-4">Web content requirements only, mapped from WCAG Level A and AA findings.</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {standards.map(standard => (
+          <div
+            key={standard.standard}
+            className={`rounded-lg p-4 border ${standard.pass ? 'bg-green-950/20 border-green-900/50' : 'bg-red-950/20 border-red-900/50'}`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-bold text-white">{standard.name}</p>
+                <p className="text-xs text-slate-500">{standard.version}</p>
+              </div>
+              <p className={`text-lg font-bold ${standard.pass ? 'text-green-400' : 'text-red-400'}`}>
+                {standard.pass ? '✓ Pass' : '✗ Fail'}
+              </p>
+            </div>
+            <p className="text-sm text-slate-400 mt-2">
+              {standard.clauses_failed.length} of {standard.clauses_total} clauses failing
+              {standard.out_of_scope > 0 && ` · ${standard.out_of_scope} finding(s) outside this standard`}
+            </p>
+            {standard.clauses_failed.length > 0 && (
+              <details className="mt-3 text-sm">
+                <summary className="cursor-pointer text-slate-400 hover:text-white">Failing clauses</summary>
+                <ul className="mt-2 space-y-1">
+                  {standard.clauses_failed.map(clause => (
+                    <li key={clause.clause} className="flex justify-between gap-4 text-slate-300">
+                      <span><span className="font-mono text-slate-400">{clause.clause}</span> {clause.title}</span>
+                      <span className="text-slate-500 shrink-0">{clause.violations}</span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
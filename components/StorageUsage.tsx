@@ -0,0 +1,74 @@
+import React from 'react';
+import { StorageUsage } from '../types';
+import { getStorageUsage } from '../services/storageBackend';
+import { HardDrive } from 'lucide-react';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
+
+const BACKEND_LABELS: Record<StorageUsage['backend'], string> = {
+  indexeddb: 'IndexedDB',
+  localstorage: 'localStorage (limited to about 5 MB)'
+};
+
+// Browser storage used by this origin, from navigator.storage.estimate()
+export function StorageUsageMeter({ refreshKey }: { refreshKey?: unknown }) {
+  const [usage, setUsage] = React.useState<StorageUsage | null>(null);
+
+  React.useEffect(() => {
+    getStorageUsage().then(setUsage).catch(() => setUsage(null));
+  }, [refreshKey]);
+
+  if (!usage) return null;
+
+  const fraction = usage.usage !== undefined && usage.quota ? usage.usage / usage.quota : undefined;
+  const percent = fraction !== undefined ? Math.min(100, Math.round(fraction * 100)) : undefined;
+  const barColor = fraction === undefined ? 'bg-slate-500' : fraction >= 0.9 ? 'bg-red-500' : fraction >= 0.75 ? 'bg-yellow-500' : 'bg-indigo-500';
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <span className="flex items-center gap-2 text-slate-300 font-medium">
+          <HardDrive size={16} className="text-slate-400" /> Storage · {BACKEND_LABELS[usage.backend]}
+        </span>
+        <span className="text-slate-400 font-mono text-xs">
+          {usage.usage !== undefined && usage.quota
+            ? `${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used`
+            : 'Usage not reported by this browser'}
+        </span>
+      </div>
+      {percent !== undefined && (
+        <div
+          role="progressbar"
+          aria-label="Browser storage used"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          className="h-2 bg-slate-900 rounded-full overflow-hidden"
+        >
+          <div className={`h-full ${barColor}`} style={{ width: `${Math.max(percent, 1)}%` }} />
+        </div>
+      )}
+      {fraction !== undefined && fraction >= 0.75 && (
+        <p className="text-xs text-yellow-400 mt-2">
+          Storage is nearly full. Download a backup and delete old audits or their frames to free space.
+        </p>
+      )}
+      {usage.migrationIssue && (
+        <p role="alert" className="text-xs text-red-400 mt-2">{usage.migrationIssue}</p>
+      )}
+      {usage.persisted === false && (
+        <p className="text-xs text-slate-500 mt-2">The browser may clear this data under storage pressure; keep regular backups.</p>
+      )}
+    </div>
+  );
+}
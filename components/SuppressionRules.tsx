@@ -0,0 +1,242 @@
+import React from 'react';
+import { Project, SuppressionMatch, SuppressionRule, Violation } from '../types';
+import { addSuppressionRule, deleteSuppressionRule, getProject } from '../services/storage';
+import { describeSuppressionMatch, isRuleActive } from '../utils/suppression';
+import { EyeOff, Plus, Trash2 } from 'lucide-react';
+
+type MatchKind = SuppressionMatch['kind'];
+
+const MATCH_KINDS: { value: MatchKind; label: string }[] = [
+  { value: 'fingerprint', label: 'This exact finding' },
+  { value: 'criterion-file', label: 'Criterion in file(s)' },
+  { value: 'selector', label: 'Selector pattern' }
+];
+
+interface SuppressionRuleDialogProps {
+  project: Project;
+  userId: string;
+  violation?: Violation; // Prefills the match fields
+  onClose: () => void;
+  onSaved: (rule: SuppressionRule) => void;
+}
+
+export function SuppressionRuleDialog({ project, userId, violation, onClose, onSaved }: SuppressionRuleDialogProps) {
+  const [kind, setKind] = React.useState<MatchKind>(violation?.fingerprint ? 'fingerprint' : 'criterion-file');
+  const [criterion, setCriterion] = React.useState(violation?.wcag_criterion || '');
+  const [file, setFile] = React.useState(violation?.code_evidence?.file || '');
+  const [pattern, setPattern] = React.useState(violation?.code_evidence?.selector || '');
+  const [justification, setJustification] = React.useState('');
+  const [expiresAt, setExpiresAt] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const buildMatch = (): SuppressionMatch | null => {
+    switch (kind) {
+      case 'fingerprint':
+        return violation?.fingerprint ? { kind, fingerprint: violation.fingerprint } : null;
+      case 'criterion-file':
+        return criterion.trim() && file.trim() ? { kind, criterion: criterion.trim(), file: file.trim() } : null;
+      case 'selector':
+        return pattern.trim() ? { kind, pattern: pattern.trim() } : null;
+    }
+  };
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const match = buildMatch();
+    if (!match) {
+      setError('Fill in the fields for the selected match type.');
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      onSaved(await addSuppressionRule(project.projectId, userId, match, justification, expiresAt));
+    } catch (err: any) {
+      setError(err.message || 'Failed to save suppression rule');
+      setSaving(false);
+    }
+  }
+
+  const kinds = violation?.fingerprint ? MATCH_KINDS : MATCH_KINDS.filter(k => k.value !== 'fingerprint');
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn" onClick={(e) => e.stopPropagation()}>
+      <form onSubmit={handleSubmit} className="bg-slate-800 rounded-xl p-8 max-w-lg w-full border border-slate-700 shadow-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white flex items-center gap-2"><EyeOff size={20} /> Suppress Finding</h3>
+        <p className="text-sm text-slate-400">
+          Matching findings in future audits are listed as suppressed and excluded from the score.
+        </p>
+
+        <div>
+          <label htmlFor="suppress-kind" className="block text-sm font-medium text-slate-300 mb-1">Match</label>
+          <select
+            id="suppress-kind"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as MatchKind)}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          >
+            {kinds.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+          </select>
+        </div>
+
+        {kind === 'fingerprint' && violation && (
+          <p className="text-xs font-mono text-slate-400 bg-slate-900/50 rounded-lg px-3 py-2">{violation.title} · {violation.fingerprint}</p>
+        )}
+
+        {kind === 'criterion-file' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="suppress-criterion" className="block text-sm font-medium text-slate-300 mb-1">WCAG Criterion</label>
+              <input
+                id="suppress-criterion"
+                type="text"
+                value={criterion}
+                onChange={(e) => setCriterion(e.target.value)}
+                placeholder="1.4.3"
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+              />
+            </div>
+            <div>
+              <label htmlFor="suppress-file" className="block text-sm font-medium text-slate-300 mb-1">File or glob</label>
+              <input
+                id="suppress-file"
+                type="text"
+                value={file}
+                onChange={(e) => setFile(e.target.value)}
+                placeholder="src/legacy/**"
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {kind === 'selector' && (
+          <div>
+            <label htmlFor="suppress-selector" className="block text-sm font-medium text-slate-300 mb-1">Selector pattern</label>
+            <input
+              id="suppress-selector"
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="div.third-party-widget *"
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white font-mono text-sm"
+            />
+            <p className="text-xs text-slate-500 mt-1">Use * to match any characters.</p>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="suppress-justification" className="block text-sm font-medium text-slate-300 mb-1">Justification *</label>
+          <textarea
+            id="suppress-justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Why is this not a real issue?"
+            rows={3}
+            required
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white resize-none"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="suppress-expiry" className="block text-sm font-medium text-slate-300 mb-1">Expires (optional)</label>
+          <input
+            id="suppress-expiry"
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className="px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex space-x-3 pt-2">
+          <button type="button" onClick={onClose} className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors">
+            Cancel
+          </button>
+          <button type="submit" disabled={saving || !justification.trim()} className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-700 disabled:text-slate-500 rounded-lg font-bold text-white transition-colors">
+            {saving ? 'Saving...' : 'Suppress'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+interface SuppressionRulesPanelProps {
+  project: Project;
+  userId: string;
+}
+
+export function SuppressionRulesPanel({ project, userId }: SuppressionRulesPanelProps) {
+  const [rules, setRules] = React.useState<SuppressionRule[]>(project.suppressionRules || []);
+  const [showAdd, setShowAdd] = React.useState(false);
+
+  // The project passed in may predate rules added from an audit view
+  React.useEffect(() => {
+    getProject(project.projectId).then(p => setRules(p?.suppressionRules || []));
+  }, [project.projectId]);
+
+  async function removeRule(ruleId: string) {
+    await deleteSuppressionRule(project.projectId, userId, ruleId);
+    setRules(prev => prev.filter(r => r.ruleId !== ruleId));
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <EyeOff size={18} className="text-slate-400" /> Suppression Rules
+        </h3>
+        <button
+          onClick={() => setShowAdd(true)}
+          className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 text-sm font-medium"
+        >
+          <Plus size={16} /> Add Rule
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-slate-500">No findings are suppressed for this project.</p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map(rule => {
+            const active = isRuleActive(rule);
+            return (
+              <li key={rule.ruleId} className="flex items-start justify-between gap-4 bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+                <div className="min-w-0">
+                  <p className="text-sm font-mono text-slate-200 truncate">{describeSuppressionMatch(rule.match)}</p>
+                  <p className="text-sm text-slate-400 mt-1">{rule.justification}</p>
+                  <p className={`text-xs mt-1 ${active ? 'text-slate-500' : 'text-yellow-500'}`}>
+                    {rule.expiresAt ? `${active ? 'Expires' : 'Expired'} ${rule.expiresAt}` : 'No expiry'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeRule(rule.ruleId)}
+                  className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-950/30 transition-colors shrink-0"
+                  aria-label="Delete suppression rule"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showAdd && (
+        <SuppressionRuleDialog
+          project={project}
+          userId={userId}
+          onClose={() => setShowAdd(false)}
+          onSaved={(rule) => {
+            setRules(prev => [...prev, rule]);
+            setShowAdd(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
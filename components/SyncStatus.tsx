@@ -0,0 +1,56 @@
+import React from 'react';
+import { SyncStatus } from '../types';
+import { getSyncStatus, syncNow } from '../services/storage';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+const POLL_INTERVAL = 30000;
+
+// Navbar badge for the optional sync server; renders nothing in local-only builds
+export function SyncIndicator() {
+  const [status, setStatus] = React.useState<SyncStatus | null>(null);
+  const [syncing, setSyncing] = React.useState(false);
+
+  const refresh = React.useCallback(async (flush: boolean) => {
+    if (flush) {
+      setSyncing(true);
+      await syncNow().catch(() => false);
+      setSyncing(false);
+    }
+    setStatus(await getSyncStatus());
+  }, []);
+
+  React.useEffect(() => {
+    refresh(false);
+    const timer = window.setInterval(() => refresh(true), POLL_INTERVAL);
+    const onOnline = () => refresh(true);
+    window.addEventListener('online', onOnline);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', onOnline);
+    };
+  }, [refresh]);
+
+  if (!status?.enabled) return null;
+
+  const label = !status.signedIn
+    ? 'Offline sign-in: sign in again while connected to sync'
+    : status.pending > 0
+      ? `${status.pending} change${status.pending === 1 ? '' : 's'} waiting for the sync server`
+      : status.lastSyncedAt ? `Synced at ${new Date(status.lastSyncedAt).toLocaleTimeString()}` : 'Sync server connected';
+  const inSync = status.signedIn && status.pending === 0;
+
+  return (
+    <button
+      onClick={() => refresh(true)}
+      disabled={syncing || !status.signedIn}
+      title={label}
+      aria-label={label}
+      className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-slate-800/50 disabled:cursor-default ${
+        inSync ? 'text-slate-400' : 'text-yellow-400'
+      }`}
+    >
+      {syncing ? <RefreshCw size={16} className="animate-spin" /> : inSync ? <Cloud size={16} /> : <CloudOff size={16} />}
+      {status.pending > 0 && <span>{status.pending}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,371 @@
+import React from 'react';
+import { Invitation, MemberRole, Organization, Project, ShareRole, User } from '../types';
+import {
+  acceptInvitation, createInvitation, createOrganization, deleteInvitation, getPendingInvitations, getProjectRole,
+  getTargetInvitations, getUserOrganizations, setProjectOrganization, updateOrgMember, updateProjectShare
+} from '../services/storage';
+import { MEMBER_ROLES, hasPermission, orgRole } from '../utils/permissions';
+import { Building2, Check, Mail, Share2, Trash2, UserPlus, X } from 'lucide-react';
+
+const SHARE_ROLES = MEMBER_ROLES.filter(r => r.value !== 'owner');
+const roleLabel = (role: MemberRole) => MEMBER_ROLES.find(r => r.value === role)?.label || role;
+
+function RoleSelect({ value, roles, label, onChange }: {
+  value: MemberRole;
+  roles: typeof MEMBER_ROLES;
+  label: string;
+  onChange: (role: MemberRole) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as MemberRole)}
+      aria-label={label}
+      className="px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+    >
+      {roles.map(r => <option key={r.value} value={r.value} title={r.description}>{r.label}</option>)}
+    </select>
+  );
+}
+
+interface InviteSectionProps {
+  target: Invitation['target'];
+  user: User;
+  roles: typeof MEMBER_ROLES;
+  onError: (message: string) => void;
+}
+
+// Invite form plus the target's pending invitations, which the inviter can revoke
+function InviteSection({ target, user, roles, onError }: InviteSectionProps) {
+  const [email, setEmail] = React.useState('');
+  const [role, setRole] = React.useState<MemberRole>(roles[roles.length - 1].value);
+  const [pending, setPending] = React.useState<Invitation[]>([]);
+
+  React.useEffect(() => {
+    getTargetInvitations(target).then(setPending).catch(() => setPending([]));
+  }, [target.id]);
+
+  async function invite(e: React.FormEvent) {
+    e.preventDefault();
+    onError('');
+    try {
+      const invitation = await createInvitation(target, user, email, role);
+      setPending(prev => [...prev, invitation]);
+      setEmail('');
+    } catch (err: any) {
+      onError(err.message || 'Failed to send invitation');
+    }
+  }
+
+  async function revoke(invitation: Invitation) {
+    onError('');
+    try {
+      await deleteInvitation(invitation.inviteId, user);
+      setPending(prev => prev.filter(i => i.inviteId !== invitation.inviteId));
+    } catch (err: any) {
+      onError(err.message || 'Failed to revoke invitation');
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={invite} className="flex flex-wrap gap-2 items-center">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+          aria-label={`Email to invite to ${target.name}`}
+          className="flex-1 min-w-[12rem] px-3 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white focus:outline-none focus:border-indigo-500"
+        />
+        <RoleSelect value={role} roles={roles} label="Role for the invitation" onChange={setRole} />
+        <button type="submit" className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-xs font-semibold text-white transition-colors">
+          <UserPlus size={14} /> Invite
+        </button>
+      </form>
+      {pending.length > 0 && (
+        <ul className="text-xs text-slate-400 space-y-1">
+          {pending.map(invitation => (
+            <li key={invitation.inviteId} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1"><Mail size={12} /> {invitation.email} · {roleLabel(invitation.role)} · pending</span>
+              <button onClick={() => revoke(invitation)} className="text-slate-500 hover:text-red-400" aria-label={`Revoke invitation for ${invitation.email}`}>
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============= TEAMS =============
+
+interface TeamsDialogProps {
+  user: User;
+  onClose: () => void;
+  onChanged: () => void; // Project access may have changed
+}
+
+export function TeamsDialog({ user, onClose, onChanged }: TeamsDialogProps) {
+  const [orgs, setOrgs] = React.useState<Organization[]>([]);
+  const [invitations, setInvitations] = React.useState<Invitation[]>([]);
+  const [newOrgName, setNewOrgName] = React.useState('');
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    load();
+  }, []);
+
+  async function load() {
+    const [userOrgs, pending] = await Promise.all([getUserOrganizations(user.userId), getPendingInvitations(user.email)]);
+    setOrgs(userOrgs);
+    setInvitations(pending);
+  }
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError('');
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || fallback);
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    await run(async () => {
+      await createOrganization(user, newOrgName);
+      setNewOrgName('');
+    }, 'Failed to create organization');
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
+      <div role="dialog" aria-modal="true" aria-labelledby="teams-title" className="bg-slate-800 rounded-xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-700 shadow-2xl space-y-6">
+        <h3 id="teams-title" className="text-xl font-bold text-white flex items-center gap-2"><Building2 size={20} /> Teams</h3>
+
+        {invitations.length > 0 && (
+          <section className="space-y-2" aria-labelledby="teams-invitations-heading">
+            <h4 id="teams-invitations-heading" className="text-sm font-semibold text-slate-200">Invitations for you</h4>
+            <ul className="space-y-2">
+              {invitations.map(invitation => (
+                <li key={invitation.inviteId} className="flex flex-wrap items-center justify-between gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-sm">
+                  <span className="text-slate-300">
+                    {invitation.invitedBy.displayName} invited you to the {invitation.target.type} <strong className="text-white">{invitation.target.name}</strong> as {roleLabel(invitation.role)}
+                  </span>
+                  <span className="flex gap-2">
+                    <button
+                      onClick={() => run(() => acceptInvitation(invitation.inviteId, user), 'Failed to accept invitation')}
+                      className="flex items-center gap-1 px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded text-xs font-semibold text-white"
+                    >
+                      <Check size={14} /> Accept
+                    </button>
+                    <button
+                      onClick={() => run(() => deleteInvitation(invitation.inviteId, user), 'Failed to decline invitation')}
+                      className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-white"
+                    >
+                      Decline
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="space-y-4" aria-labelledby="teams-orgs-heading">
+          <h4 id="teams-orgs-heading" className="text-sm font-semibold text-slate-200">Organizations</h4>
+          {orgs.length === 0 && <p className="text-sm text-slate-400">You are not a member of any organization yet.</p>}
+          {orgs.map(org => {
+            const isOwner = orgRole(org, user.userId) === 'owner';
+            return (
+              <div key={org.orgId} className="bg-slate-900/50 border border-slate-700 rounded-lg p-4 space-y-3">
+                <p className="font-semibold text-white">{org.name}</p>
+                <ul className="space-y-1.5">
+                  {org.members.map(member => (
+                    <li key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-slate-300">
+                        {member.displayName} <span className="text-slate-500">{member.email}</span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {isOwner ? (
+                          <RoleSelect
+                            value={member.role}
+                            roles={MEMBER_ROLES}
+                            label={`Role of ${member.displayName}`}
+                            onChange={(role) => run(() => updateOrgMember(org.orgId, user.userId, member.userId, role), 'Failed to change role')}
+                          />
+                        ) : (
+                          <span className="text-xs text-slate-400">{roleLabel(member.role)}</span>
+                        )}
+                        {(isOwner || member.userId === user.userId) && (
+                          <button
+                            onClick={() => run(() => updateOrgMember(org.orgId, user.userId, member.userId, null), 'Failed to remove member')}
+                            className="text-slate-500 hover:text-red-400"
+                            aria-label={member.userId === user.userId ? `Leave ${org.name}` : `Remove ${member.displayName}`}
+                            title={member.userId === user.userId ? 'Leave' : 'Remove'}
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {isOwner && (
+                  <InviteSection target={{ type: 'organization', id: org.orgId, name: org.name }} user={user} roles={MEMBER_ROLES} onError={setError} />
+                )}
+              </div>
+            );
+          })}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              value={newOrgName}
+              onChange={(e) => setNewOrgName(e.target.value)}
+              placeholder="New organization name"
+              aria-label="New organization name"
+              className="flex-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white focus:outline-none focus:border-indigo-500"
+            />
+            <button type="submit" disabled={!newOrgName.trim()} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-medium text-white">
+              Create
+            </button>
+          </form>
+        </section>
+
+        {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============= PROJECT SHARING =============
+
+interface ProjectSharingDialogProps {
+  project: Project;
+  user: User;
+  onClose: () => void;
+  onChanged: (project: Project | null) => void; // null when the user gave up their own access
+}
+
+export function ProjectSharingDialog({ project: initialProject, user, onClose, onChanged }: ProjectSharingDialogProps) {
+  const [project, setProject] = React.useState(initialProject);
+  const [role, setRole] = React.useState<MemberRole | null>(null);
+  const [ownedOrgs, setOwnedOrgs] = React.useState<Organization[]>([]);
+  const [error, setError] = React.useState('');
+  const canShare = hasPermission(role, 'project:share');
+
+  React.useEffect(() => {
+    getProjectRole(project, user.userId).then(setRole);
+    getUserOrganizations(user.userId).then(orgs => setOwnedOrgs(orgs.filter(org => orgRole(org, user.userId) === 'owner')));
+  }, [project.projectId]);
+
+  async function apply(action: () => Promise<Project>, fallback: string) {
+    setError('');
+    try {
+      const updated = await action();
+      setProject(updated);
+      onChanged(updated);
+    } catch (err: any) {
+      setError(err.message || fallback);
+    }
+  }
+
+  async function leave() {
+    setError('');
+    try {
+      await updateProjectShare(project.projectId, user.userId, user.userId, null);
+      onChanged(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to leave project');
+    }
+  }
+
+  const shares = project.shares || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
+      <div role="dialog" aria-modal="true" aria-labelledby="sharing-title" className="bg-slate-800 rounded-xl p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto border border-slate-700 shadow-2xl space-y-6">
+        <h3 id="sharing-title" className="text-xl font-bold text-white flex items-center gap-2"><Share2 size={20} /> Share “{project.projectName}”</h3>
+
+        <section className="space-y-2" aria-labelledby="sharing-org-heading">
+          <h4 id="sharing-org-heading" className="text-sm font-semibold text-slate-200">Organization</h4>
+          <p className="text-sm text-slate-400">Members of the organization get their organization role on this project.</p>
+          {canShare ? (
+            <select
+              value={project.orgId || ''}
+              onChange={(e) => apply(() => setProjectOrganization(project.projectId, user.userId, e.target.value || undefined), 'Failed to change organization')}
+              aria-label="Organization"
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-sm text-white focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">None</option>
+              {ownedOrgs.map(org => <option key={org.orgId} value={org.orgId}>{org.name}</option>)}
+              {project.orgId && !ownedOrgs.some(org => org.orgId === project.orgId) && <option value={project.orgId}>Current organization</option>}
+            </select>
+          ) : (
+            <p className="text-sm text-slate-300">{project.orgId ? 'Shared with an organization' : 'None'}</p>
+          )}
+        </section>
+
+        <section className="space-y-3 pt-4 border-t border-slate-700" aria-labelledby="sharing-people-heading">
+          <h4 id="sharing-people-heading" className="text-sm font-semibold text-slate-200">People with access</h4>
+          <ul className="space-y-1.5 text-sm">
+            <li className="flex items-center justify-between text-slate-300">
+              <span>{project.userId === user.userId ? 'You' : 'Project creator'}</span>
+              <span className="text-xs text-slate-400">Owner</span>
+            </li>
+            {shares.map(share => (
+              <li key={share.userId} className="flex items-center justify-between gap-2">
+                <span className="text-slate-300">{share.displayName} <span className="text-slate-500">{share.email}</span></span>
+                <span className="flex items-center gap-2">
+                  {canShare ? (
+                    <RoleSelect
+                      value={share.role}
+                      roles={SHARE_ROLES}
+                      label={`Role of ${share.displayName}`}
+                      onChange={(role) => apply(() => updateProjectShare(project.projectId, user.userId, share.userId, role as ShareRole), 'Failed to change role')}
+                    />
+                  ) : (
+                    <span className="text-xs text-slate-400">{roleLabel(share.role)}</span>
+                  )}
+                  {canShare && (
+                    <button
+                      onClick={() => apply(() => updateProjectShare(project.projectId, user.userId, share.userId, null), 'Failed to remove access')}
+                      className="text-slate-500 hover:text-red-400"
+                      aria-label={`Remove ${share.displayName}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {canShare && (
+            <InviteSection target={{ type: 'project', id: project.projectId, name: project.projectName }} user={user} roles={SHARE_ROLES} onError={setError} />
+          )}
+          {!canShare && shares.some(s => s.userId === user.userId) && (
+            <button onClick={leave} className="text-sm text-red-400 hover:text-red-300">Leave this project</button>
+          )}
+        </section>
+
+        {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import { TriageStatus, Violation } from '../types';
+import { MessageSquare, Send } from 'lucide-react';
+
+export const TRIAGE_STATUSES: { value: TriageStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'wont_fix', label: "Won't Fix" },
+  { value: 'false_positive', label: 'False Positive' }
+];
+
+export const triageStatusOf = (v: Violation): TriageStatus => v.triage?.status || 'open';
+
+export const triageStatusLabel = (status: TriageStatus) =>
+  TRIAGE_STATUSES.find(s => s.value === status)?.label || status;
+
+export const triageStatusBadge = (status: TriageStatus) => {
+  switch (status) {
+    case 'open': return 'text-slate-300 bg-slate-700/50 border-slate-600';
+    case 'in_progress': return 'text-indigo-300 bg-indigo-950/50 border-indigo-800';
+    case 'fixed': return 'text-green-400 bg-green-950/50 border-green-900';
+    case 'wont_fix': return 'text-slate-400 bg-slate-800 border-slate-700';
+    case 'false_positive': return 'text-purple-300 bg-purple-950/50 border-purple-900';
+  }
+};
+
+export interface TriageHandlers {
+  onUpdate: (updates: { status?: TriageStatus; assignee?: string; dueDate?: string }) => Promise<void>;
+  onComment: (text: string) => Promise<void>;
+}
+
+interface TriagePanelProps extends TriageHandlers {
+  violation: Violation;
+}
+
+export function TriagePanel({ violation, onUpdate, onComment }: TriagePanelProps) {
+  const triage = violation.triage;
+  const [assignee, setAssignee] = React.useState(triage?.assignee || '');
+  const [comment, setComment] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState('');
+  const idBase = `triage-${violation.fingerprint}`;
+
+  async function run(action: () => Promise<void>) {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update triage');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function submitComment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!comment.trim()) return;
+    await run(async () => {
+      await onComment(comment);
+      setComment('');
+    });
+  }
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700/50 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <h4 className="text-sm font-semibold text-slate-300">Triage</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor={`${idBase}-status`} className="block text-xs font-medium text-slate-400 mb-1">Status</label>
+          <select
+            id={`${idBase}-status`}
+            value={triageStatusOf(violation)}
+            disabled={saving}
+            onChange={(e) => run(() => onUpdate({ status: e.target.value as TriageStatus }))}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white text-sm"
+          >
+            {TRIAGE_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idBase}-assignee`} className="block text-xs font-medium text-slate-400 mb-1">Assignee</label>
+          <input
+            id={`${idBase}-assignee`}
+            type="text"
+            value={assignee}
+            disabled={saving}
+            onChange={(e) => setAssignee(e.target.value)}
+            onBlur={() => assignee !== (triage?.assignee || '') && run(() => onUpdate({ assignee }))}
+            placeholder="Unassigned"
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idBase}-due`} className="block text-xs font-medium text-slate-400 mb-1">Due Date</label>
+          <input
+            id={`${idBase}-due`}
+            type="date"
+            value={triage?.dueDate || ''}
+            disabled={saving}
+            onChange={(e) => run(() => onUpdate({ dueDate: e.target.value }))}
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h5 className="flex items-center gap-2 text-xs font-medium text-slate-400 mb-2">
+          <MessageSquare size={14} /> Comments ({triage?.comments.length || 0})
+        </h5>
+        {triage && triage.comments.length > 0 && (
+          <ul className="space-y-2 mb-3">
+            {triage.comments.map(c => (
+              <li key={c.commentId} className="bg-slate-800/60 rounded-lg px-3 py-2">
+                <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+                  <span className="font-semibold text-slate-300">{c.authorName}</span>
+                  <span>{new Date(c.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-slate-300 whitespace-pre-wrap">{c.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={submitComment} className="flex gap-2">
+          <label htmlFor={`${idBase}-comment`} className="sr-only">Add comment</label>
+          <input
+            id={`${idBase}-comment`}
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment..."
+            className="flex-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:outline-none focus:border-indigo-500 text-white text-sm"
+          />
+          <button
+            type="submit"
+            disabled={saving || !comment.trim()}
+            className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-700 disabled:text-slate-500 rounded-lg text-white transition-colors"
+            aria-label="Post comment"
+          >
+            <Send size={16} />
+          </button>
+        </form>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import React, { useState } from 'react';
 import { Violation, Severity } from '../types';
-import { AlertTriangle, Code, Eye, ChevronDown, ChevronUp, Copy, Check } from 'lucide-react';
+import { AlertTriangle, Code, Eye, EyeOff, ChevronDown, ChevronUp, Copy, Check } from 'lucide-react';
+import { FrameEvidence } from './FrameEvidence';
+import { lookupCriterion } from '../utils/wcagCatalogue';
+import { AUDIT_ENGINES } from '../services/auditEngine';
+import { TriagePanel, TriageHandlers, triageStatusOf, triageStatusBadge, triageStatusLabel } from './TriagePanel';
 
 interface Props {
   violation: Violation;
+  auditVersion?: number; // Enables the "New" / "Open since" history badge
+  triage?: TriageHandlers; // Makes status, assignee, due date and comments editable
+  onSuppress?: () => void; // Offers creating a suppression rule from this finding
 }
 
 const severityColor = (s: Severity) => {
@@ -25,9 +32,21 @@ const severityBadge = (s: Severity) => {
   }
 };
 
-const ViolationCard: React.FC<Props> = ({ violation }) => {
+const sourceLabel = ({ source, engine }: Violation) => {
+  switch (source) {
+    case 'static-analysis': return 'Static Rule Check';
+    case 'pixel-analysis': return 'Pixel Contrast Analysis';
+    case 'axe-core': return 'axe-core Scan';
+    case 'lighthouse': return 'Lighthouse Scan';
+    case 'pa11y': return 'Pa11y Scan';
+    default: return AUDIT_ENGINES.find(e => e.id === engine)?.label ?? 'Model Analysis';
+  }
+};
+
+const ViolationCard: React.FC<Props> = ({ violation, auditVersion, triage, onSuppress }) => {
   const [expanded, setExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
+  const criterion = lookupCriterion(violation.wcag_criterion);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(violation.suggested_fix.code);
@@ -43,7 +62,39 @@ const ViolationCard: React.FC<Props> = ({ violation }) => {
             <span className={`px-2 py-0.5 text-xs font-bold uppercase rounded border ${severityBadge(violation.severity)}`}>
               {violation.severity}
             </span>
-            <span className="text-slate-400 text-xs font-mono">{violation.wcag_criterion}</span>
+            {criterion ? (
+              <a
+                href={criterion.understandingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-slate-400 hover:text-indigo-300 text-xs font-mono underline decoration-dotted underline-offset-2"
+                title={`${criterion.guideline} · ${criterion.principle} · WCAG ${criterion.introducedIn}${criterion.removedIn ? `, obsolete in ${criterion.removedIn}` : ''}`}
+              >
+                {criterion.id} {criterion.name} <span className="text-slate-500">(Level {criterion.level})</span>
+              </a>
+            ) : (
+              <span className="text-slate-400 text-xs font-mono" title="Not a recognized WCAG 2.1/2.2 success criterion">
+                {violation.wcag_criterion} <span className="text-yellow-500">(unrecognized)</span>
+              </span>
+            )}
+            {auditVersion !== undefined && violation.first_seen_version !== undefined && (
+              violation.first_seen_version >= auditVersion ? (
+                <span className="px-2 py-0.5 text-[10px] font-bold uppercase rounded-full bg-indigo-600 text-white">New</span>
+              ) : (
+                <span className="text-[10px] font-bold uppercase text-slate-500" title={violation.fingerprint}>
+                  Open since v{violation.first_seen_version}
+                </span>
+              )
+            )}
+            {(triage || violation.triage) && (
+              <span className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded border ${triageStatusBadge(triageStatusOf(violation))}`}>
+                {triageStatusLabel(triageStatusOf(violation))}
+              </span>
+            )}
+            {violation.triage?.assignee && (
+              <span className="text-[10px] text-slate-500">→ {violation.triage.assignee}</span>
+            )}
           </div>
           <h3 className="text-lg font-semibold text-slate-100">{violation.title}</h3>
           <p className="text-slate-400 text-sm mt-1">{violation.description}</p>
@@ -65,6 +116,28 @@ const ViolationCard: React.FC<Props> = ({ violation }) => {
                 <span className="text-slate-500 font-mono mr-2">[{violation.visual_evidence.frame_timestamp}]</span>
                 {violation.visual_evidence.description}
               </p>
+              {violation.visual_evidence.contrast && (
+                <div className="mt-3 flex items-center gap-3 text-xs text-slate-400 font-mono">
+                  <span className="flex items-center gap-1">
+                    <span className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: violation.visual_evidence.contrast.foreground }}></span>
+                    {violation.visual_evidence.contrast.foreground}
+                  </span>
+                  <span>on</span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: violation.visual_evidence.contrast.background }}></span>
+                    {violation.visual_evidence.contrast.background}
+                  </span>
+                  <span className="text-slate-200 font-bold">{violation.visual_evidence.contrast.ratio.toFixed(2)}:1</span>
+                  <span>(needs {violation.visual_evidence.contrast.required}:1)</span>
+                </div>
+              )}
+              {violation.visual_evidence.frame_image_url && (
+                <FrameEvidence
+                  url={violation.visual_evidence.frame_image_url}
+                  timestamp={violation.visual_evidence.frame_timestamp}
+                  boundingBox={violation.visual_evidence.bounding_box}
+                />
+              )}
             </div>
           )}
 
@@ -75,7 +148,7 @@ const ViolationCard: React.FC<Props> = ({ violation }) => {
                 <Code size={16} /> Code Source
               </h4>
               <div className="font-mono text-xs text-slate-400 mb-2">
-                {violation.code_evidence.file}:{violation.code_evidence.line}
+                {violation.code_evidence.file}{violation.code_evidence.line > 0 && `:${violation.code_evidence.line}`}
               </div>
               <pre className="bg-black/30 p-3 rounded text-sm text-slate-200 overflow-x-auto border border-slate-800">
                 <code>{violation.code_evidence.snippet}</code>
@@ -85,7 +158,7 @@ const ViolationCard: React.FC<Props> = ({ violation }) => {
 
           {/* Reasoning */}
           <div className="relative pl-4 border-l-2 border-indigo-500/30">
-            <h4 className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">Gemini Analysis</h4>
+            <h4 className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2">{sourceLabel(violation)}</h4>
             <p className="text-sm text-slate-300 italic leading-relaxed">"{violation.reasoning}"</p>
           </div>
 
@@ -93,19 +166,34 @@ const ViolationCard: React.FC<Props> = ({ violation }) => {
           <div className="bg-emerald-950/20 border border-emerald-900/50 rounded-lg p-4">
             <div className="flex justify-between items-center mb-2">
               <h4 className="text-sm font-semibold text-emerald-400">Suggested Fix</h4>
-              <button 
+              {violation.suggested_fix.code && <button 
                 onClick={(e) => { e.stopPropagation(); handleCopy(); }}
                 className="text-xs flex items-center gap-1 text-emerald-400/70 hover:text-emerald-400 transition-colors"
               >
                 {copied ? <Check size={14} /> : <Copy size={14} />}
                 {copied ? 'Copied' : 'Copy Code'}
-              </button>
+              </button>}
             </div>
-            <pre className="bg-black/30 p-3 rounded text-sm text-emerald-100/90 overflow-x-auto border border-emerald-900/30 font-mono">
-              <code>{violation.suggested_fix.code}</code>
-            </pre>
+            {violation.suggested_fix.code && (
+              <pre className="bg-black/30 p-3 rounded text-sm text-emerald-100/90 overflow-x-auto border border-emerald-900/30 font-mono">
+                <code>{violation.suggested_fix.code}</code>
+              </pre>
+            )}
             <p className="text-xs text-emerald-400/60 mt-2">{violation.suggested_fix.explanation}</p>
           </div>
+
+          {triage && violation.fingerprint && (
+            <TriagePanel violation={violation} onUpdate={triage.onUpdate} onComment={triage.onComment} />
+          )}
+
+          {onSuppress && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onSuppress(); }}
+              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+            >
+              <EyeOff size={14} /> Suppress in future audits
+            </button>
+          )}
         </div>
       )}
     </div>
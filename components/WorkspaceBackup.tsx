@@ -0,0 +1,163 @@
+import React from 'react';
+import { BackupImportSummary, WorkspaceBackup } from '../types';
+import { exportWorkspace, importWorkspace } from '../services/storage';
+import { parseWorkspaceBackup } from '../utils/workspaceBackup';
+import { downloadBlob } from '../utils/download';
+import { Archive, Download, Upload } from 'lucide-react';
+
+interface WorkspaceBackupDialogProps {
+  userId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+function SummaryList({ summary }: { summary: BackupImportSummary }) {
+  const rows: [string, number][] = [
+    ['Projects created', summary.projectsCreated],
+    ['Projects merged', summary.projectsMerged],
+    ['Audits added', summary.auditsCreated],
+    ['Audits already present', summary.auditsSkipped],
+    ['IDs reassigned', summary.idsRemapped],
+    ['Frames', summary.framesImported]
+  ];
+  return (
+    <div className="space-y-2">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-400">{label}</dt>
+            <dd className="text-slate-200 font-mono">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {summary.warnings.length > 0 && (
+        <ul className="text-xs text-yellow-400 list-disc pl-4 space-y-0.5">
+          {summary.warnings.map((w, i) => <li key={i}>{w}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function WorkspaceBackupDialog({ userId, onClose, onImported }: WorkspaceBackupDialogProps) {
+  const [includeFrames, setIncludeFrames] = React.useState(false);
+  const [exporting, setExporting] = React.useState(false);
+  const [backup, setBackup] = React.useState<WorkspaceBackup | null>(null);
+  const [preview, setPreview] = React.useState<BackupImportSummary | null>(null);
+  const [result, setResult] = React.useState<BackupImportSummary | null>(null);
+  const [applying, setApplying] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  async function handleExport() {
+    setExporting(true);
+    setError('');
+    try {
+      const data = await exportWorkspace(userId, includeFrames);
+      const date = data.exportedAt.slice(0, 10);
+      downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), `echo-audit-backup-${date}.json`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export workspace');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setPreview(null);
+    setResult(null);
+    setError('');
+    if (!file) return;
+    try {
+      const parsed = parseWorkspaceBackup(await file.text());
+      setPreview(await importWorkspace(userId, parsed, true));
+      setBackup(parsed);
+    } catch (err: any) {
+      setError(err.message || 'Failed to read backup');
+    }
+  }
+
+  async function handleApply() {
+    if (!backup) return;
+    setApplying(true);
+    setError('');
+    try {
+      setResult(await importWorkspace(userId, backup, false));
+      setBackup(null);
+      setPreview(null);
+      onImported();
+    } catch (err: any) {
+      setError(err.message || 'Failed to import backup');
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 px-4 animate-fadeIn">
+      <div role="dialog" aria-modal="true" aria-labelledby="backup-title" className="bg-slate-800 rounded-xl p-8 max-w-lg w-full border border-slate-700 shadow-2xl space-y-6">
+        <h3 id="backup-title" className="text-xl font-bold text-white flex items-center gap-2"><Archive size={20} /> Backup &amp; Restore</h3>
+
+        <section className="space-y-3" aria-labelledby="backup-export-heading">
+          <h4 id="backup-export-heading" className="text-sm font-semibold text-slate-200">Export</h4>
+          <p className="text-sm text-slate-400">Downloads all your projects and audits as a single file.</p>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={includeFrames} onChange={(e) => setIncludeFrames(e.target.checked)} className="accent-indigo-500" />
+            Include evidence frames (larger file)
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-medium text-white transition-colors"
+          >
+            <Download size={16} /> {exporting ? 'Exporting…' : 'Download Backup'}
+          </button>
+        </section>
+
+        <section className="space-y-3 pt-4 border-t border-slate-700" aria-labelledby="backup-import-heading">
+          <h4 id="backup-import-heading" className="text-sm font-semibold text-slate-200">Import</h4>
+          <p className="text-sm text-slate-400">Existing projects are merged; nothing is overwritten or deleted.</p>
+          <label htmlFor="backup-file" className="sr-only">Backup file</label>
+          <input
+            id="backup-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            className="w-full text-sm text-slate-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+          />
+
+          <div aria-live="polite">
+            {preview && backup && (
+              <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-4 space-y-3">
+                <p className="text-sm text-slate-300">
+                  Dry run of a backup from {backup.exportedBy.email} ({new Date(backup.exportedAt).toLocaleString()}):
+                </p>
+                <SummaryList summary={preview} />
+                <button
+                  onClick={handleApply}
+                  disabled={applying}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg text-sm font-bold text-white transition-colors"
+                >
+                  <Upload size={16} /> {applying ? 'Importing…' : 'Apply Import'}
+                </button>
+              </div>
+            )}
+            {result && (
+              <div className="bg-green-950/20 border border-green-900/50 rounded-lg p-4 space-y-2">
+                <p className="text-sm font-semibold text-green-400">Import complete</p>
+                <SummaryList summary={result} />
+              </div>
+            )}
+          </div>
+        </section>
+
+        {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+        <button onClick={onClose} className="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+import { DatabaseSync } from 'node:sqlite';
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { withMemberProfile, withShareProfile } from '../utils/permissions.ts';
+import type { AuditRecord, Invitation, Organization, Project, PublicUser } from '../types.ts';
+
+/**
+ * SQLite persistence for the optional sync server. Projects and audits are kept
+ * as JSON documents next to the columns needed for lookups and ordering, so the
+ * server never has to understand the report format.
+ */
+
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Fields a client may change on a project; ownership and audit counters are server-side
+const PROJECT_UPDATABLE: (keyof Project)[] = [
+  'projectName', 'websiteUrl', 'description', 'auditEngine', 'suppressionRules',
+  'scoringProfiles', 'activeScoringProfileId', 'acrOverrides'
+];
+
+const AUDIT_UPDATABLE: (keyof AuditRecord)[] = [
+  'notes', 'fullReport', 'accessibilityScore', 'wcagCompliance', 'totalViolations',
+  'violationsBySeverity', 'scoringProfile', 'rescoredAt'
+];
+
+const pick = <T extends object>(source: Partial<T>, keys: (keyof T)[]): Partial<T> =>
+  Object.fromEntries(keys.filter(k => source[k] !== undefined && source[k] !== null).map(k => [k, source[k]])) as Partial<T>;
+
+// Applies the allowed fields of an update; a null value clears the field
+function applyUpdates<T extends object>(target: T, updates: Partial<T>, keys: (keyof T)[]): T {
+  const result = { ...target };
+  for (const key of keys) {
+    if (updates[key] === null) delete result[key];
+    else if (updates[key] !== undefined) result[key] = updates[key] as T[keyof T];
+  }
+  return result;
+}
+
+export function openDatabase(path: string) {
+  const db = new DatabaseSync(path);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA foreign_keys = ON;
+    CREATE TABLE IF NOT EXISTS users (
+      user_id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      display_name TEXT NOT NULL,
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_login_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+      expires_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS projects (
+      project_id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS projects_user ON projects(user_id);
+    CREATE TABLE IF NOT EXISTS audits (
+      audit_id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(project_id) ON DELETE CASCADE,
+      audit_version INTEGER NOT NULL,
+      timestamp TEXT NOT NULL,
+      data TEXT NOT NULL,
+      UNIQUE (project_id, audit_version)
+    );
+    CREATE TABLE IF NOT EXISTS organizations (
+      org_id TEXT PRIMARY KEY,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS invitations (
+      invite_id TEXT PRIMARY KEY,
+      email TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS invitations_email ON invitations(email);
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      user_id TEXT PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+      code_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+  `);
+
+  const transaction = <T>(fn: () => T): T => {
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = fn();
+      db.exec('COMMIT');
+      return result;
+    } catch (err) {
+      db.exec('ROLLBACK');
+      throw err;
+    }
+  };
+
+  const toPublicUser = (row: any): PublicUser => ({
+    userId: row.user_id,
+    email: row.email,
+    displayName: row.display_name,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at
+  });
+
+  // ============= USERS & SESSIONS =============
+
+  function hashPassword(password: string): string {
+    const salt = randomBytes(16);
+    return `scrypt$${salt.toString('base64')}$${scryptSync(password, salt, 32).toString('base64')}`;
+  }
+
+  function verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    return timingSafeEqual(scryptSync(password, Buffer.from(salt, 'base64'), expected.length), expected);
+  }
+
+  function createUser(userId: string, email: string, password: string, displayName: string): PublicUser | null {
+    const now = new Date().toISOString();
+    try {
+      db.prepare('INSERT INTO users VALUES (?, ?, ?, ?, ?, ?)')
+        .run(userId, email.toLowerCase(), displayName, hashPassword(password), now, now);
+    } catch {
+      return null; // Email or id already taken
+    }
+    return toPublicUser(db.prepare('SELECT * FROM users WHERE user_id = ?').get(userId));
+  }
+
+  function authenticate(email: string, password: string): PublicUser | null {
+    const row: any = db.prepare('SELECT * FROM users WHERE email = ?').get(email.toLowerCase());
+    if (!row || !verifyPassword(password, row.password_hash)) return null;
+    const now = new Date().toISOString();
+    db.prepare('UPDATE users SET last_login_at = ? WHERE user_id = ?').run(now, row.user_id);
+    return toPublicUser({ ...row, last_login_at: now });
+  }
+
+  function checkPassword(userId: string, password: string): boolean {
+    const row: any = db.prepare('SELECT password_hash FROM users WHERE user_id = ?').get(userId);
+    return !!row && verifyPassword(password, row.password_hash);
+  }
+
+  // Signs out every other session, so a leaked password stops working everywhere but here
+  function changePassword(userId: string, currentPassword: string, newPassword: string, keepToken: string): boolean {
+    if (!checkPassword(userId, currentPassword)) return false;
+    transaction(() => {
+      db.prepare('UPDATE users SET password_hash = ? WHERE user_id = ?').run(hashPassword(newPassword), userId);
+      db.prepare('DELETE FROM sessions WHERE user_id = ? AND token != ?').run(userId, keepToken);
+    });
+    return true;
+  }
+
+  // Null when the new email belongs to another account. Pending invitations follow the
+  // email, and the copies in organizations and shares are refreshed.
+  function updateProfile(userId: string, profile: { email: string; displayName: string }): PublicUser | null {
+    const row: any = db.prepare('SELECT * FROM users WHERE user_id = ?').get(userId);
+    const email = profile.email.toLowerCase();
+    if (email !== row.email && db.prepare('SELECT 1 FROM users WHERE email = ?').get(email)) return null;
+    const user = toPublicUser({ ...row, email, display_name: profile.displayName });
+    transaction(() => {
+      db.prepare('UPDATE users SET email = ?, display_name = ? WHERE user_id = ?').run(email, profile.displayName, userId);
+      db.prepare("UPDATE invitations SET email = ?, data = json_set(data, '$.email', ?) WHERE email = ?").run(email, email, row.email);
+      for (const org of listOrganizations(userId)) writeOrganization(withMemberProfile(org, user));
+      for (const project of listProjects(userId)) {
+        if (project.shares?.some(s => s.userId === userId)) writeProject(withShareProfile(project, user));
+      }
+    });
+    return user;
+  }
+
+  function setRecoveryCode(userId: string, code: string): void {
+    db.prepare('INSERT INTO recovery_codes VALUES (?, ?, ?) ON CONFLICT (user_id) DO UPDATE SET code_hash = excluded.code_hash, created_at = excluded.created_at')
+      .run(userId, hashPassword(code), new Date().toISOString());
+  }
+
+  // Uses up the recovery code and signs out every session
+  function resetPassword(email: string, code: string, newPassword: string): PublicUser | null {
+    const row: any = db.prepare(
+      'SELECT users.*, code_hash FROM users JOIN recovery_codes USING (user_id) WHERE email = ?'
+    ).get(email.toLowerCase());
+    if (!row || !verifyPassword(code, row.code_hash)) return null;
+    transaction(() => {
+      db.prepare('UPDATE users SET password_hash = ? WHERE user_id = ?').run(hashPassword(newPassword), row.user_id);
+      db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(row.user_id);
+      db.prepare('DELETE FROM sessions WHERE user_id = ?').run(row.user_id);
+    });
+    return toPublicUser(row);
+  }
+
+  // Owned projects, their audits and the account's sessions go with the users row. The
+  // caller works out the organization changes, see leaveOrganizations.
+  function deleteUser(user: PublicUser, orgs: { updated: Organization[]; emptied: Organization[] }): void {
+    transaction(() => {
+      for (const org of orgs.updated) writeOrganization(org);
+      for (const org of orgs.emptied) {
+        db.prepare('DELETE FROM organizations WHERE org_id = ?').run(org.orgId);
+        db.prepare('DELETE FROM invitations WHERE target_id = ?').run(org.orgId);
+        db.prepare("UPDATE projects SET data = json_remove(data, '$.orgId') WHERE json_extract(data, '$.orgId') = ?").run(org.orgId);
+      }
+      for (const project of listProjects(user.userId)) {
+        if (project.userId !== user.userId && project.shares?.some(s => s.userId === user.userId)) {
+          writeProject({ ...project, shares: project.shares.filter(s => s.userId !== user.userId) });
+        }
+      }
+      db.prepare(`
+        DELETE FROM invitations
+        WHERE email = ? OR json_extract(data, '$.invitedBy.userId') = ?
+          OR target_id IN (SELECT project_id FROM projects WHERE user_id = ?)
+      `).run(user.email, user.userId, user.userId);
+      db.prepare('DELETE FROM users WHERE user_id = ?').run(user.userId);
+    });
+  }
+
+  function createSession(userId: string): string {
+    const token = randomBytes(32).toString('base64url');
+    db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(Date.now());
+    db.prepare('INSERT INTO sessions VALUES (?, ?, ?)').run(token, userId, Date.now() + SESSION_TTL);
+    return token;
+  }
+
+  function sessionUser(token: string): PublicUser | null {
+    const row: any = db.prepare(
+      'SELECT users.* FROM sessions JOIN users USING (user_id) WHERE token = ? AND expires_at > ?'
+    ).get(token, Date.now());
+    return row ? toPublicUser(row) : null;
+  }
+
+  function deleteSession(token: string): void {
+    db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+  }
+
+  // ============= PROJECTS =============
+
+  function getProject(projectId: string): Project | null {
+    const row: any = db.prepare('SELECT data FROM projects WHERE project_id = ?').get(projectId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  function writeProject(project: Project): void {
+    db.prepare(
+      'INSERT INTO projects VALUES (?, ?, ?, ?) ON CONFLICT (project_id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data'
+    ).run(project.projectId, project.userId, project.updatedAt, JSON.stringify(project));
+  }
+
+  // Owned, shared directly, or belonging to one of the user's organizations
+  function listProjects(userId: string): Project[] {
+    return db.prepare(`
+      SELECT data FROM projects
+      WHERE user_id = ?
+        OR EXISTS (SELECT 1 FROM json_each(projects.data, '$.shares') WHERE json_extract(value, '$.userId') = ?)
+        OR json_extract(data, '$.orgId') IN (
+          SELECT org_id FROM organizations, json_each(organizations.data, '$.members')
+          WHERE json_extract(value, '$.userId') = ?
+        )
+      ORDER BY updated_at DESC
+    `).all(userId, userId, userId).map((row: any) => JSON.parse(row.data));
+  }
+
+  function createProject(userId: string, input: Partial<Project>): Project | null {
+    const now = new Date().toISOString();
+    const projectId = input.projectId || `proj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (getProject(projectId)) return null;
+    const project: Project = {
+      ...pick(input, PROJECT_UPDATABLE),
+      projectId,
+      userId,
+      projectName: input.projectName || 'Untitled project',
+      createdAt: input.createdAt || now,
+      updatedAt: now,
+      auditCount: 0,
+      latestScore: 0
+    };
+    writeProject(project);
+    return project;
+  }
+
+  function updateProject(project: Project, updates: Partial<Project>): Project {
+    const updated = { ...applyUpdates(project, updates, PROJECT_UPDATABLE), updatedAt: new Date().toISOString() };
+    writeProject(updated);
+    return updated;
+  }
+
+  // Organization and shares are changed through their own endpoints, never a settings update
+  function updateProjectAccess(project: Project, access: Pick<Project, 'orgId' | 'shares'>): Project {
+    const updated = applyUpdates(project, access, ['orgId', 'shares']);
+    writeProject(updated);
+    return updated;
+  }
+
+  function deleteProject(projectId: string): void {
+    db.prepare('DELETE FROM projects WHERE project_id = ?').run(projectId);
+    db.prepare('DELETE FROM invitations WHERE target_id = ?').run(projectId);
+  }
+
+  // ============= AUDITS =============
+
+  function listAudits(projectId: string): AuditRecord[] {
+    return db.prepare('SELECT data FROM audits WHERE project_id = ? ORDER BY audit_version DESC')
+      .all(projectId).map((row: any) => JSON.parse(row.data));
+  }
+
+  function getAudit(auditId: string): AuditRecord | null {
+    const row: any = db.prepare('SELECT data FROM audits WHERE audit_id = ?').get(auditId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  function writeAudit(audit: AuditRecord): void {
+    db.prepare(
+      'INSERT INTO audits VALUES (?, ?, ?, ?, ?) ON CONFLICT (audit_id) DO UPDATE SET data = excluded.data'
+    ).run(audit.auditId, audit.projectId, audit.auditVersion, audit.timestamp, JSON.stringify(audit));
+  }
+
+  // The server owns version numbers. When another client saved first, the audit is
+  // renumbered, including findings the client marked as first seen in this version.
+  // Null when the audit id is already used in another project.
+  function saveAudit(project: Project, audit: AuditRecord, userId: string): AuditRecord | null {
+    return transaction(() => {
+      const existing: any = db.prepare('SELECT project_id, data FROM audits WHERE audit_id = ?').get(audit.auditId);
+      if (existing) return existing.project_id === project.projectId ? JSON.parse(existing.data) : null; // Replayed upload
+
+      const row: any = db.prepare('SELECT MAX(audit_version) AS max FROM audits WHERE project_id = ?').get(project.projectId);
+      const auditVersion = (row.max || 0) + 1;
+      const renumber = (v: any) => v.first_seen_version === audit.auditVersion ? { ...v, first_seen_version: auditVersion } : v;
+      const stored: AuditRecord = {
+        ...audit,
+        projectId: project.projectId,
+        userId,
+        auditVersion,
+        fullReport: auditVersion === audit.auditVersion ? audit.fullReport : {
+          ...audit.fullReport,
+          violations: audit.fullReport.violations.map(renumber),
+          suppressed: audit.fullReport.suppressed?.map(renumber)
+        }
+      };
+      writeAudit(stored);
+      writeProject({ ...project, auditCount: auditVersion, latestScore: stored.accessibilityScore, updatedAt: new Date().toISOString() });
+      return stored;
+    });
+  }
+
+  function updateAudit(audit: AuditRecord, updates: Partial<AuditRecord>): AuditRecord {
+    const updated = applyUpdates(audit, updates, AUDIT_UPDATABLE);
+    transaction(() => {
+      writeAudit(updated);
+      // Re-scoring the newest audit changes the project's headline score
+      db.prepare(
+        `UPDATE projects SET data = json_set(data, '$.latestScore', ?)
+         WHERE project_id = ? AND (SELECT MAX(audit_version) FROM audits WHERE project_id = ?) = ?`
+      ).run(updated.accessibilityScore, updated.projectId, updated.projectId, updated.auditVersion);
+    });
+    return updated;
+  }
+
+  function deleteAudit(auditId: string): void {
+    db.prepare('DELETE FROM audits WHERE audit_id = ?').run(auditId);
+  }
+
+  // ============= ORGANIZATIONS & INVITATIONS =============
+
+  function getOrganization(orgId: string): Organization | null {
+    const row: any = db.prepare('SELECT data FROM organizations WHERE org_id = ?').get(orgId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  function listOrganizations(userId: string): Organization[] {
+    return db.prepare(`
+      SELECT organizations.data FROM organizations, json_each(organizations.data, '$.members')
+      WHERE json_extract(value, '$.userId') = ?
+    `).all(userId).map((row: any) => JSON.parse(row.data));
+  }
+
+  function writeOrganization(org: Organization): Organization {
+    db.prepare('INSERT INTO organizations VALUES (?, ?) ON CONFLICT (org_id) DO UPDATE SET data = excluded.data')
+      .run(org.orgId, JSON.stringify(org));
+    return org;
+  }
+
+  function getInvitation(inviteId: string): Invitation | null {
+    const row: any = db.prepare('SELECT data FROM invitations WHERE invite_id = ?').get(inviteId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  function listInvitations(filter: { email: string } | { targetId: string }): Invitation[] {
+    const rows = 'email' in filter
+      ? db.prepare('SELECT data FROM invitations WHERE email = ?').all(filter.email.toLowerCase())
+      : db.prepare('SELECT data FROM invitations WHERE target_id = ?').all(filter.targetId);
+    return rows.map((row: any) => JSON.parse(row.data));
+  }
+
+  function createInvitation(invitation: Invitation): Invitation {
+    db.prepare('INSERT INTO invitations VALUES (?, ?, ?, ?)')
+      .run(invitation.inviteId, invitation.email, invitation.target.id, JSON.stringify(invitation));
+    return invitation;
+  }
+
+  function deleteInvitation(inviteId: string): void {
+    db.prepare('DELETE FROM invitations WHERE invite_id = ?').run(inviteId);
+  }
+
+  return {
+    createUser, authenticate, checkPassword, changePassword, updateProfile, setRecoveryCode, resetPassword, deleteUser,
+    createSession, sessionUser, deleteSession,
+    getProject, listProjects, createProject, updateProject, updateProjectAccess, deleteProject,
+    listAudits, getAudit, saveAudit, updateAudit, deleteAudit,
+    getOrganization, listOrganizations, writeOrganization,
+    getInvitation, listInvitations, createInvitation, deleteInvitation, transaction
+  };
+}
+
+export type Database = ReturnType<typeof openDatabase>;
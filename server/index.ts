@@ -0,0 +1,399 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { AuditRecord, AuditReport, Invitation, MemberRole, Organization, Project, PublicUser } from '../types.ts';
+import {
+  acceptIntoOrganization, acceptIntoProject, assertCanInvite, changeOrgMember, leaveOrganizations, orgRole, projectRole,
+  hasPermission, MEMBER_ROLES, type Permission
+} from '../utils/permissions.ts';
+import { openDatabase } from './db.ts';
+
+/**
+ * Optional self-hosted sync server: zero dependencies, Node's built-in http and
+ * sqlite modules. Run with `npm run server`; the front end uses it when built with
+ * ECHO_AUDIT_SERVER pointing here.
+ *
+ *   POST   /api/auth/signup              { email, password, displayName }
+ *   POST   /api/auth/login               { email, password }
+ *   POST   /api/auth/logout
+ *   POST   /api/auth/password            { currentPassword, newPassword }
+ *   PATCH  /api/auth/me                  { email, displayName }
+ *   DELETE /api/auth/me                  { password }  deletes the account and its projects
+ *   PUT    /api/auth/recovery-code       { password, recoveryCode }
+ *   POST   /api/auth/recover             { email, recoveryCode, newPassword }
+ *   GET    /api/projects                 createProject / getUserProjects
+ *   POST   /api/projects
+ *   GET    /api/projects/:id
+ *   PATCH  /api/projects/:id
+ *   DELETE /api/projects/:id
+ *   GET    /api/projects/:id/audits      getProjectAudits / saveAudit
+ *   POST   /api/projects/:id/audits
+ *   GET    /api/audits/:id
+ *   PATCH  /api/audits/:id               updateAuditNotes, triage, re-scoring
+ *   DELETE /api/audits/:id               deleteAudit
+ *
+ *   GET    /api/orgs                     organizations the user belongs to
+ *   POST   /api/orgs                     { name }
+ *   PATCH  /api/orgs/:id/members/:userId { role }
+ *   DELETE /api/orgs/:id/members/:userId
+ *   PUT    /api/projects/:id/organization         { orgId | null }
+ *   PATCH  /api/projects/:id/shares/:userId       { role }
+ *   DELETE /api/projects/:id/shares/:userId
+ *   GET    /api/(orgs|projects)/:id/invitations   pending invitations for a target
+ *   POST   /api/(orgs|projects)/:id/invitations   { email, role }
+ *   GET    /api/invitations              invitations addressed to the user
+ *   POST   /api/invitations/:id/accept
+ *   DELETE /api/invitations/:id          decline (invitee) or revoke (inviter)
+ */
+
+const PORT = Number(process.env.PORT || 8787);
+const DB_PATH = process.env.ECHO_AUDIT_DB || 'echo-audit.sqlite';
+const CORS_ORIGIN = process.env.ECHO_AUDIT_CORS_ORIGIN || '*';
+const MAX_BODY = 25 * 1024 * 1024; // Audits with many code snippets get large
+
+const db = openDatabase(DB_PATH);
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface RequestContext {
+  params: string[];
+  body: any;
+  user: PublicUser | null;
+  token: string | null;
+}
+
+type Handler = (ctx: RequestContext) => unknown;
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// ============= ACCESS CHECKS =============
+
+function requireUser(ctx: RequestContext): PublicUser {
+  if (!ctx.user) throw new HttpError(401, 'Not signed in');
+  return ctx.user;
+}
+
+function roleIn(ctx: RequestContext, project: Project): MemberRole | null {
+  return projectRole(project, requireUser(ctx).userId, project.orgId ? db.getOrganization(project.orgId) : null);
+}
+
+function permittedProject(ctx: RequestContext, projectId: string, permission: Permission): Project {
+  const project = db.getProject(projectId);
+  if (!project) throw new HttpError(404, 'Project not found');
+  if (!hasPermission(roleIn(ctx, project), permission)) throw new HttpError(403, 'Unauthorized');
+  return project;
+}
+
+function permittedAudit(ctx: RequestContext, auditId: string, permission: Permission | ((audit: AuditRecord) => Permission)): AuditRecord {
+  const audit = db.getAudit(auditId);
+  if (!audit) throw new HttpError(404, 'Audit not found');
+  permittedProject(ctx, audit.projectId, typeof permission === 'function' ? permission(audit) : permission);
+  return audit;
+}
+
+function memberOrganization(ctx: RequestContext, orgId: string): Organization {
+  const org = db.getOrganization(orgId);
+  if (!org || !orgRole(org, requireUser(ctx).userId)) throw new HttpError(404, 'Organization not found');
+  return org;
+}
+
+// Key order can differ between the stored copy and the client's, so compare canonically
+const canonical = (value: unknown) => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a < b ? -1 : 1)) : v);
+
+const withoutTriage = (report: AuditReport) => canonical({ ...report, violations: report.violations.map(({ triage, ...v }) => v) });
+
+// Developers may triage, which rewrites the report; anything beyond triage needs more
+function auditUpdatePermission(audit: AuditRecord, updates: Partial<AuditRecord>): Permission {
+  const keys = Object.keys(updates);
+  if (keys.every(key => key === 'notes')) return 'audit:notes';
+  if (keys.every(key => key === 'fullReport') && updates.fullReport?.violations
+    && withoutTriage(updates.fullReport) === withoutTriage(audit.fullReport)) return 'audit:triage';
+  return 'project:manage';
+}
+
+// Application errors from utils/permissions.ts become client errors
+function guarded<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (err) {
+    if (err instanceof HttpError) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new HttpError(message === 'Unauthorized' ? 403 : 400, message);
+  }
+}
+
+// Everything the audits table and the project's score need; the rest is stored as sent
+function isAuditUpload(body: any): body is AuditRecord {
+  return !!body
+    && typeof body.auditId === 'string' && body.auditId !== ''
+    && Number.isInteger(body.auditVersion) && body.auditVersion > 0
+    && typeof body.timestamp === 'string' && !Number.isNaN(Date.parse(body.timestamp))
+    && typeof body.accessibilityScore === 'number' && Number.isFinite(body.accessibilityScore)
+    && !!body.fullReport && typeof body.fullReport === 'object' && Array.isArray(body.fullReport.violations);
+}
+
+const isRole = (role: unknown): role is MemberRole => MEMBER_ROLES.some(r => r.value === role);
+
+function createInvitation(ctx: RequestContext, target: Invitation['target'], inviterRole: MemberRole | null): Invitation {
+  const user = requireUser(ctx);
+  const { email, role } = ctx.body || {};
+  if (typeof email !== 'string' || !email.includes('@')) throw new HttpError(400, 'A valid email is required');
+  if (!isRole(role)) throw new HttpError(400, 'Unknown role');
+  guarded(() => assertCanInvite(target, role, inviterRole));
+  return db.createInvitation({
+    inviteId: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    email: email.toLowerCase(),
+    role,
+    target,
+    invitedBy: { userId: user.userId, displayName: user.displayName },
+    createdAt: new Date().toISOString()
+  });
+}
+
+// ============= ROUTES =============
+
+const routes: [string, RegExp, Handler][] = [
+  ['POST', /^\/api\/auth\/signup$/, ({ body }) => {
+    const { email, password, displayName } = body || {};
+    if (typeof email !== 'string' || !email.includes('@')) throw new HttpError(400, 'A valid email is required');
+    if (typeof password !== 'string' || password.length < 8) throw new HttpError(400, 'Password must be at least 8 characters');
+    const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const user = db.createUser(userId, email, password, typeof displayName === 'string' ? displayName : email);
+    if (!user) throw new HttpError(409, 'An account with this email already exists');
+    return { user, token: db.createSession(user.userId) };
+  }],
+  ['POST', /^\/api\/auth\/login$/, ({ body }) => {
+    const user = db.authenticate(String(body?.email || ''), String(body?.password || ''));
+    if (!user) throw new HttpError(401, 'Invalid email or password');
+    return { user, token: db.createSession(user.userId) };
+  }],
+  ['POST', /^\/api\/auth\/logout$/, ({ token }) => {
+    if (token) db.deleteSession(token);
+    return { ok: true };
+  }],
+  ['POST', /^\/api\/auth\/password$/, (ctx) => {
+    const { currentPassword, newPassword } = ctx.body || {};
+    if (typeof newPassword !== 'string' || newPassword.length < 8) throw new HttpError(400, 'Password must be at least 8 characters');
+    if (!db.changePassword(requireUser(ctx).userId, String(currentPassword || ''), newPassword, ctx.token!)) {
+      throw new HttpError(403, 'Current password is incorrect');
+    }
+    return { ok: true };
+  }],
+  ['PATCH', /^\/api\/auth\/me$/, (ctx) => {
+    const user = requireUser(ctx);
+    const { email = user.email, displayName = user.displayName } = ctx.body || {};
+    if (typeof email !== 'string' || !email.includes('@')) throw new HttpError(400, 'A valid email is required');
+    if (typeof displayName !== 'string' || !displayName.trim()) throw new HttpError(400, 'A display name is required');
+    const updated = db.updateProfile(user.userId, { email, displayName: displayName.trim() });
+    if (!updated) throw new HttpError(409, 'An account with this email already exists');
+    return updated;
+  }],
+  ['DELETE', /^\/api\/auth\/me$/, (ctx) => {
+    const user = requireUser(ctx);
+    if (!db.checkPassword(user.userId, String(ctx.body?.password || ''))) throw new HttpError(403, 'Password is incorrect');
+    db.deleteUser(user, guarded(() => leaveOrganizations(db.listOrganizations(user.userId), user.userId)));
+    return { ok: true };
+  }],
+  ['PUT', /^\/api\/auth\/recovery-code$/, (ctx) => {
+    const user = requireUser(ctx);
+    const { password, recoveryCode } = ctx.body || {};
+    if (!db.checkPassword(user.userId, String(password || ''))) throw new HttpError(403, 'Password is incorrect');
+    if (typeof recoveryCode !== 'string' || recoveryCode.length < 16) throw new HttpError(400, 'Recovery code is too short');
+    db.setRecoveryCode(user.userId, recoveryCode);
+    return { ok: true };
+  }],
+  ['POST', /^\/api\/auth\/recover$/, ({ body }) => {
+    const { email, recoveryCode, newPassword } = body || {};
+    if (typeof newPassword !== 'string' || newPassword.length < 8) throw new HttpError(400, 'Password must be at least 8 characters');
+    const user = db.resetPassword(String(email || ''), String(recoveryCode || ''), newPassword);
+    if (!user) throw new HttpError(401, 'Invalid email or recovery code');
+    return { user, token: db.createSession(user.userId) };
+  }],
+
+  ['GET', /^\/api\/projects$/, (ctx) => db.listProjects(requireUser(ctx).userId)],
+  ['POST', /^\/api\/projects$/, (ctx) => {
+    const project = db.createProject(requireUser(ctx).userId, ctx.body || {});
+    if (!project) throw new HttpError(409, 'Project id already exists');
+    return project;
+  }],
+  ['GET', /^\/api\/projects\/([^/]+)$/, (ctx) => permittedProject(ctx, ctx.params[0], 'project:view')],
+  ['PATCH', /^\/api\/projects\/([^/]+)$/, (ctx) => db.updateProject(permittedProject(ctx, ctx.params[0], 'project:manage'), ctx.body || {})],
+  ['DELETE', /^\/api\/projects\/([^/]+)$/, (ctx) => {
+    db.deleteProject(permittedProject(ctx, ctx.params[0], 'project:delete').projectId);
+    return { ok: true };
+  }],
+
+  ['GET', /^\/api\/projects\/([^/]+)\/audits$/, (ctx) => db.listAudits(permittedProject(ctx, ctx.params[0], 'project:view').projectId)],
+  ['POST', /^\/api\/projects\/([^/]+)\/audits$/, (ctx) => {
+    const project = permittedProject(ctx, ctx.params[0], 'audit:create');
+    const audit = ctx.body;
+    if (!isAuditUpload(audit)) throw new HttpError(400, 'Body must be an audit record');
+    const saved = db.saveAudit(project, audit, requireUser(ctx).userId);
+    if (!saved) throw new HttpError(409, 'Audit id already exists');
+    return saved;
+  }],
+  ['GET', /^\/api\/audits\/([^/]+)$/, (ctx) => permittedAudit(ctx, ctx.params[0], 'project:view')],
+  ['PATCH', /^\/api\/audits\/([^/]+)$/, (ctx) => {
+    const updates = ctx.body || {};
+    return db.updateAudit(permittedAudit(ctx, ctx.params[0], audit => auditUpdatePermission(audit, updates)), updates);
+  }],
+  ['DELETE', /^\/api\/audits\/([^/]+)$/, (ctx) => {
+    db.deleteAudit(permittedAudit(ctx, ctx.params[0], 'audit:delete').auditId);
+    return { ok: true };
+  }],
+
+  ['GET', /^\/api\/orgs$/, (ctx) => db.listOrganizations(requireUser(ctx).userId)],
+  ['POST', /^\/api\/orgs$/, (ctx) => {
+    const user = requireUser(ctx);
+    const name = typeof ctx.body?.name === 'string' ? ctx.body.name.trim() : '';
+    if (!name) throw new HttpError(400, 'Organization name is required');
+    const now = new Date().toISOString();
+    return db.writeOrganization({
+      orgId: `org_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      createdAt: now,
+      createdBy: user.userId,
+      members: [{ userId: user.userId, email: user.email, displayName: user.displayName, role: 'owner', addedAt: now }]
+    });
+  }],
+  ['PATCH', /^\/api\/orgs\/([^/]+)\/members\/([^/]+)$/, (ctx) => {
+    if (!isRole(ctx.body?.role)) throw new HttpError(400, 'Unknown role');
+    const org = memberOrganization(ctx, ctx.params[0]);
+    return db.writeOrganization(guarded(() => changeOrgMember(org, requireUser(ctx).userId, ctx.params[1], ctx.body.role)));
+  }],
+  ['DELETE', /^\/api\/orgs\/([^/]+)\/members\/([^/]+)$/, (ctx) => {
+    const org = memberOrganization(ctx, ctx.params[0]);
+    return db.writeOrganization(guarded(() => changeOrgMember(org, requireUser(ctx).userId, ctx.params[1], null)));
+  }],
+
+  ['PUT', /^\/api\/projects\/([^/]+)\/organization$/, (ctx) => {
+    const project = permittedProject(ctx, ctx.params[0], 'project:share');
+    const orgId = ctx.body?.orgId ?? null;
+    // Projects only move into organizations the user owns
+    if (orgId !== null && orgRole(memberOrganization(ctx, orgId), requireUser(ctx).userId) !== 'owner') {
+      throw new HttpError(403, 'Unauthorized');
+    }
+    return db.updateProjectAccess(project, { orgId, shares: project.shares });
+  }],
+  ['PATCH', /^\/api\/projects\/([^/]+)\/shares\/([^/]+)$/, (ctx) => {
+    const project = permittedProject(ctx, ctx.params[0], 'project:share');
+    if (!isRole(ctx.body?.role) || ctx.body.role === 'owner') throw new HttpError(400, 'Unknown role');
+    if (!project.shares?.some(s => s.userId === ctx.params[1])) throw new HttpError(404, 'Share not found');
+    const shares = project.shares.map(s => s.userId === ctx.params[1] ? { ...s, role: ctx.body.role } : s);
+    return db.updateProjectAccess(project, { orgId: project.orgId, shares });
+  }],
+  ['DELETE', /^\/api\/projects\/([^/]+)\/shares\/([^/]+)$/, (ctx) => {
+    // Owners remove anyone; people with a share may leave
+    const leaving = ctx.params[1] === requireUser(ctx).userId;
+    const project = permittedProject(ctx, ctx.params[0], leaving ? 'project:view' : 'project:share');
+    const shares = (project.shares || []).filter(s => s.userId !== ctx.params[1]);
+    return db.updateProjectAccess(project, { orgId: project.orgId, shares });
+  }],
+
+  ['GET', /^\/api\/orgs\/([^/]+)\/invitations$/, (ctx) =>
+    db.listInvitations({ targetId: memberOrganization(ctx, ctx.params[0]).orgId })],
+  ['POST', /^\/api\/orgs\/([^/]+)\/invitations$/, (ctx) => {
+    const org = memberOrganization(ctx, ctx.params[0]);
+    return createInvitation(ctx, { type: 'organization', id: org.orgId, name: org.name }, orgRole(org, requireUser(ctx).userId));
+  }],
+  ['GET', /^\/api\/projects\/([^/]+)\/invitations$/, (ctx) =>
+    db.listInvitations({ targetId: permittedProject(ctx, ctx.params[0], 'project:view').projectId })],
+  ['POST', /^\/api\/projects\/([^/]+)\/invitations$/, (ctx) => {
+    const project = permittedProject(ctx, ctx.params[0], 'project:view');
+    return createInvitation(ctx, { type: 'project', id: project.projectId, name: project.projectName }, roleIn(ctx, project));
+  }],
+  ['GET', /^\/api\/invitations$/, (ctx) => db.listInvitations({ email: requireUser(ctx).email })],
+  ['POST', /^\/api\/invitations\/([^/]+)\/accept$/, (ctx) => {
+    const user = requireUser(ctx);
+    const invitation = db.getInvitation(ctx.params[0]);
+    if (!invitation || invitation.email !== user.email.toLowerCase()) throw new HttpError(404, 'Invitation not found');
+    return db.transaction(() => {
+      db.deleteInvitation(invitation.inviteId);
+      if (invitation.target.type === 'organization') {
+        const org = db.getOrganization(invitation.target.id);
+        if (!org) throw new HttpError(404, 'Organization no longer exists');
+        return { organization: db.writeOrganization(acceptIntoOrganization(org, invitation, user)) };
+      }
+      const project = db.getProject(invitation.target.id);
+      if (!project) throw new HttpError(404, 'Project no longer exists');
+      const { orgId, shares } = acceptIntoProject(project, invitation, user);
+      return { project: db.updateProjectAccess(project, { orgId, shares }) };
+    });
+  }],
+  ['DELETE', /^\/api\/invitations\/([^/]+)$/, (ctx) => {
+    const user = requireUser(ctx);
+    const invitation = db.getInvitation(ctx.params[0]);
+    if (!invitation) throw new HttpError(404, 'Invitation not found');
+    if (invitation.email !== user.email.toLowerCase() && invitation.invitedBy.userId !== user.userId) {
+      throw new HttpError(403, 'Unauthorized');
+    }
+    db.deleteInvitation(invitation.inviteId);
+    return { ok: true };
+  }]
+];
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const route = routes.find(([method, pattern]) => method === req.method && pattern.test(path));
+  if (!route) return send(res, 404, { error: 'Not found' });
+
+  try {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] || null;
+    const ctx: RequestContext = {
+      params: path.match(route[1])!.slice(1).map(decodeURIComponent),
+      body: await readBody(req),
+      user: token ? db.sessionUser(token) : null,
+      token
+    };
+    send(res, 200, route[2](ctx));
+  } catch (err) {
+    if (err instanceof HttpError) return send(res, err.status, { error: err.message });
+    console.error(err);
+    send(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Echo-Audit server listening on http://localhost:${PORT} (database: ${DB_PATH})`);
+});
@@ -0,0 +1,30 @@
+import { AuditEngine, AuditEngineId, Project } from '../types';
+import { geminiEngine } from './geminiService';
+import { localEngine } from './localEngine';
+
+const engines: Record<AuditEngineId, AuditEngine> = {
+  gemini: geminiEngine,
+  local: localEngine
+};
+
+export const AUDIT_ENGINES: AuditEngine[] = Object.values(engines);
+
+function isAuditEngineId(value: unknown): value is AuditEngineId {
+  return typeof value === 'string' && Object.hasOwn(engines, value);
+}
+
+// Per-project choice wins, then the AUDIT_ENGINE env config, then Gemini
+export function resolveAuditEngineId(project?: Pick<Project, 'auditEngine'>): AuditEngineId {
+  if (project?.auditEngine && isAuditEngineId(project.auditEngine)) {
+    return project.auditEngine;
+  }
+  const configured = process.env.AUDIT_ENGINE;
+  if (isAuditEngineId(configured)) {
+    return configured;
+  }
+  return 'gemini';
+}
+
+export function getAuditEngine(project?: Pick<Project, 'auditEngine'>): AuditEngine {
+  return engines[resolveAuditEngineId(project)];
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuditEngine, SourceFile } from '../types';
+import { ChunkProgress, planChunks, runChunkedAudit } from './chunkedAudit';
+
+const { getVideoDuration } = vi.hoisted(() => ({ getVideoDuration: vi.fn(async () => 120) }));
+
+vi.mock('../utils/videoProcessor', () => ({
+  getVideoDuration,
+  extractKeyFrames: async () => [{ timestamp: '00:00', data: '' }]
+}));
+
+const sourceFiles: SourceFile[] = [{ path: 'index.html', content: '<main></main>' }];
+
+describe('planChunks', () => {
+  it('splits a known duration into windows', () => {
+    const chunks = planChunks(70, 30);
+    expect(chunks.map(c => [c.start, c.end])).toEqual([[0, 30], [30, 60], [60, 70]]);
+  });
+
+  it.each([Infinity, NaN, 0])('rejects an unknown duration (%s) instead of guessing one', duration => {
+    expect(() => planChunks(duration, 30)).toThrow(/length of the recording/);
+  });
+});
+
+describe('runChunkedAudit', () => {
+  it('stops the other workers once a window fails', async () => {
+    let calls = 0;
+    const engine: AuditEngine = {
+      id: 'local',
+      label: 'Test',
+      analyze: async () => {
+        calls++;
+        if (calls === 1) throw new Error('quota exceeded');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return { violations: [] };
+      }
+    };
+    const updates: ChunkProgress[][] = [];
+
+    await expect(runChunkedAudit(new File([], 'recording.webm'), sourceFiles, engine, {
+      windowSeconds: 30,
+      concurrency: 2,
+      maxRetries: 0,
+      onProgress: chunks => updates.push(chunks)
+    })).rejects.toThrow('window 1 failed');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Four windows; at most the one already in flight still reaches the engine
+    expect(calls).toBeLessThanOrEqual(2);
+    expect(updates[updates.length - 1][0].status).toBe('failed');
+  });
+
+  it('fails before analyzing anything when the duration is unknown', async () => {
+    getVideoDuration.mockResolvedValueOnce(Infinity);
+    const engine: AuditEngine = { id: 'local', label: 'Test', analyze: vi.fn(async () => ({ violations: [] })) };
+
+    await expect(runChunkedAudit(new File([], 'recording.webm'), sourceFiles, engine)).rejects.toThrow(/length of the recording/);
+    expect(engine.analyze).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { AuditEngine, SourceFile, VideoFrame, Violation } from '../types';
+import { extractKeyFrames, getVideoDuration } from '../utils/videoProcessor';
+import { dedupeViolations } from '../utils/fingerprint';
+
+/**
+ * Splits long recordings into time windows, samples and analyzes each window as a
+ * separate engine pass (bounded concurrency, retry with backoff), then merges the
+ * per-window findings into a single de-duplicated violation list.
+ */
+
+export type ChunkStatus = 'pending' | 'extracting' | 'analyzing' | 'retrying' | 'done' | 'failed';
+
+export interface ChunkProgress {
+  index: number;
+  start: number; // seconds
+  end: number; // seconds
+  status: ChunkStatus;
+  attempts: number;
+  frames?: number;
+  violations?: number;
+  error?: string;
+}
+
+export interface ChunkedAuditOptions {
+  windowSeconds?: number;
+  framesPerWindow?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  onProgress?: (chunks: ChunkProgress[]) => void;
+}
+
+export interface ChunkedAuditResult {
+  violations: Violation[];
+  frames: VideoFrame[];
+  chunks: ChunkProgress[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A duration the browser could not determine (NaN, or Infinity for WebM recordings
+// it cannot seek through) fails the audit: any guess would leave part of it unaudited
+export function planChunks(duration: number, windowSeconds: number): ChunkProgress[] {
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error('Could not determine the length of the recording. Re-encode it (e.g. to MP4) and try again.');
+  }
+  const count = Math.ceil(duration / windowSeconds);
+  return Array.from({ length: count }, (_, index) => ({
+    index,
+    start: index * windowSeconds,
+    end: Math.min(duration, (index + 1) * windowSeconds),
+    status: 'pending' as ChunkStatus,
+    attempts: 0
+  }));
+}
+
+// The same issue usually reappears in every window it is visible in; fingerprint
+// de-duplication keeps the earliest sighting at the highest reported severity.
+export function mergeChunkViolations(perChunk: Violation[][]): Violation[] {
+  return dedupeViolations(perChunk.flat());
+}
+
+export async function runChunkedAudit(
+  videoFile: File,
+  sourceFiles: SourceFile[],
+  engine: AuditEngine,
+  options: ChunkedAuditOptions = {}
+): Promise<ChunkedAuditResult> {
+  const {
+    windowSeconds = 30,
+    framesPerWindow = 10,
+    concurrency = 2,
+    maxRetries = 2,
+    retryDelayMs = 2000,
+    onProgress
+  } = options;
+
+  const duration = await getVideoDuration(videoFile);
+  const chunks = planChunks(duration, windowSeconds);
+  const results: { frames: VideoFrame[]; violations: Violation[] }[] = [];
+
+  // Set when a window fails for good: the audit is lost, so the other workers stop
+  // taking windows, skip retries and drop late results instead of calling the engine
+  let aborted = false;
+
+  const update = (index: number, changes: Partial<ChunkProgress>) => {
+    if (aborted) return;
+    chunks[index] = { ...chunks[index], ...changes };
+    onProgress?.([...chunks]);
+  };
+
+  const fail = (index: number, error: string, message: string): never => {
+    update(index, { status: 'failed', error });
+    aborted = true;
+    throw new Error(message);
+  };
+  onProgress?.([...chunks]);
+
+  // Frame extraction drives a <video> element and is CPU bound; serialize it so
+  // concurrency only applies to the network-bound engine calls.
+  let extractionLock: Promise<unknown> = Promise.resolve();
+  const extract = (chunk: ChunkProgress) => {
+    const run = extractionLock.then(() =>
+      extractKeyFrames(videoFile, { startTime: chunk.start, endTime: chunk.end, maxFrames: framesPerWindow })
+    );
+    extractionLock = run.catch(() => undefined);
+    return run;
+  };
+
+  const processChunk = async (chunk: ChunkProgress) => {
+    update(chunk.index, { status: 'extracting' });
+    const frames = await extract(chunk);
+    // Analyzing nothing would report no findings and pass the window unseen
+    if (frames.length === 0) {
+      fail(chunk.index, 'No frames could be extracted', `No frames could be extracted from window ${chunk.index + 1}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      if (aborted) return;
+      update(chunk.index, { status: attempt === 1 ? 'analyzing' : 'retrying', attempts: attempt, frames: frames.length });
+      try {
+        const { violations } = await engine.analyze({ frames, sourceFiles });
+        if (aborted) return;
+        // Engines number findings per call; prefix ids so windows cannot collide, and
+        // record the engine so the finding is credited to it
+        const scoped = violations.map((v, i) => ({ ...v, id: `w${chunk.index + 1}-${v.id || i + 1}`, engine: engine.id }));
+        results[chunk.index] = { frames, violations: scoped };
+        update(chunk.index, { status: 'done', violations: scoped.length, error: undefined });
+        return;
+      } catch (err: any) {
+        if (attempt > maxRetries) {
+          fail(chunk.index, err.message || String(err), `Analysis of window ${chunk.index + 1} failed after ${attempt} attempts: ${err.message || err}`);
+        }
+        update(chunk.index, { error: err.message || String(err) });
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (!aborted && next < chunks.length) {
+      await processChunk(chunks[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return {
+    violations: mergeChunkViolations(results.map(r => r.violations)),
+    frames: results.flatMap(r => r.frames),
+    chunks
+  };
+}
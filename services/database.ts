@@ -0,0 +1,82 @@
+/**
+ * The app's IndexedDB database. Records are stored as structured clones, so
+ * reports are never JSON-serialized on the main thread.
+ *
+ *  users     keyPath userId,                 unique index email
+ *  projects  keyPath projectId
+ *  audits    keyPath auditId
+ *  frames    keyPath [auditId, timestamp],   index auditId
+ *  meta      out-of-line keys: lookup lists, session, migration markers
+ *
+ * Projects and audits are found through the lookup lists in meta, so they carry
+ * no indexes; version 1 created projectId/timestamp/userId indexes nothing read.
+ */
+
+const DB_NAME = 'echo-audit';
+const DB_VERSION = 2;
+
+export const STORES = {
+  users: 'users',
+  projects: 'projects',
+  audits: 'audits',
+  frames: 'frames',
+  meta: 'meta'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.users)) {
+          db.createObjectStore(STORES.users, { keyPath: 'userId' }).createIndex('email', 'email', { unique: true });
+        }
+        if (!db.objectStoreNames.contains(STORES.projects)) {
+          db.createObjectStore(STORES.projects, { keyPath: 'projectId' });
+        } else if (request.transaction!.objectStore(STORES.projects).indexNames.contains('userId')) {
+          request.transaction!.objectStore(STORES.projects).deleteIndex('userId');
+        }
+        if (!db.objectStoreNames.contains(STORES.audits)) {
+          db.createObjectStore(STORES.audits, { keyPath: 'auditId' });
+        } else {
+          const audits = request.transaction!.objectStore(STORES.audits);
+          for (const index of ['projectId', 'timestamp']) {
+            if (audits.indexNames.contains(index)) audits.deleteIndex(index);
+          }
+        }
+        if (!db.objectStoreNames.contains(STORES.frames)) {
+          db.createObjectStore(STORES.frames, { keyPath: ['auditId', 'timestamp'] }).createIndex('auditId', 'auditId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(STORES.meta)) {
+          db.createObjectStore(STORES.meta);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,126 @@
+import { VideoFrame } from '../types';
+import { STORES, openDatabase, promisify, transactionDone } from './database';
+
+/**
+ * IndexedDB blob store for frames extracted during an audit.
+ * Frames are keyed by [auditId, timestamp]; violations reference them through
+ * `frame_image_url` values of the form `idb-frame://<auditId>/<timestamp>`.
+ */
+
+const STORE = STORES.frames;
+const AUDIT_INDEX = 'auditId';
+
+export const FRAME_URL_PREFIX = 'idb-frame://';
+
+export interface StoredFrame {
+  auditId: string;
+  timestamp: string;
+  blob: Blob;
+}
+
+export function base64ToBlob(data: string, mimeType: string = 'image/jpeg'): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+function readBlobAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function frameUrl(auditId: string, timestamp: string): string {
+  return `${FRAME_URL_PREFIX}${auditId}/${encodeURIComponent(timestamp)}`;
+}
+
+export function parseFrameUrl(url: string): { auditId: string; timestamp: string } | null {
+  if (!url.startsWith(FRAME_URL_PREFIX)) return null;
+  const [auditId, timestamp] = url.slice(FRAME_URL_PREFIX.length).split('/');
+  if (!auditId || timestamp === undefined) return null;
+  return { auditId, timestamp: decodeURIComponent(timestamp) };
+}
+
+// ============= FRAME OPERATIONS =============
+
+export async function saveAuditFrames(auditId: string, frames: VideoFrame[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const frame of frames) {
+    const record: StoredFrame = { auditId, timestamp: frame.timestamp, blob: base64ToBlob(frame.data) };
+    store.put(record);
+  }
+  await transactionDone(tx);
+}
+
+export async function getFrameBlob(auditId: string, timestamp: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const record = await promisify<StoredFrame | undefined>(
+    db.transaction(STORE, 'readonly').objectStore(STORE).get([auditId, timestamp])
+  );
+  return record ? record.blob : null;
+}
+
+export async function getAuditFrames(auditId: string): Promise<StoredFrame[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(AUDIT_INDEX);
+  return promisify<StoredFrame[]>(index.getAll(auditId));
+}
+
+export async function deleteAuditFrames(auditId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const request = tx.objectStore(STORE).index(AUDIT_INDEX).openCursor(IDBKeyRange.only(auditId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await transactionDone(tx);
+}
+
+// Resolves any frame_image_url to something an <img> can display. Callers must
+// revoke the returned object URL when `revoke` is true.
+export async function resolveFrameUrl(url: string): Promise<{ src: string; revoke: boolean } | null> {
+  const ref = parseFrameUrl(url);
+  if (!ref) return { src: url, revoke: false };
+
+  try {
+    const blob = await getFrameBlob(ref.auditId, ref.timestamp);
+    return blob ? { src: URL.createObjectURL(blob), revoke: true } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Inlines a frame as a data: URL for documents that must not depend on this browser's storage
+export async function getFrameDataUrl(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return url;
+  const ref = parseFrameUrl(url);
+  if (!ref) return null;
+
+  try {
+    const blob = await getFrameBlob(ref.auditId, ref.timestamp);
+    return blob ? await readBlobAsDataUrl(blob) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Frames of an audit as base64, the inverse of saveAuditFrames (used by workspace backups)
+export async function exportAuditFrames(auditId: string): Promise<VideoFrame[]> {
+  const stored = await getAuditFrames(auditId);
+  const frames: VideoFrame[] = [];
+  for (const frame of stored) {
+    const dataUrl = await readBlobAsDataUrl(frame.blob);
+    frames.push({ timestamp: frame.timestamp, data: dataUrl.slice(dataUrl.indexOf(',') + 1) });
+  }
+  return frames;
+}
@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Violation } from '../types';
+import { AuditEngine, AuditInput, Violation } from '../types';
 
 // Strict schema for violations only (no score/summary, calculated client-side)
 const violationListSchema: Schema = {
@@ -20,7 +20,16 @@ const violationListSchema: Schema = {
             properties: {
               frame_timestamp: { type: Type.STRING },
               description: { type: Type.STRING },
-              frame_image_url: { type: Type.STRING }
+              frame_image_url: { type: Type.STRING },
+              bounding_box: {
+                type: Type.OBJECT,
+                properties: {
+                  x: { type: Type.INTEGER },
+                  y: { type: Type.INTEGER },
+                  width: { type: Type.INTEGER },
+                  height: { type: Type.INTEGER },
+                }
+              }
             }
           },
           code_evidence: {
@@ -48,7 +57,7 @@ const violationListSchema: Schema = {
   required: ["violations"]
 };
 
-export const runAudit = async (frames: { timestamp: string, data: string }[], codeContent: string): Promise<{ violations: Violation[] }> => {
+const analyzeWithGemini = async ({ frames, sourceFiles }: AuditInput): Promise<{ violations: Violation[] }> => {
   if (!process.env.API_KEY) {
     throw new Error("API Key is missing. Please set REACT_APP_GEMINI_API_KEY.");
   }
@@ -58,13 +67,18 @@ export const runAudit = async (frames: { timestamp: string, data: string }[], co
 
   const parts: any[] = [];
   
+  const codeContent = sourceFiles
+    .map(file => `// FILE: ${file.path}\n${file.content}`)
+    .join('\n\n');
+
   parts.push({
     text: `SOURCE CODE CONTEXT:\n${codeContent}\n\n`
   });
 
   frames.forEach(frame => {
+    const reason = frame.reason === 'scene-change' ? ' (new UI state)' : '';
     parts.push({
-        text: `Frame at timestamp ${frame.timestamp}:`
+        text: `Frame at timestamp ${frame.timestamp}${reason}:`
     });
     parts.push({
       inlineData: {
@@ -88,7 +102,8 @@ export const runAudit = async (frames: { timestamp: string, data: string }[], co
     - "low": Best practice violation.
 
     Analyze contrast, touch targets, focus indicators, semantic HTML, ARIA roles, and alt text.
-    Correlate visual evidence with code evidence.
+    For contrast issues, include visual_evidence.bounding_box (pixel coordinates in the referenced frame) tightly around the affected text or component so the ratio can be measured.
+    Correlate visual evidence with code evidence. Use the path from the "// FILE:" header as code_evidence.file.
   `;
 
   parts.push({ text: prompt });
@@ -113,4 +128,10 @@ export const runAudit = async (frames: { timestamp: string, data: string }[], co
   if (!text) throw new Error("No response from Gemini");
 
   return JSON.parse(text) as { violations: Violation[] };
-};
\ No newline at end of file
+};
+
+export const geminiEngine: AuditEngine = {
+  id: 'gemini',
+  label: 'Gemini 3.0 Pro',
+  analyze: analyzeWithGemini
+};
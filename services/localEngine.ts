@@ -0,0 +1,54 @@
+import { AuditEngine, AuditInput, Violation } from '../types';
+
+// Recorded engine responses. Each fixture is a saved `{ violations }` payload,
+// optionally pinned to a SHA-256 hash of the uploaded source files.
+interface AuditFixture {
+  name: string;
+  description?: string;
+  sourceHash?: string;
+  violations: Violation[];
+}
+
+const fixtureModules = import.meta.glob<AuditFixture>('../fixtures/audit-responses/*.json', {
+  eager: true,
+  import: 'default'
+});
+
+const fixtures: AuditFixture[] = Object.keys(fixtureModules)
+  .sort()
+  .map(path => fixtureModules[path]);
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Hash is taken over path + content so that renaming a file selects a different fixture
+export async function hashSourceFiles(input: AuditInput): Promise<string> {
+  const canonical = [...input.sourceFiles]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(file => `${file.path}\n${file.content}`)
+    .join('\n\0\n');
+  return sha256Hex(canonical);
+}
+
+const analyzeWithFixtures = async (input: AuditInput): Promise<{ violations: Violation[] }> => {
+  const sourceHash = await hashSourceFiles(input);
+
+  const fixture =
+    fixtures.find(f => f.sourceHash === sourceHash) ||
+    fixtures.find(f => f.name === 'default');
+
+  if (!fixture) {
+    throw new Error(`No recorded fixture matches source hash ${sourceHash}`);
+  }
+
+  // Deep copy so callers can mutate violations without corrupting the fixture
+  return { violations: JSON.parse(JSON.stringify(fixture.violations)) };
+};
+
+export const localEngine: AuditEngine = {
+  id: 'local',
+  label: 'Local Fixtures (offline)',
+  analyze: analyzeWithFixtures
+};
@@ -1,18 +1,31 @@
-import { User, Project, AuditRecord, AuditReport } from '../types';
-import { generateAuditReport } from '../utils/scoring';
+import { User, Project, AuditRecord, AuditReport, AuditEngineId, VideoFrame, Violation, ViolationTriage, TriageComment, SuppressionMatch, SuppressionRule, ScoringProfile, AcrConformance, AcrRowOverride, ImportSource, WorkspaceBackup, BackupFrame, BackupImportSummary, SyncStatus, PasswordHashParams, Organization, MemberRole, ShareRole, Invitation } from '../types';
+import { activeScoringProfile, generateAuditReport, profileRef, rescoreReport } from '../utils/scoring';
+import { findFrameForTimestamp } from '../utils/videoProcessor';
+import { dedupeViolations, withFingerprint } from '../utils/fingerprint';
+import { applySuppressions } from '../utils/suppression';
+import { normalizeViolationCriterion } from '../utils/wcagCatalogue';
+import {
+  Permission, acceptIntoOrganization, acceptIntoProject, assertCanInvite, assertPermission, changeOrgMember, leaveOrganizations, orgRole,
+  projectRole, withMemberProfile, withShareProfile
+} from '../utils/permissions';
+import { ExistingWorkspace, BACKUP_FORMAT, BACKUP_VERSION, planWorkspaceImport } from '../utils/workspaceBackup';
+import { getStorageBackend } from './storageBackend';
+import { saveAuditFrames, deleteAuditFrames, exportAuditFrames, frameUrl, parseFrameUrl } from './frameStore';
+import { RemoteRequestError, RemoteSession, RemoteUnavailableError, SyncOperation, getRemoteToken, isRemoteEnabled, remote, sendOperation, setRemoteToken } from './syncClient';
 
-// Polyfill for the requested window.storage API behavior using localStorage
+// Key/value facade over the active backend (IndexedDB, or localStorage where it is unavailable).
+// Values are stored as structured data, not JSON strings.
 const storageAPI = {
-  get: async (key: string, _bg: boolean) => {
-    const val = localStorage.getItem(key);
-    if (val === null) throw new Error("Not found");
-    return { value: val };
+  get: async (key: string, _bg: boolean): Promise<{ value: any }> => {
+    const value = await (await getStorageBackend()).get(key);
+    if (value === undefined) throw new Error("Not found");
+    return { value };
   },
-  set: async (key: string, value: string, _bg: boolean) => {
-    localStorage.setItem(key, value);
+  set: async (key: string, value: unknown, _bg: boolean) => {
+    await (await getStorageBackend()).set(key, value);
   },
   delete: async (key: string, _bg: boolean) => {
-    localStorage.removeItem(key);
+    await (await getStorageBackend()).delete(key);
   }
 };
 
@@ -24,6 +37,25 @@ const MAX_LOGIN_ATTEMPTS = 5;
 const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
 const SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
 
+// Password and recovery code attempts share the lockout
+function checkLoginAttempts(emailLower: string): void {
+  const attempts = loginAttempts.get(emailLower);
+  if (attempts && attempts.count >= MAX_LOGIN_ATTEMPTS) {
+    const timeSinceLast = Date.now() - attempts.lastAttempt;
+    if (timeSinceLast < LOCKOUT_DURATION) {
+      const minutesLeft = Math.ceil((LOCKOUT_DURATION - timeSinceLast) / 60000);
+      throw new Error(`Too many login attempts. Please try again in ${minutesLeft} minutes.`);
+    }
+    // Reset after lockout period
+    loginAttempts.delete(emailLower);
+  }
+}
+
+function recordFailedLogin(emailLower: string): void {
+  const current = loginAttempts.get(emailLower) || { count: 0, lastAttempt: 0 };
+  loginAttempts.set(emailLower, { count: current.count + 1, lastAttempt: Date.now() });
+}
+
 // Input sanitization to prevent XSS
 function sanitizeInput(input: string): string {
   return input
@@ -43,15 +75,29 @@ function generateCSRFToken(): string {
 
 // ============= USER AUTHENTICATION =============
 
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  
-  // Use PBKDF2 with 100,000 iterations for better security
-  const salt = encoder.encode('echo-audit-salt-v1'); // In production, use random salt per user
+// Accounts created before per-user salts; verified with these and rehashed at next login
+const LEGACY_HASH_PARAMS: PasswordHashParams = {
+  version: 1,
+  algorithm: 'PBKDF2-SHA256',
+  iterations: 100000,
+  salt: toHex(new TextEncoder().encode('echo-audit-salt-v1'))
+};
+const HASH_VERSION = 2;
+const HASH_ITERATIONS = 600000;
+const MIN_PASSWORD_LENGTH = 8;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+}
+
+async function derivePasswordHash(password: string, params: PasswordHashParams): Promise<string> {
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    data,
+    new TextEncoder().encode(password),
     'PBKDF2',
     false,
     ['deriveBits']
@@ -60,19 +106,47 @@ async function hashPassword(password: string): Promise<string> {
   const derivedBits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
+      salt: fromHex(params.salt),
+      iterations: params.iterations,
       hash: 'SHA-256'
     },
     keyMaterial,
     256
   );
   
-  const hashArray = Array.from(new Uint8Array(derivedBits));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  return toHex(new Uint8Array(derivedBits));
+}
+
+async function createPasswordHash(password: string): Promise<{ passwordHash: string; passwordHashParams: PasswordHashParams }> {
+  const salt = new Uint8Array(16);
+  crypto.getRandomValues(salt);
+  const passwordHashParams: PasswordHashParams = {
+    version: HASH_VERSION,
+    algorithm: 'PBKDF2-SHA256',
+    iterations: HASH_ITERATIONS,
+    salt: toHex(salt)
+  };
+  return { passwordHash: await derivePasswordHash(password, passwordHashParams), passwordHashParams };
+}
+
+async function verifyPassword(password: string, user: User): Promise<boolean> {
+  const hash = await derivePasswordHash(password, user.passwordHashParams || LEGACY_HASH_PARAMS);
+  return hash === user.passwordHash;
+}
+
+function needsRehash(user: User): boolean {
+  const params = user.passwordHashParams;
+  return !params || params.version < HASH_VERSION || params.iterations < HASH_ITERATIONS;
+}
+
+function assertPasswordStrength(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
 }
 
 export async function createUser(email: string, password: string, displayName: string): Promise<User> {
+  assertPasswordStrength(password);
   const emailKey = `user_email:${email.toLowerCase()}`;
   
   try {
@@ -82,39 +156,58 @@ export async function createUser(email: string, password: string, displayName: s
     // Email doesn't exist, proceed
   }
   
-  const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const passwordHash = await hashPassword(password);
-  
+  let userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  let remoteSession: RemoteSession | undefined;
+  if (isRemoteEnabled()) {
+    try {
+      remoteSession = await remote.signup(email.toLowerCase(), password, displayName);
+    } catch (error) {
+      if (error instanceof RemoteUnavailableError) throw new Error('The sync server is unreachable. Creating an account needs a connection.');
+      throw error;
+    }
+    userId = remoteSession.user.userId;
+  }
   const user: User = {
     userId,
     email: email.toLowerCase(),
-    passwordHash,
+    ...await createPasswordHash(password),
     displayName: sanitizeInput(displayName),
     createdAt: new Date().toISOString(),
     lastLoginAt: new Date().toISOString()
   };
   
-  await storageAPI.set(`user:${userId}`, JSON.stringify(user), false);
+  await storageAPI.set(`user:${userId}`, user, false);
   await storageAPI.set(emailKey, userId, false);
+  setRemoteToken(remoteSession?.token);
   
   return user;
 }
 
+// Keeps a local copy of a server account so the same credentials work offline
+async function cacheRemoteUser({ user }: RemoteSession, password: string): Promise<void> {
+  const existing: User | undefined = await storageAPI.get(`user:${user.userId}`, false).then(r => r.value, () => undefined);
+  const hash = existing && !needsRehash(existing) && await verifyPassword(password, existing)
+    ? { passwordHash: existing.passwordHash, passwordHashParams: existing.passwordHashParams }
+    : await createPasswordHash(password);
+  await storageAPI.set(`user:${user.userId}`, { ...existing, ...user, ...hash }, false);
+  await storageAPI.set(`user_email:${user.email}`, user.userId, false);
+}
+
 export async function loginUser(email: string, password: string): Promise<User> {
   const emailLower = email.toLowerCase();
-  const now = Date.now();
-  
-  // Check rate limiting
-  const attempts = loginAttempts.get(emailLower);
-  if (attempts) {
-    if (attempts.count >= MAX_LOGIN_ATTEMPTS) {
-      const timeSinceLast = now - attempts.lastAttempt;
-      if (timeSinceLast < LOCKOUT_DURATION) {
-        const minutesLeft = Math.ceil((LOCKOUT_DURATION - timeSinceLast) / 60000);
-        throw new Error(`Too many login attempts. Please try again in ${minutesLeft} minutes.`);
-      } else {
-        // Reset after lockout period
-        loginAttempts.delete(emailLower);
+  checkLoginAttempts(emailLower);
+
+  // The server checks the password when reachable; offline, the copy cached at the
+  // last online sign-in is used and changes queue until the next one
+  if (isRemoteEnabled()) {
+    try {
+      const session = await remote.login(emailLower, password);
+      await cacheRemoteUser(session, password);
+      setRemoteToken(session.token);
+    } catch (error) {
+      if (!(error instanceof RemoteUnavailableError)) {
+        recordFailedLogin(emailLower);
+        throw new Error('Invalid email or password');
       }
     }
   }
@@ -130,25 +223,26 @@ export async function loginUser(email: string, password: string): Promise<User>
       throw new Error('Invalid email or password');
     }
     
-    const user: User = JSON.parse(userResult.value);
-    const passwordHash = await hashPassword(password);
+    let user: User = userResult.value;
     
-    if (passwordHash !== user.passwordHash) {
+    if (!await verifyPassword(password, user)) {
        throw new Error('Invalid email or password');
     }
     
     // Successful login - reset attempts
     loginAttempts.delete(emailLower);
     
+    // The password is only known here, so outdated hashes are upgraded at sign-in
+    if (needsRehash(user)) {
+      user = { ...user, ...await createPasswordHash(password) };
+    }
     user.lastLoginAt = new Date().toISOString();
-    await storageAPI.set(`user:${userId}`, JSON.stringify(user), false);
+    await storageAPI.set(`user:${userId}`, user, false);
     
     return user;
 
   } catch (error: any) {
-    // Track failed attempt
-    const current = loginAttempts.get(emailLower) || { count: 0, lastAttempt: 0 };
-    loginAttempts.set(emailLower, { count: current.count + 1, lastAttempt: now });
+    recordFailedLogin(emailLower);
     throw new Error('Invalid email or password');
   }
 }
@@ -163,12 +257,13 @@ export async function getCurrentUser(): Promise<User | null> {
     let sessionData: any = null;
 
     try {
-        sessionData = JSON.parse(sessionResult.value);
+        sessionData = sessionResult.value;
         if (typeof sessionData === 'string') {
              // Legacy fallback
              userId = sessionData;
         } else {
              userId = sessionData.userId;
+             setRemoteToken(sessionData.remoteToken);
              // Check if session has expired
              const timeSinceActivity = Date.now() - (sessionData.lastActivity || 0);
              if (timeSinceActivity > SESSION_TIMEOUT) {
@@ -186,7 +281,8 @@ export async function getCurrentUser(): Promise<User | null> {
     const userResult = await storageAPI.get(`user:${userId}`, false);
     
     if (!userResult) return null;
-    return JSON.parse(userResult.value);
+    syncUserId = userId;
+    return userResult.value;
   } catch {
     return null;
   }
@@ -196,22 +292,142 @@ export async function setCurrentUser(userId: string): Promise<void> {
   const sessionData = {
     userId,
     lastActivity: Date.now(),
-    csrfToken: generateCSRFToken()
+    csrfToken: generateCSRFToken(),
+    remoteToken: getRemoteToken()
   };
-  await storageAPI.set('current_session', JSON.stringify(sessionData), false);
+  syncUserId = userId;
+  await storageAPI.set('current_session', sessionData, false);
 }
 
 export async function logout(): Promise<void> {
+  if (getRemoteToken()) await remote.logout().catch(() => undefined);
+  setRemoteToken(undefined);
+  syncUserId = undefined;
   await storageAPI.delete('current_session', false);
 }
 
+// ============= REMOTE SYNC =============
+
+// Owner of the signed-in session; queued changes are kept per user
+let syncUserId: string | undefined;
+let lastSyncedAt: string | undefined;
+let flushing: Promise<boolean> | null = null;
+
+const outboxKey = (userId: string) => `sync_outbox:${userId}`;
+
+async function readOutbox(userId: string): Promise<SyncOperation[]> {
+  return storageAPI.get(outboxKey(userId), false).then(r => r.value, () => []);
+}
+
+// Offline, or signed in without a server session (an offline sign-in)
+const isOffline = (error: unknown) =>
+  error instanceof RemoteUnavailableError || (error instanceof RemoteRequestError && error.status === 401);
+
+async function cacheRemoteProject(project: Project): Promise<Project> {
+  const cached = { ...project, syncedAt: new Date().toISOString() };
+  await storageAPI.set(`project:${project.projectId}`, cached, false);
+  return cached;
+}
+
+async function cacheRemoteAudit(audit: AuditRecord): Promise<AuditRecord> {
+  const cached = { ...audit, syncedAt: new Date().toISOString() };
+  await storageAPI.set(`audit:${audit.auditId}`, cached, false);
+  return cached;
+}
+
+// The server's copy replaces the local one: it may have renumbered an audit saved concurrently elsewhere
+async function applyRemoteResult(operation: SyncOperation, result: unknown): Promise<unknown> {
+  if (operation.op === 'createProject' || operation.op === 'updateProject') return cacheRemoteProject(result as Project);
+  if (operation.op === 'saveAudit' || operation.op === 'updateAudit') return cacheRemoteAudit(result as AuditRecord);
+  return result;
+}
+
+// Replays queued changes in order, stopping while the server is unreachable. Changes
+// it rejects (e.g. for a project deleted on another device) are dropped, not retried.
+async function flushOutbox(userId: string): Promise<boolean> {
+  const queue = await readOutbox(userId);
+  let sent = 0;
+  try {
+    for (const operation of queue) {
+      try {
+        await applyRemoteResult(operation, await sendOperation(operation));
+      } catch (error) {
+        if (isOffline(error) || !(error instanceof RemoteRequestError)) throw error;
+        console.warn(`Sync server rejected a queued ${operation.op}: ${error.message}`);
+      }
+      sent++;
+    }
+  } catch (error) {
+    if (!isOffline(error)) throw error;
+  } finally {
+    if (sent > 0) {
+      // Changes queued while flushing stay behind the unsent ones
+      const current = await readOutbox(userId);
+      await storageAPI.set(outboxKey(userId), current.slice(sent), false);
+    }
+  }
+  if (sent === queue.length) lastSyncedAt = new Date().toISOString();
+  return sent === queue.length;
+}
+
+// Sends queued changes now; resolves false while some are still waiting for the server
+export async function syncNow(): Promise<boolean> {
+  const userId = syncUserId;
+  if (!isRemoteEnabled() || !userId || !getRemoteToken()) return false;
+  if (!flushing) flushing = flushOutbox(userId).finally(() => { flushing = null; });
+  return flushing;
+}
+
+export async function getSyncStatus(): Promise<SyncStatus> {
+  return {
+    enabled: isRemoteEnabled(),
+    signedIn: !!getRemoteToken(),
+    pending: syncUserId ? (await readOutbox(syncUserId)).length : 0,
+    lastSyncedAt
+  };
+}
+
+// Sends a change made locally to the server, or queues it while the server can't be
+// reached. Returns the server's copy, or undefined when the change stays local for now.
+async function pushRemote<T>(operation: SyncOperation): Promise<T | undefined> {
+  const userId = syncUserId;
+  if (!isRemoteEnabled() || !userId) return undefined;
+  if (await syncNow()) {
+    try {
+      return (await applyRemoteResult(operation, await sendOperation(operation))) as T;
+    } catch (error) {
+      if (!isOffline(error)) {
+        // The local change stands; the server keeps its own copy
+        console.warn(`Sync server rejected ${operation.op}`, error);
+        return undefined;
+      }
+    }
+  }
+  await storageAPI.set(outboxKey(userId), [...await readOutbox(userId), operation], false);
+  return undefined;
+}
+
+// Fetches from the server once queued changes are through; undefined means use local data
+async function pullRemote<T>(request: () => Promise<T>): Promise<T | undefined> {
+  if (!(await syncNow())) return undefined;
+  try {
+    const result = await request();
+    lastSyncedAt = new Date().toISOString();
+    return result;
+  } catch (error) {
+    if (!(error instanceof RemoteUnavailableError || error instanceof RemoteRequestError)) throw error;
+    return undefined;
+  }
+}
+
 // ============= PROJECT MANAGEMENT =============
 
 export async function createProject(
   userId: string, 
   projectName: string, 
   websiteUrl?: string, 
-  description?: string
+  description?: string,
+  auditEngine?: AuditEngineId
 ): Promise<Project> {
   const projectId = `proj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
@@ -224,53 +440,70 @@ export async function createProject(
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     auditCount: 0,
-    latestScore: 0
+    latestScore: 0,
+    auditEngine
   };
   
-  await storageAPI.set(`project:${projectId}`, JSON.stringify(project), false);
+  await storageAPI.set(`project:${projectId}`, project, false);
   
   const userProjectsKey = `user_projects:${userId}`;
   try {
     const existing = await storageAPI.get(userProjectsKey, false);
-    const projectIds = JSON.parse(existing.value);
+    const projectIds = existing.value;
     projectIds.push(projectId);
-    await storageAPI.set(userProjectsKey, JSON.stringify(projectIds), false);
+    await storageAPI.set(userProjectsKey, projectIds, false);
   } catch {
-    await storageAPI.set(userProjectsKey, JSON.stringify([projectId]), false);
+    await storageAPI.set(userProjectsKey, [projectId], false);
   }
   
-  return project;
+  return (await pushRemote<Project>({ op: 'createProject', project })) || project;
+}
+
+// The server's list replaces synced projects. Projects that never reached it stay;
+// synced ones it no longer has were deleted on another device.
+async function mergeRemoteProjects(userId: string, projects: Project[]): Promise<void> {
+  const userProjectsKey = `user_projects:${userId}`;
+  const localIds: string[] = await storageAPI.get(userProjectsKey, false).then(r => r.value, () => []);
+  const remoteIds = new Set(projects.map(p => p.projectId));
+  const localOnly: string[] = [];
+  for (const projectId of localIds) {
+    if (remoteIds.has(projectId)) continue;
+    const local = await getProject(projectId);
+    if (local?.syncedAt) await removeLocalProject(projectId, userId);
+    else if (local) localOnly.push(projectId);
+  }
+  for (const project of projects) await cacheRemoteProject(project);
+  await storageAPI.set(userProjectsKey, [...remoteIds, ...localOnly], false);
 }
 
 export async function getUserProjects(userId: string): Promise<Project[]> {
   const userProjectsKey = `user_projects:${userId}`;
+  const remoteProjects = await pullRemote(() => remote.listProjects());
+  if (remoteProjects) await mergeRemoteProjects(userId, remoteProjects);
   
-  try {
-    const result = await storageAPI.get(userProjectsKey, false);
-    const projectIds: string[] = JSON.parse(result.value);
-    const projects: Project[] = [];
-    
-    for (const projectId of projectIds) {
-      try {
-        const projectResult = await storageAPI.get(`project:${projectId}`, false);
-        projects.push(JSON.parse(projectResult.value));
-      } catch {
-        // Skip missing projects
-      }
-    }
-    
-    return projects.sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
-  } catch {
-    return [];
+  // Owned, shared directly, and the projects of the user's organizations
+  const orgs = new Map((await getUserOrganizations(userId)).map(org => [org.orgId, org]));
+  const projectIds = new Set([...await readList(userProjectsKey), ...await readList(`user_shared_projects:${userId}`)]);
+  for (const orgId of orgs.keys()) {
+    for (const projectId of await readList(`org_projects:${orgId}`)) projectIds.add(projectId);
+  }
+  
+  const projects: Project[] = [];
+  for (const projectId of projectIds) {
+    const project = await getProject(projectId);
+    // Skips missing projects and access that has since been removed
+    if (project && projectRole(project, userId, project.orgId ? orgs.get(project.orgId) : null)) projects.push(project);
   }
+  
+  return projects.sort((a, b) => 
+    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
 }
 
 export async function getProject(projectId: string): Promise<Project | null> {
   try {
     const result = await storageAPI.get(`project:${projectId}`, false);
-    return JSON.parse(result.value);
+    return result.value;
   } catch {
     return null;
   }
@@ -292,13 +525,34 @@ export async function updateProject(projectId: string, updates: Partial<Project>
     updatedAt: new Date().toISOString()
   };
   
-  await storageAPI.set(`project:${projectId}`, JSON.stringify(updatedProject), false);
+  await storageAPI.set(`project:${projectId}`, updatedProject, false);
+  
+  // Audit counters are maintained by the server as audits reach it; null clears a field there
+  const syncedUpdates = Object.fromEntries(
+    Object.entries(sanitizedUpdates)
+      .filter(([key]) => !SERVER_PROJECT_FIELDS.includes(key as keyof Project))
+      .map(([key, value]) => [key, value === undefined ? null : value])
+  );
+  if (Object.keys(syncedUpdates).length > 0) {
+    await pushRemote({ op: 'updateProject', projectId, updates: syncedUpdates });
+  }
 }
 
+const SERVER_PROJECT_FIELDS: (keyof Project)[] = ['auditCount', 'latestScore', 'syncedAt'];
+
 export async function deleteProject(projectId: string, userId: string): Promise<void> {
-  const audits = await getProjectAudits(projectId);
+  await requireProjectPermission(projectId, userId, 'project:delete');
+  await removeLocalProject(projectId, userId);
+  await pushRemote({ op: 'deleteProject', projectId });
+}
+
+async function removeLocalProject(projectId: string, userId: string): Promise<void> {
+  const project = await getProject(projectId);
+  if (project?.orgId) await removeFromList(`org_projects:${project.orgId}`, projectId);
+  const audits = await readLocalAudits(projectId);
   for (const audit of audits) {
     await storageAPI.delete(`audit:${audit.auditId}`, false);
+    await deleteAuditFrames(audit.auditId).catch(() => undefined);
   }
   
   await storageAPI.delete(`project_audits:${projectId}`, false);
@@ -307,30 +561,259 @@ export async function deleteProject(projectId: string, userId: string): Promise<
   const userProjectsKey = `user_projects:${userId}`;
   try {
     const result = await storageAPI.get(userProjectsKey, false);
-    const projectIds: string[] = JSON.parse(result.value);
+    const projectIds: string[] = result.value;
     const filtered = projectIds.filter(id => id !== projectId);
-    await storageAPI.set(userProjectsKey, JSON.stringify(filtered), false);
+    await storageAPI.set(userProjectsKey, filtered, false);
   } catch {
       // Ignore if key not found
   }
 }
 
+// ============= SUPPRESSION RULES =============
+
+export async function addSuppressionRule(
+  projectId: string,
+  userId: string,
+  match: SuppressionMatch,
+  justification: string,
+  expiresAt?: string
+): Promise<SuppressionRule> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  if (!justification.trim()) throw new Error('A justification is required to suppress a finding');
+  
+  const rule: SuppressionRule = {
+    ruleId: `sup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    match,
+    justification: sanitizeInput(justification.trim()),
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+    expiresAt: expiresAt || undefined
+  };
+  
+  await updateProject(projectId, { suppressionRules: [...(project.suppressionRules || []), rule] });
+  return rule;
+}
+
+export async function deleteSuppressionRule(projectId: string, userId: string, ruleId: string): Promise<void> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  
+  await updateProject(projectId, {
+    suppressionRules: (project.suppressionRules || []).filter(r => r.ruleId !== ruleId)
+  });
+}
+
+// ============= SCORING PROFILES =============
+
+export async function saveScoringProfile(
+  projectId: string,
+  userId: string,
+  profile: Omit<ScoringProfile, 'profileId' | 'version' | 'updatedAt'> & { profileId?: string }
+): Promise<ScoringProfile> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  if (!profile.name.trim()) throw new Error('Profile name is required');
+  if (profile.diminishingFactor < 0 || profile.diminishingFactor > 1) {
+    throw new Error('Diminishing factor must be between 0 and 1');
+  }
+  
+  const profiles = project.scoringProfiles || [];
+  const existing = profiles.find(p => p.profileId === profile.profileId);
+  const saved: ScoringProfile = {
+    ...profile,
+    profileId: existing ? existing.profileId : `score_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: sanitizeInput(profile.name.trim()),
+    version: existing ? existing.version + 1 : 1,
+    updatedAt: new Date().toISOString()
+  };
+  
+  await updateProject(projectId, {
+    scoringProfiles: existing
+      ? profiles.map(p => p.profileId === saved.profileId ? saved : p)
+      : [...profiles, saved]
+  });
+  return saved;
+}
+
+export async function deleteScoringProfile(projectId: string, userId: string, profileId: string): Promise<void> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  
+  await updateProject(projectId, {
+    scoringProfiles: (project.scoringProfiles || []).filter(p => p.profileId !== profileId),
+    activeScoringProfileId: project.activeScoringProfileId === profileId ? undefined : project.activeScoringProfileId
+  });
+}
+
+// New audits are scored with the active profile; pass undefined to go back to the default
+export async function setActiveScoringProfile(projectId: string, userId: string, profileId?: string): Promise<void> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  if (profileId && !project.scoringProfiles?.some(p => p.profileId === profileId)) {
+    throw new Error('Scoring profile not found');
+  }
+  
+  await updateProject(projectId, { activeScoringProfileId: profileId });
+}
+
+// Re-scores every stored audit of the project under the project's active profile.
+// Findings are untouched; only score, compliance and the recorded profile change.
+export async function rescoreProjectAudits(projectId: string, userId: string): Promise<AuditRecord[]> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  
+  const profile = activeScoringProfile(project);
+  const audits = await getProjectAudits(projectId);
+  const rescored: AuditRecord[] = [];
+  
+  for (const audit of audits) {
+    if (!audit.fullReport?.violations) {
+      rescored.push(audit);
+      continue;
+    }
+    const fullReport = rescoreReport(audit.fullReport, profile);
+    const updates: Partial<AuditRecord> = {
+      ...reportScoreFields(fullReport),
+      fullReport,
+      scoringProfile: profileRef(profile),
+      rescoredAt: new Date().toISOString()
+    };
+    const updated: AuditRecord = { ...audit, ...updates };
+    await storageAPI.set(`audit:${audit.auditId}`, updated, false);
+    await pushRemote({ op: 'updateAudit', auditId: audit.auditId, updates });
+    rescored.push(updated);
+  }
+  
+  if (rescored.length > 0) {
+    await updateProject(projectId, { latestScore: rescored[0].accessibilityScore });
+  }
+  return rescored;
+}
+
+// ============= ACR OVERRIDES =============
+
+export async function saveAcrOverride(
+  projectId: string,
+  userId: string,
+  criterionId: string,
+  conformance: AcrConformance,
+  remarks: string
+): Promise<AcrRowOverride> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  
+  const override: AcrRowOverride = {
+    criterionId,
+    conformance,
+    remarks: sanitizeInput(remarks.trim()),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId
+  };
+  
+  await updateProject(projectId, {
+    acrOverrides: [...(project.acrOverrides || []).filter(o => o.criterionId !== criterionId), override]
+  });
+  return override;
+}
+
+export async function clearAcrOverride(projectId: string, userId: string, criterionId: string): Promise<void> {
+  const project = await requireProjectPermission(projectId, userId, 'project:manage');
+  
+  await updateProject(projectId, {
+    acrOverrides: (project.acrOverrides || []).filter(o => o.criterionId !== criterionId)
+  });
+}
+
 // ============= AUDIT MANAGEMENT =============
 
+// Points visual evidence at the persisted frame; transient preview URLs (data:) are
+// dropped so full frames never end up inside the serialized report.
+function linkEvidenceFrames(violations: Violation[], auditId: string, frames: VideoFrame[]): Violation[] {
+  return violations.map(v => {
+    if (!v.visual_evidence) return v;
+    const frame = findFrameForTimestamp(frames, v.visual_evidence.frame_timestamp);
+    const existing = v.visual_evidence.frame_image_url;
+    const frame_image_url = frame
+      ? frameUrl(auditId, frame.timestamp)
+      : existing && !existing.startsWith('data:') ? existing : undefined;
+    return { ...v, visual_evidence: { ...v.visual_evidence, frame_image_url } };
+  });
+}
+
+// Triage follows a finding into later audits. A finding marked fixed that shows up
+// again is reopened rather than silently staying "fixed".
+function carryForwardTriage(previous?: ViolationTriage): ViolationTriage | undefined {
+  if (!previous) return undefined;
+  if (previous.status !== 'fixed') return previous;
+  return { ...previous, status: 'open', updatedAt: new Date().toISOString() };
+}
+
+// Denormalized score columns shown in lists and charts without loading the full report
+function reportScoreFields(report: AuditReport): Pick<AuditRecord, 'accessibilityScore' | 'wcagCompliance' | 'totalViolations' | 'violationsBySeverity'> {
+  return {
+    accessibilityScore: report.overall_score,
+    wcagCompliance: {
+      levelA: report.wcag_compliance.level_a.pass,
+      levelAA: report.wcag_compliance.level_aa.pass,
+      levelAAA: report.wcag_compliance.level_aaa.pass === true,
+    },
+    totalViolations: report.summary.total_violations,
+    violationsBySeverity: {
+      critical: report.summary.critical,
+      high: report.summary.high,
+      medium: report.summary.medium,
+      low: report.summary.low
+    }
+  };
+}
+
+// Audits saved before fingerprinting existed get theirs computed on read
+function withAuditFingerprints(audit: AuditRecord): AuditRecord {
+  if (!audit.fullReport?.violations) return audit;
+  return {
+    ...audit,
+    fullReport: { ...audit.fullReport, violations: audit.fullReport.violations.map(withFingerprint) }
+  };
+}
+
 export async function saveAudit(
   projectId: string, 
   userId: string, 
-  auditReport: AuditReport
+  auditReport: AuditReport,
+  frames: VideoFrame[] = [],
+  source?: ImportSource
 ): Promise<AuditRecord> {
-  const project = await getProject(projectId);
-  if (!project) throw new Error('Project not found');
-  if (project.userId !== userId) throw new Error('Unauthorized');
+  const project = await requireProjectPermission(projectId, userId, 'audit:create');
   
   const auditVersion = project.auditCount + 1;
   const auditId = `aud_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
+  if (frames.length > 0) {
+    await saveAuditFrames(auditId, frames);
+  }
+  
+  // Fingerprint, de-duplicate, and link each finding to its first appearance in project history
+  const history = await getProjectAudits(projectId);
+  const firstSeen = new Map<string, number>();
+  const latestTriage = new Map<string, ViolationTriage>();
+  for (const previous of history) {
+    const previousFindings = [...(previous.fullReport?.violations || []), ...(previous.fullReport?.suppressed || [])];
+    for (const v of previousFindings) {
+      const seen = firstSeen.get(v.fingerprint!);
+      if (seen === undefined || previous.auditVersion < seen) firstSeen.set(v.fingerprint!, previous.auditVersion);
+      // history is newest first, so the first triage found is the most recent
+      if (v.triage && !latestTriage.has(v.fingerprint!)) latestTriage.set(v.fingerprint!, v.triage);
+    }
+  }
+  const violations = dedupeViolations(auditReport.violations.map(normalizeViolationCriterion)).map(v => ({
+    ...v,
+    first_seen_version: firstSeen.get(v.fingerprint!) ?? auditVersion,
+    triage: carryForwardTriage(latestTriage.get(v.fingerprint!))
+  }));
+  
+  // Known false positives are set aside before scoring but kept on the report
+  const { active, suppressed } = applySuppressions(
+    linkEvidenceFrames(violations, auditId, frames),
+    project.suppressionRules
+  );
+  
   // Recalculate scoring deterministically to ensure data integrity
-  const deterministicReport = generateAuditReport(auditReport.violations);
+  const scoringProfile = activeScoringProfile(project);
+  const deterministicReport: AuditReport = { ...generateAuditReport(active, scoringProfile), suppressed };
   
   const audit: AuditRecord = {
     auditId,
@@ -338,55 +821,77 @@ export async function saveAudit(
     userId,
     auditVersion,
     timestamp: new Date().toISOString(),
-    accessibilityScore: deterministicReport.overall_score,
-    wcagCompliance: {
-      levelA: deterministicReport.wcag_compliance.level_a.pass,
-      levelAA: deterministicReport.wcag_compliance.level_aa.pass,
-      levelAAA: !deterministicReport.wcag_compliance.level_aaa.not_tested,
-    },
-    totalViolations: deterministicReport.summary.total_violations,
-    violationsBySeverity: {
-      critical: deterministicReport.summary.critical,
-      high: deterministicReport.summary.high,
-      medium: deterministicReport.summary.medium,
-      low: deterministicReport.summary.low
-    },
+    ...reportScoreFields(deterministicReport),
     fullReport: deterministicReport,
-    notes: ''
+    notes: '',
+    scoringProfile: profileRef(scoringProfile),
+    ...(source && { source })
   };
   
-  await storageAPI.set(`audit:${auditId}`, JSON.stringify(audit), false);
+  await storageAPI.set(`audit:${auditId}`, audit, false);
   
   const projectAuditsKey = `project_audits:${projectId}`;
   try {
     const existing = await storageAPI.get(projectAuditsKey, false);
-    const auditIds = JSON.parse(existing.value);
+    const auditIds = existing.value;
     auditIds.push(auditId);
-    await storageAPI.set(projectAuditsKey, JSON.stringify(auditIds), false);
+    await storageAPI.set(projectAuditsKey, auditIds, false);
   } catch {
-    await storageAPI.set(projectAuditsKey, JSON.stringify([auditId]), false);
+    await storageAPI.set(projectAuditsKey, [auditId], false);
   }
   
+  // The server renumbers the audit if another device saved one in the meantime
+  const stored = (await pushRemote<AuditRecord>({ op: 'saveAudit', audit })) || audit;
+  
   await updateProject(projectId, {
-    auditCount: auditVersion,
-    latestScore: audit.accessibilityScore
+    auditCount: Math.max(project.auditCount, stored.auditVersion),
+    latestScore: stored.accessibilityScore
   });
   
-  return audit;
+  return stored;
+}
+
+// Same rule as mergeRemoteProjects: the server's list wins for audits it has seen
+async function mergeRemoteAudits(projectId: string, audits: AuditRecord[]): Promise<void> {
+  const projectAuditsKey = `project_audits:${projectId}`;
+  const localIds: string[] = await storageAPI.get(projectAuditsKey, false).then(r => r.value, () => []);
+  const remoteIds = new Set(audits.map(a => a.auditId));
+  const localOnly: string[] = [];
+  for (const auditId of localIds) {
+    if (remoteIds.has(auditId)) continue;
+    const local: AuditRecord | undefined = await storageAPI.get(`audit:${auditId}`, false).then(r => r.value, () => undefined);
+    if (local?.syncedAt) {
+      await storageAPI.delete(`audit:${auditId}`, false);
+      await deleteAuditFrames(auditId).catch(() => undefined);
+    } else if (local) {
+      localOnly.push(auditId);
+    }
+  }
+  for (const audit of audits) await cacheRemoteAudit(audit);
+  await storageAPI.set(projectAuditsKey, [...remoteIds, ...localOnly], false);
 }
 
 export async function getProjectAudits(projectId: string): Promise<AuditRecord[]> {
+  const project = await getProject(projectId);
+  if (project?.syncedAt) {
+    const remoteAudits = await pullRemote(() => remote.listAudits(projectId));
+    if (remoteAudits) await mergeRemoteAudits(projectId, remoteAudits);
+  }
+  return readLocalAudits(projectId);
+}
+
+async function readLocalAudits(projectId: string): Promise<AuditRecord[]> {
   const projectAuditsKey = `project_audits:${projectId}`;
   
   try {
     const result = await storageAPI.get(projectAuditsKey, false);
-    const auditIds: string[] = JSON.parse(result.value);
+    const auditIds: string[] = result.value;
     const audits: AuditRecord[] = [];
     
     for (const auditId of auditIds) {
       try {
         const auditResult = await storageAPI.get(`audit:${auditId}`, false);
-        audits.push(JSON.parse(auditResult.value));
+        audits.push(withAuditFingerprints(auditResult.value));
       } catch {
         // Skip missing audits
       }
@@ -401,29 +906,647 @@ export async function getProjectAudits(projectId: string): Promise<AuditRecord[]
 export async function getAudit(auditId: string): Promise<AuditRecord | null> {
   try {
     const result = await storageAPI.get(`audit:${auditId}`, false);
-    return JSON.parse(result.value);
+    return withAuditFingerprints(result.value);
   } catch {
     return null;
   }
 }
 
-export async function updateAuditNotes(auditId: string, notes: string): Promise<void> {
+// Every audit of the project (newest first) in which the given finding appears
+export async function getViolationHistory(projectId: string, fingerprint: string): Promise<AuditRecord[]> {
+  const audits = await getProjectAudits(projectId);
+  return audits.filter(audit =>
+    (audit.fullReport?.violations || []).some(v => v.fingerprint === fingerprint)
+  );
+}
+
+export async function updateAuditNotes(auditId: string, userId: string, notes: string): Promise<void> {
   const result = await storageAPI.get(`audit:${auditId}`, false);
-  const audit: AuditRecord = JSON.parse(result.value);
+  const audit: AuditRecord = result.value;
+  await requireProjectPermission(audit.projectId, userId, 'audit:notes');
   audit.notes = sanitizeInput(notes);
-  await storageAPI.set(`audit:${auditId}`, JSON.stringify(audit), false);
+  await storageAPI.set(`audit:${auditId}`, audit, false);
+  await pushRemote({ op: 'updateAudit', auditId, updates: { notes: audit.notes } });
+}
+
+// ============= VIOLATION TRIAGE =============
+
+async function updateAuditViolation(
+  auditId: string,
+  fingerprint: string,
+  userId: string,
+  update: (triage: ViolationTriage) => ViolationTriage
+): Promise<Violation> {
+  const result = await storageAPI.get(`audit:${auditId}`, false);
+  const audit = withAuditFingerprints(result.value);
+  await requireProjectPermission(audit.projectId, userId, 'audit:triage');
+  const violations = audit.fullReport.violations;
+  const index = violations.findIndex(v => v.fingerprint === fingerprint);
+  if (index === -1) throw new Error('Violation not found');
+  
+  const current: ViolationTriage = violations[index].triage || {
+    status: 'open',
+    comments: [],
+    updatedAt: new Date().toISOString()
+  };
+  const updated: Violation = { ...violations[index], triage: update(current) };
+  violations[index] = updated;
+  
+  await storageAPI.set(`audit:${auditId}`, audit, false);
+  await pushRemote({ op: 'updateAudit', auditId, updates: { fullReport: audit.fullReport } });
+  return updated;
+}
+
+export async function updateViolationTriage(
+  auditId: string,
+  fingerprint: string,
+  userId: string,
+  updates: Partial<Pick<ViolationTriage, 'status' | 'assignee' | 'dueDate'>>
+): Promise<Violation> {
+  return updateAuditViolation(auditId, fingerprint, userId, triage => ({
+    ...triage,
+    ...updates,
+    assignee: updates.assignee !== undefined ? sanitizeInput(updates.assignee) || undefined : triage.assignee,
+    dueDate: updates.dueDate !== undefined ? updates.dueDate || undefined : triage.dueDate,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId
+  }));
 }
 
-export async function deleteAudit(auditId: string, projectId: string): Promise<void> {
+export async function addViolationComment(
+  auditId: string,
+  fingerprint: string,
+  user: Pick<User, 'userId' | 'displayName'>,
+  text: string
+): Promise<Violation> {
+  if (!text.trim()) throw new Error('Comment cannot be empty');
+  
+  const comment: TriageComment = {
+    commentId: `cmt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId: user.userId,
+    authorName: user.displayName,
+    text: sanitizeInput(text.trim()),
+    createdAt: new Date().toISOString()
+  };
+  
+  return updateAuditViolation(auditId, fingerprint, user.userId, triage => ({
+    ...triage,
+    comments: [...triage.comments, comment],
+    updatedAt: comment.createdAt,
+    updatedBy: user.userId
+  }));
+}
+
+export async function deleteAudit(auditId: string, userId: string): Promise<void> {
+  const result = await storageAPI.get(`audit:${auditId}`, false);
+  const { projectId }: AuditRecord = result.value;
+  await requireProjectPermission(projectId, userId, 'audit:delete');
   await storageAPI.delete(`audit:${auditId}`, false);
+  await deleteAuditFrames(auditId).catch(() => undefined);
   
   const projectAuditsKey = `project_audits:${projectId}`;
   try {
     const result = await storageAPI.get(projectAuditsKey, false);
-    const auditIds: string[] = JSON.parse(result.value);
+    const auditIds: string[] = result.value;
     const filtered = auditIds.filter(id => id !== auditId);
-    await storageAPI.set(projectAuditsKey, JSON.stringify(filtered), false);
+    await storageAPI.set(projectAuditsKey, filtered, false);
   } catch {
       // Ignore
   }
-}
\ No newline at end of file
+  
+  await pushRemote({ op: 'deleteAudit', auditId });
+}
+// ============= ACCESS CONTROL =============
+
+async function readList(key: string): Promise<string[]> {
+  return storageAPI.get(key, false).then(r => r.value, () => []);
+}
+
+async function addToList(key: string, id: string): Promise<void> {
+  const ids = await readList(key);
+  if (!ids.includes(id)) await storageAPI.set(key, [...ids, id], false);
+}
+
+async function removeFromList(key: string, id: string): Promise<void> {
+  const ids = await readList(key);
+  if (ids.includes(id)) await storageAPI.set(key, ids.filter(existing => existing !== id), false);
+}
+
+async function getOrganization(orgId: string): Promise<Organization | null> {
+  return storageAPI.get(`org:${orgId}`, false).then(r => r.value, () => null);
+}
+
+// The user's role on a project, or null without access
+export async function getProjectRole(project: Project, userId: string): Promise<MemberRole | null> {
+  return projectRole(project, userId, project.orgId ? await getOrganization(project.orgId) : null);
+}
+
+async function requireProjectPermission(projectId: string, userId: string, permission: Permission): Promise<Project> {
+  const project = await getProject(projectId);
+  if (!project) throw new Error('Project not found');
+  assertPermission(await getProjectRole(project, userId), permission);
+  return project;
+}
+
+// ============= ORGANIZATIONS & SHARING =============
+
+// With a sync server, team changes are made there and need a connection; without one
+// they apply to the accounts in this browser.
+async function teamRequest<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof RemoteUnavailableError) throw new Error('Sharing changes need a connection to the sync server');
+    throw error;
+  }
+}
+
+async function storeOrganization(org: Organization): Promise<Organization> {
+  await storageAPI.set(`org:${org.orgId}`, org, false);
+  for (const member of org.members) await addToList(`user_orgs:${member.userId}`, org.orgId);
+  return org;
+}
+
+async function storeProjectAccess(project: Project): Promise<Project> {
+  await storageAPI.set(`project:${project.projectId}`, project, false);
+  for (const share of project.shares || []) await addToList(`user_shared_projects:${share.userId}`, project.projectId);
+  if (project.orgId) await addToList(`org_projects:${project.orgId}`, project.projectId);
+  return project;
+}
+
+type Member = Pick<User, 'userId' | 'email' | 'displayName'>;
+
+export async function createOrganization(user: Member, name: string): Promise<Organization> {
+  if (!name.trim()) throw new Error('Organization name is required');
+  if (isRemoteEnabled()) return storeOrganization(await teamRequest(() => remote.createOrganization(sanitizeInput(name.trim()))));
+  
+  const now = new Date().toISOString();
+  return storeOrganization({
+    orgId: `org_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: sanitizeInput(name.trim()),
+    createdAt: now,
+    createdBy: user.userId,
+    members: [{ userId: user.userId, email: user.email, displayName: user.displayName, role: 'owner', addedAt: now }]
+  });
+}
+
+export async function getUserOrganizations(userId: string): Promise<Organization[]> {
+  const remoteOrgs = await pullRemote(() => remote.listOrganizations());
+  if (remoteOrgs) {
+    for (const org of remoteOrgs) await storeOrganization(org);
+    await storageAPI.set(`user_orgs:${userId}`, remoteOrgs.map(org => org.orgId), false);
+  }
+  
+  const orgs: Organization[] = [];
+  for (const orgId of await readList(`user_orgs:${userId}`)) {
+    const org = await getOrganization(orgId);
+    if (org && orgRole(org, userId)) orgs.push(org);
+  }
+  return orgs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Changes a member's role, or removes them with null (members may remove themselves)
+export async function updateOrgMember(orgId: string, actorUserId: string, targetUserId: string, role: MemberRole | null): Promise<Organization> {
+  const org = await getOrganization(orgId);
+  if (!org) throw new Error('Organization not found');
+  const updated = changeOrgMember(org, actorUserId, targetUserId, role);
+  
+  const stored = isRemoteEnabled()
+    ? await teamRequest(() => remote.updateOrgMember(orgId, targetUserId, role))
+    : updated;
+  if (role === null) await removeFromList(`user_orgs:${targetUserId}`, orgId);
+  return storeOrganization(stored);
+}
+
+// Moves a project into an organization the user owns, or out of one with undefined
+export async function setProjectOrganization(projectId: string, userId: string, orgId?: string): Promise<Project> {
+  const project = await requireProjectPermission(projectId, userId, 'project:share');
+  if (orgId && orgRole(await getOrganization(orgId), userId) !== 'owner') throw new Error('Unauthorized');
+  
+  if (project.orgId) await removeFromList(`org_projects:${project.orgId}`, projectId);
+  if (isRemoteEnabled()) {
+    return storeProjectAccess(await cacheRemoteProject(await teamRequest(() => remote.setProjectOrganization(projectId, orgId || null))));
+  }
+  return storeProjectAccess({ ...project, orgId, updatedAt: new Date().toISOString() });
+}
+
+// Changes a direct share's role, or removes it with null (people may remove themselves)
+export async function updateProjectShare(projectId: string, actorUserId: string, targetUserId: string, role: ShareRole | null): Promise<Project> {
+  const leaving = role === null && actorUserId === targetUserId;
+  const project = await requireProjectPermission(projectId, actorUserId, leaving ? 'project:view' : 'project:share');
+  if (!project.shares?.some(s => s.userId === targetUserId)) throw new Error('Share not found');
+  
+  if (role === null) await removeFromList(`user_shared_projects:${targetUserId}`, projectId);
+  if (isRemoteEnabled()) {
+    return storeProjectAccess(await cacheRemoteProject(await teamRequest(() => remote.updateProjectShare(projectId, targetUserId, role))));
+  }
+  const shares = role === null
+    ? project.shares.filter(s => s.userId !== targetUserId)
+    : project.shares.map(s => s.userId === targetUserId ? { ...s, role } : s);
+  return storeProjectAccess({ ...project, shares });
+}
+
+async function inviterRole(target: Invitation['target'], userId: string): Promise<MemberRole | null> {
+  if (target.type === 'organization') return orgRole(await getOrganization(target.id), userId);
+  const project = await getProject(target.id);
+  return project ? getProjectRole(project, userId) : null;
+}
+
+export async function createInvitation(
+  target: Invitation['target'],
+  inviter: Pick<User, 'userId' | 'displayName'>,
+  email: string,
+  role: MemberRole
+): Promise<Invitation> {
+  const invitee = email.trim().toLowerCase();
+  if (!invitee.includes('@')) throw new Error('A valid email is required');
+  assertCanInvite(target, role, await inviterRole(target, inviter.userId));
+  if (isRemoteEnabled()) return teamRequest(() => remote.createInvitation(target, invitee, role));
+  
+  const invitation: Invitation = {
+    inviteId: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    email: invitee,
+    role,
+    target,
+    invitedBy: { userId: inviter.userId, displayName: inviter.displayName },
+    createdAt: new Date().toISOString()
+  };
+  await storageAPI.set(`invitation:${invitation.inviteId}`, invitation, false);
+  await addToList(`user_invitations:${invitee}`, invitation.inviteId);
+  await addToList(`target_invitations:${target.id}`, invitation.inviteId);
+  return invitation;
+}
+
+async function readInvitations(key: string): Promise<Invitation[]> {
+  const invitations: Invitation[] = [];
+  for (const inviteId of await readList(key)) {
+    const invitation = await storageAPI.get(`invitation:${inviteId}`, false).then(r => r.value, () => null);
+    if (invitation) invitations.push(invitation);
+  }
+  return invitations;
+}
+
+// Pending invitations to an organization or project, for the people managing it
+export async function getTargetInvitations(target: Invitation['target']): Promise<Invitation[]> {
+  if (isRemoteEnabled()) return (await pullRemote(() => remote.listTargetInvitations(target))) || [];
+  return readInvitations(`target_invitations:${target.id}`);
+}
+
+// Invitations waiting for the user to accept or decline
+export async function getPendingInvitations(email: string): Promise<Invitation[]> {
+  if (isRemoteEnabled()) return (await pullRemote(() => remote.listInvitations())) || [];
+  return readInvitations(`user_invitations:${email.toLowerCase()}`);
+}
+
+async function removeInvitation(invitation: Invitation): Promise<void> {
+  await storageAPI.delete(`invitation:${invitation.inviteId}`, false);
+  await removeFromList(`user_invitations:${invitation.email}`, invitation.inviteId);
+  await removeFromList(`target_invitations:${invitation.target.id}`, invitation.inviteId);
+}
+
+export async function acceptInvitation(inviteId: string, user: Member): Promise<void> {
+  if (isRemoteEnabled()) {
+    const { organization, project } = await teamRequest(() => remote.acceptInvitation(inviteId));
+    if (organization) await storeOrganization(organization);
+    if (project) await storeProjectAccess(await cacheRemoteProject(project));
+    return;
+  }
+  
+  const invitation: Invitation | null = await storageAPI.get(`invitation:${inviteId}`, false).then(r => r.value, () => null);
+  if (!invitation || invitation.email !== user.email.toLowerCase()) throw new Error('Invitation not found');
+  if (invitation.target.type === 'organization') {
+    const org = await getOrganization(invitation.target.id);
+    if (!org) throw new Error('Organization no longer exists');
+    await storeOrganization(acceptIntoOrganization(org, invitation, user));
+  } else {
+    const project = await getProject(invitation.target.id);
+    if (!project) throw new Error('Project no longer exists');
+    await storeProjectAccess(acceptIntoProject(project, invitation, user));
+  }
+  await removeInvitation(invitation);
+}
+
+// Declined by the invitee or revoked by whoever sent it
+export async function deleteInvitation(inviteId: string, user: Member): Promise<void> {
+  if (isRemoteEnabled()) {
+    await teamRequest(() => remote.deleteInvitation(inviteId));
+    return;
+  }
+  
+  const invitation: Invitation | null = await storageAPI.get(`invitation:${inviteId}`, false).then(r => r.value, () => null);
+  if (!invitation) return;
+  if (invitation.email !== user.email.toLowerCase() && invitation.invitedBy.userId !== user.userId) throw new Error('Unauthorized');
+  await removeInvitation(invitation);
+}
+
+// ============= ACCOUNT MANAGEMENT =============
+
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to confuse
+const RECOVERY_CODE_LENGTH = 20;
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Rejection sampling: bytes at or above the largest multiple of the alphabet size are
+// discarded so that every character is equally likely
+function randomRecoveryCode(): string {
+  const limit = 256 - (256 % RECOVERY_CODE_ALPHABET.length);
+  let code = '';
+  while (code.length < RECOVERY_CODE_LENGTH) {
+    for (const b of crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH))) {
+      if (b < limit && code.length < RECOVERY_CODE_LENGTH) code += RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length];
+    }
+  }
+  return code;
+}
+
+async function getUserRecord(userId: string): Promise<User> {
+  const user: User | null = await storageAPI.get(`user:${userId}`, false).then(r => r.value, () => null);
+  if (!user) throw new Error('Account not found');
+  return user;
+}
+
+// With a sync server the account lives there, so changes to it need a connection;
+// otherwise the old details would come back at the next online sign-in
+async function accountRequest<T>(request: () => Promise<T>, action: string): Promise<T | undefined> {
+  if (!isRemoteEnabled()) return undefined;
+  if (!getRemoteToken()) throw new Error(`Sign in again while connected to ${action}`);
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof RemoteUnavailableError) throw new Error(`The sync server is unreachable. Connect to ${action}.`);
+    throw error;
+  }
+}
+
+export async function updateProfile(userId: string, profile: { displayName: string; email: string }): Promise<User> {
+  const user = await getUserRecord(userId);
+  const email = profile.email.trim().toLowerCase();
+  const displayName = sanitizeInput(profile.displayName.trim());
+  if (!email.includes('@')) throw new Error('A valid email is required');
+  if (!displayName) throw new Error('A display name is required');
+
+  const emailOwner = await storageAPI.get(`user_email:${email}`, false).then(r => r.value, () => userId);
+  if (emailOwner !== userId) throw new Error('An account with this email already exists');
+  await accountRequest(() => remote.updateProfile(email, displayName), 'update your profile');
+
+  const updated: User = { ...user, email, displayName };
+  await storageAPI.set(`user:${userId}`, updated, false);
+  if (email !== user.email) {
+    await storageAPI.delete(`user_email:${user.email}`, false);
+    await storageAPI.set(`user_email:${email}`, userId, false);
+    // Pending invitations follow the address
+    for (const invitation of await readInvitations(`user_invitations:${user.email}`)) {
+      await storageAPI.set(`invitation:${invitation.inviteId}`, { ...invitation, email }, false);
+      await addToList(`user_invitations:${email}`, invitation.inviteId);
+    }
+    await storageAPI.delete(`user_invitations:${user.email}`, false);
+  }
+
+  for (const orgId of await readList(`user_orgs:${userId}`)) {
+    const org = await getOrganization(orgId);
+    if (org) await storeOrganization(withMemberProfile(org, updated));
+  }
+  for (const projectId of await readList(`user_shared_projects:${userId}`)) {
+    const project = await getProject(projectId);
+    if (project) await storageAPI.set(`project:${projectId}`, withShareProfile(project, updated), false);
+  }
+  return updated;
+}
+
+// Re-derives the hash with a fresh salt
+export async function changePassword(userId: string, currentPassword: string, newPassword: string): Promise<User> {
+  const user = await getUserRecord(userId);
+  if (!await verifyPassword(currentPassword, user)) throw new Error('Current password is incorrect');
+  assertPasswordStrength(newPassword);
+  if (newPassword === currentPassword) throw new Error('Choose a password different from the current one');
+  await accountRequest(() => remote.changePassword(currentPassword, newPassword), 'change your password');
+
+  const updated: User = { ...user, ...await createPasswordHash(newPassword) };
+  await storageAPI.set(`user:${userId}`, updated, false);
+  return updated;
+}
+
+// Replaces any earlier code. Returned once for the user to write down; only a hash is kept.
+export async function createRecoveryCode(userId: string, password: string): Promise<{ user: User; code: string }> {
+  const user = await getUserRecord(userId);
+  if (!await verifyPassword(password, user)) throw new Error('Password is incorrect');
+
+  const code = randomRecoveryCode();
+  await accountRequest(() => remote.setRecoveryCode(password, code), 'create a recovery code');
+
+  const { passwordHash: hash, passwordHashParams: params } = await createPasswordHash(code);
+  const updated: User = { ...user, recoveryCode: { hash, params, createdAt: new Date().toISOString() } };
+  await storageAPI.set(`user:${userId}`, updated, false);
+  return { user: updated, code: code.match(/.{5}/g)!.join('-') };
+}
+
+// Forgotten password: the recovery code stands in for it, once, and signs the user in
+export async function resetPassword(email: string, recoveryCode: string, newPassword: string): Promise<User> {
+  const emailLower = email.trim().toLowerCase();
+  const code = normalizeRecoveryCode(recoveryCode);
+  checkLoginAttempts(emailLower);
+  assertPasswordStrength(newPassword);
+
+  if (isRemoteEnabled()) {
+    let session: RemoteSession;
+    try {
+      session = await remote.recover(emailLower, code, newPassword);
+    } catch (error) {
+      if (error instanceof RemoteUnavailableError) throw new Error('The sync server is unreachable. Resetting a password needs a connection.');
+      recordFailedLogin(emailLower);
+      throw new Error('Invalid email or recovery code');
+    }
+    await cacheRemoteUser(session, newPassword);
+    setRemoteToken(session.token);
+  }
+
+  const userId = await storageAPI.get(`user_email:${emailLower}`, false).then(r => r.value, () => null);
+  const user: User | null = userId ? await storageAPI.get(`user:${userId}`, false).then(r => r.value, () => null) : null;
+  if (!user) {
+    recordFailedLogin(emailLower);
+    throw new Error('Invalid email or recovery code');
+  }
+  if (!isRemoteEnabled()) {
+    const valid = user.recoveryCode && await derivePasswordHash(code, user.recoveryCode.params) === user.recoveryCode.hash;
+    if (!valid) {
+      recordFailedLogin(emailLower);
+      throw new Error('Invalid email or recovery code');
+    }
+  }
+
+  loginAttempts.delete(emailLower);
+  const { recoveryCode: _used, ...rest } = user;
+  const updated: User = {
+    ...rest,
+    ...(isRemoteEnabled() ? {} : await createPasswordHash(newPassword)),
+    lastLoginAt: new Date().toISOString()
+  };
+  await storageAPI.set(`user:${user.userId}`, updated, false);
+  return updated;
+}
+
+// Removes the account and everything it owns: projects with their audits and frames,
+// organization memberships, shares, invitations and queued sync changes. Organizations
+// it was the only member of go too; the last owner of a shared one has to hand it over first.
+export async function deleteAccount(userId: string, password: string): Promise<void> {
+  const user = await getUserRecord(userId);
+  if (!await verifyPassword(password, user)) throw new Error('Password is incorrect');
+
+  const orgs = (await Promise.all((await readList(`user_orgs:${userId}`)).map(getOrganization)))
+    .filter((org): org is Organization => !!org && !!orgRole(org, userId));
+  const { updated, emptied } = leaveOrganizations(orgs, userId);
+  await accountRequest(() => remote.deleteAccount(password), 'delete your account');
+
+  for (const projectId of await readList(`user_projects:${userId}`)) {
+    for (const invitation of await readInvitations(`target_invitations:${projectId}`)) await removeInvitation(invitation);
+    await storageAPI.delete(`target_invitations:${projectId}`, false);
+    await removeLocalProject(projectId, userId);
+  }
+  for (const org of updated) {
+    await storeOrganization(org);
+    for (const invitation of await readInvitations(`target_invitations:${org.orgId}`)) {
+      if (invitation.invitedBy.userId === userId) await removeInvitation(invitation);
+    }
+  }
+  for (const org of emptied) {
+    for (const projectId of await readList(`org_projects:${org.orgId}`)) {
+      const project = await getProject(projectId);
+      if (project) await storageAPI.set(`project:${projectId}`, { ...project, orgId: undefined }, false);
+    }
+    for (const invitation of await readInvitations(`target_invitations:${org.orgId}`)) await removeInvitation(invitation);
+    await storageAPI.delete(`target_invitations:${org.orgId}`, false);
+    await storageAPI.delete(`org_projects:${org.orgId}`, false);
+    await storageAPI.delete(`org:${org.orgId}`, false);
+  }
+  for (const projectId of await readList(`user_shared_projects:${userId}`)) {
+    const project = await getProject(projectId);
+    if (project?.shares) {
+      await storageAPI.set(`project:${projectId}`, { ...project, shares: project.shares.filter(s => s.userId !== userId) }, false);
+    }
+  }
+  for (const invitation of await readInvitations(`user_invitations:${user.email}`)) await removeInvitation(invitation);
+
+  await logout();
+  for (const key of [
+    `user_projects:${userId}`, `user_orgs:${userId}`, `user_shared_projects:${userId}`, `user_invitations:${user.email}`,
+    outboxKey(userId), `user_email:${user.email}`, `user:${userId}`
+  ]) {
+    await storageAPI.delete(key, false);
+  }
+}
+
+// ============= WORKSPACE BACKUP =============
+
+export async function exportWorkspace(userId: string, includeFrames: boolean = false): Promise<WorkspaceBackup> {
+  const userResult = await storageAPI.get(`user:${userId}`, false);
+  const user: User = userResult.value;
+
+  const projects = [];
+  const frames: BackupFrame[] = [];
+  // Projects shared with the user belong in their owners' backups
+  for (const project of (await getUserProjects(userId)).filter(p => p.userId === userId)) {
+    const audits = await getProjectAudits(project.projectId);
+    projects.push({ project, audits });
+    if (!includeFrames) continue;
+    for (const audit of audits) {
+      const stored = await exportAuditFrames(audit.auditId).catch(() => []);
+      frames.push(...stored.map(frame => ({ auditId: audit.auditId, ...frame })));
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: { userId: user.userId, email: user.email, displayName: user.displayName },
+    projects,
+    ...(includeFrames && { frames })
+  };
+}
+
+// Frame references embed the audit id, so they follow an audit whose id was reassigned
+function relinkFrameRefs(violations: Violation[] | undefined, fromAuditId: string, toAuditId: string): Violation[] | undefined {
+  if (!violations || fromAuditId === toAuditId) return violations;
+  return violations.map(v => {
+    const ref = v.visual_evidence?.frame_image_url ? parseFrameUrl(v.visual_evidence.frame_image_url) : null;
+    if (ref?.auditId !== fromAuditId) return v;
+    return { ...v, visual_evidence: { ...v.visual_evidence!, frame_image_url: frameUrl(toAuditId, ref.timestamp) } };
+  });
+}
+
+// Merges a backup into the user's workspace. With dryRun nothing is written and
+// the summary describes what applying the backup would do.
+export async function importWorkspace(userId: string, backup: WorkspaceBackup, dryRun: boolean): Promise<BackupImportSummary> {
+  const existing: ExistingWorkspace = { ownedProjects: new Map(), takenProjectIds: new Set(), takenAuditIds: new Set() };
+  for (const { project, audits } of backup.projects) {
+    const current = await getProject(project.projectId);
+    if (current) {
+      existing.takenProjectIds.add(current.projectId);
+      if (current.userId === userId) {
+        existing.ownedProjects.set(current.projectId, { project: current, audits: await getProjectAudits(current.projectId) });
+      }
+    }
+    for (const audit of audits) {
+      if (await getAudit(audit.auditId)) existing.takenAuditIds.add(audit.auditId);
+    }
+  }
+
+  const plan = planWorkspaceImport(backup, existing, userId);
+  if (dryRun) return plan.summary;
+
+  for (const { action, project, audits, auditIdMap } of plan.projects) {
+    if (action === 'create') {
+      const created: Project = {
+        ...project,
+        projectName: sanitizeInput(project.projectName),
+        websiteUrl: project.websiteUrl ? sanitizeInput(project.websiteUrl) : undefined,
+        description: project.description ? sanitizeInput(project.description) : undefined
+      };
+      await storageAPI.set(`project:${created.projectId}`, created, false);
+      const userProjectsKey = `user_projects:${userId}`;
+      const projectIds: string[] = await storageAPI.get(userProjectsKey, false).then(r => r.value, () => []);
+      await storageAPI.set(userProjectsKey, [...projectIds, created.projectId], false);
+      await pushRemote({ op: 'createProject', project: created });
+    } else {
+      await storageAPI.set(`project:${project.projectId}`, project, false);
+      await pushRemote({ op: 'updateProject', projectId: project.projectId, updates: project });
+    }
+
+    const backupIds = new Map(Array.from(auditIdMap, ([from, to]) => [to, from]));
+    const relinkedAudits: AuditRecord[] = [];
+    for (const audit of audits) {
+      const fromAuditId = backupIds.get(audit.auditId)!;
+      const relinked: AuditRecord = {
+        ...audit,
+        fullReport: {
+          ...audit.fullReport,
+          violations: relinkFrameRefs(audit.fullReport.violations, fromAuditId, audit.auditId)!,
+          suppressed: relinkFrameRefs(audit.fullReport.suppressed, fromAuditId, audit.auditId)
+        }
+      };
+      await storageAPI.set(`audit:${audit.auditId}`, relinked, false);
+      relinkedAudits.push(relinked);
+    }
+
+    const projectAuditsKey = `project_audits:${project.projectId}`;
+    const auditIds: string[] = await storageAPI.get(projectAuditsKey, false).then(r => r.value, () => []);
+    await storageAPI.set(projectAuditsKey, [...auditIds, ...audits.map(a => a.auditId)], false);
+    // Oldest first, so the server keeps the backup's version numbers where it can
+    for (const audit of relinkedAudits.sort((a, b) => a.auditVersion - b.auditVersion)) {
+      await pushRemote({ op: 'saveAudit', audit });
+    }
+
+    for (const [fromAuditId, toAuditId] of auditIdMap) {
+      const frames = (backup.frames || []).filter(f => f.auditId === fromAuditId);
+      if (frames.length === 0) continue;
+      try {
+        await saveAuditFrames(toAuditId, frames.map(({ timestamp, data }) => ({ timestamp, data })));
+      } catch {
+        plan.summary.framesImported -= frames.length;
+        plan.summary.warnings.push(`Frames for audit ${toAuditId} could not be stored`);
+      }
+    }
+  }
+
+  return plan.summary;
+}
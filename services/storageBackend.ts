@@ -0,0 +1,194 @@
+import { StorageBackendKind, StorageUsage } from '../types';
+import { STORES, StoreName, openDatabase, promisify, transactionDone } from './database';
+
+/**
+ * Key/value backends behind services/storage.ts. Keys keep the historical
+ * `user:` / `project:` / `audit:` layout; the IndexedDB backend routes those to
+ * their object stores and everything else (lookup lists, session) to `meta`.
+ * localStorage is only used where IndexedDB can't be opened.
+ */
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Prefixes written by services/storage.ts before the IndexedDB backend existed
+const LEGACY_PREFIXES = ['user:', 'user_email:', 'user_projects:', 'project:', 'project_audits:', 'audit:'];
+const LEGACY_KEYS = ['current_session'];
+const LEGACY_FRAME_DB = 'echo-audit-frames';
+const MIGRATION_MARKER = 'migration:localStorage';
+
+const RECORD_STORES: { prefix: string; store: StoreName }[] = [
+  { prefix: 'user:', store: STORES.users },
+  { prefix: 'project:', store: STORES.projects },
+  { prefix: 'audit:', store: STORES.audits }
+];
+
+function route(key: string): { store: StoreName; id: string } {
+  const match = RECORD_STORES.find(r => key.startsWith(r.prefix));
+  return match ? { store: match.store, id: key.slice(match.prefix.length) } : { store: STORES.meta, id: key };
+}
+
+function putRecord(tx: IDBTransaction, key: string, value: unknown): IDBRequest {
+  const { store, id } = route(key);
+  return store === STORES.meta ? tx.objectStore(store).put(value, id) : tx.objectStore(store).put(value);
+}
+
+// Values were JSON except user_email: entries and legacy sessions, which are bare strings
+function parseLegacyValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// ============= LOCALSTORAGE =============
+
+export const localStorageBackend: StorageBackend = {
+  kind: 'localstorage',
+  get: async <T>(key: string) => {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : parseLegacyValue(raw) as T;
+  },
+  set: async (key, value) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  delete: async (key) => {
+    localStorage.removeItem(key);
+  }
+};
+
+// ============= INDEXEDDB =============
+
+function indexedDbBackend(db: IDBDatabase): StorageBackend {
+  return {
+    kind: 'indexeddb',
+    get: async <T>(key: string) => {
+      const { store, id } = route(key);
+      return promisify<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(id));
+    },
+    set: async (key, value) => {
+      const tx = db.transaction(route(key).store, 'readwrite');
+      putRecord(tx, key, value);
+      await transactionDone(tx);
+    },
+    delete: async (key) => {
+      const { store, id } = route(key);
+      const tx = db.transaction(store, 'readwrite');
+      tx.objectStore(store).delete(id);
+      await transactionDone(tx);
+    }
+  };
+}
+
+// Frames used to live in their own database; copy them over and drop it
+async function migrateLegacyFrames(db: IDBDatabase): Promise<number> {
+  const legacy = await promisify<IDBDatabase>(indexedDB.open(LEGACY_FRAME_DB));
+  try {
+    if (!legacy.objectStoreNames.contains('frames')) return 0;
+    const frames = await promisify<unknown[]>(legacy.transaction('frames', 'readonly').objectStore('frames').getAll());
+    const tx = db.transaction(STORES.frames, 'readwrite');
+    for (const frame of frames) tx.objectStore(STORES.frames).put(frame);
+    await transactionDone(tx);
+    return frames.length;
+  } finally {
+    legacy.close();
+    indexedDB.deleteDatabase(LEGACY_FRAME_DB);
+  }
+}
+
+interface MigrationMarker {
+  migratedAt: string;
+  keys: number;
+  frames: number;
+  failed?: string[]; // Keys left in localStorage because IndexedDB rejected them
+}
+
+// One-time copy of the localStorage data into IndexedDB. Copying is idempotent and
+// the marker is only written afterwards, so an interrupted migration simply runs again.
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<MigrationMarker> {
+  const done = await promisify<MigrationMarker | undefined>(db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(MIGRATION_MARKER));
+  if (done) return done;
+
+  // Runs first: the transaction below must not await anything else or it auto-commits
+  const frames = await migrateLegacyFrames(db).catch(() => 0);
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && (LEGACY_KEYS.includes(key) || LEGACY_PREFIXES.some(prefix => key.startsWith(prefix)))) keys.push(key);
+  }
+
+  const migrated: string[] = [];
+  const failed: string[] = [];
+  const tx = db.transaction([STORES.users, STORES.projects, STORES.audits, STORES.meta], 'readwrite');
+  for (const key of keys) {
+    try {
+      const request = putRecord(tx, key, parseLegacyValue(localStorage.getItem(key)!));
+      request.onsuccess = () => migrated.push(key);
+      // A rejected record (say, a duplicate email) would otherwise abort the whole copy
+      request.onerror = event => {
+        event.preventDefault();
+        failed.push(key);
+      };
+    } catch {
+      // A record without its key field can't be stored
+      failed.push(key);
+    }
+  }
+  await transactionDone(tx);
+
+  const marker: MigrationMarker = { migratedAt: new Date().toISOString(), keys: migrated.length, frames, failed };
+  const markerTx = db.transaction(STORES.meta, 'readwrite');
+  markerTx.objectStore(STORES.meta).put(marker, MIGRATION_MARKER);
+  await transactionDone(markerTx);
+
+  for (const key of migrated) localStorage.removeItem(key);
+  if (failed.length > 0) console.warn('Records left in localStorage by the IndexedDB migration', failed);
+  return marker;
+}
+
+// ============= SELECTION =============
+
+let backendPromise: Promise<StorageBackend> | null = null;
+let migrationIssue: string | undefined; // Shown with the storage usage until resolved
+
+export function getStorageBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB === 'undefined') return localStorageBackend;
+      let db: IDBDatabase;
+      try {
+        db = await openDatabase();
+      } catch (err) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', err);
+        return localStorageBackend;
+      }
+      try {
+        const { failed } = await migrateFromLocalStorage(db);
+        if (failed?.length) {
+          migrationIssue = `${failed.length} record${failed.length === 1 ? '' : 's'} could not be moved to IndexedDB ` +
+            `and are not shown (${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', …' : ''}).`;
+        }
+        return indexedDbBackend(db);
+      } catch (err: any) {
+        // The data stays in localStorage and the migration runs again on the next load
+        console.error('Moving data to IndexedDB failed', err);
+        migrationIssue = `Moving your data to IndexedDB failed (${err?.message || err}); it stays in localStorage for now.`;
+        return localStorageBackend;
+      }
+    })();
+  }
+  return backendPromise;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const { kind } = await getStorageBackend();
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  const persisted = await navigator.storage?.persisted?.().catch(() => undefined);
+  return { backend: kind, usage: estimate?.usage, quota: estimate?.quota, persisted, migrationIssue };
+}
@@ -0,0 +1,134 @@
+import { AuditRecord, Invitation, MemberRole, Organization, Project, PublicUser, ShareRole } from '../types';
+
+/**
+ * Client for the optional sync server in server/. Enabled by building with
+ * ECHO_AUDIT_SERVER set to the server's base URL; without it the app is local-only.
+ */
+
+const SERVER_URL = (process.env.ECHO_AUDIT_SERVER || '').replace(/\/+$/, '');
+const REQUEST_TIMEOUT = 15000;
+
+// A write that has not reached the server yet, replayed in order once it is reachable
+export type SyncOperation =
+  | { op: 'createProject'; project: Project }
+  | { op: 'updateProject'; projectId: string; updates: Partial<Project> }
+  | { op: 'deleteProject'; projectId: string }
+  | { op: 'saveAudit'; audit: AuditRecord }
+  | { op: 'updateAudit'; auditId: string; updates: Partial<AuditRecord> }
+  | { op: 'deleteAudit'; auditId: string };
+
+export interface RemoteSession {
+  user: PublicUser;
+  token: string;
+}
+
+// The server could not be reached (offline, timed out, or failing); local data is used instead
+export class RemoteUnavailableError extends Error {}
+
+// The server answered and refused the request
+export class RemoteRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+let sessionToken: string | undefined;
+
+export function isRemoteEnabled(): boolean {
+  return SERVER_URL !== '';
+}
+
+export function setRemoteToken(token?: string): void {
+  sessionToken = token;
+}
+
+export function getRemoteToken(): string | undefined {
+  return sessionToken;
+}
+
+async function remoteRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  let response: Response;
+  try {
+    response = await fetch(`${SERVER_URL}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(sessionToken && { Authorization: `Bearer ${sessionToken}` })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal
+    });
+  } catch {
+    throw new RemoteUnavailableError('Sync server unreachable');
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const payload = await response.json().catch(() => undefined);
+  if (response.status >= 500) throw new RemoteUnavailableError(payload?.error || `Sync server error (${response.status})`);
+  if (!response.ok) throw new RemoteRequestError(response.status, payload?.error || `Request failed (${response.status})`);
+  return payload as T;
+}
+
+const id = (value: string) => encodeURIComponent(value);
+
+export const remote = {
+  signup: (email: string, password: string, displayName: string) =>
+    remoteRequest<RemoteSession>('POST', '/api/auth/signup', { email, password, displayName }),
+  login: (email: string, password: string) =>
+    remoteRequest<RemoteSession>('POST', '/api/auth/login', { email, password }),
+  logout: () => remoteRequest<unknown>('POST', '/api/auth/logout'),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    remoteRequest<unknown>('POST', '/api/auth/password', { currentPassword, newPassword }),
+  updateProfile: (email: string, displayName: string) =>
+    remoteRequest<PublicUser>('PATCH', '/api/auth/me', { email, displayName }),
+  deleteAccount: (password: string) => remoteRequest<unknown>('DELETE', '/api/auth/me', { password }),
+  setRecoveryCode: (password: string, recoveryCode: string) =>
+    remoteRequest<unknown>('PUT', '/api/auth/recovery-code', { password, recoveryCode }),
+  recover: (email: string, recoveryCode: string, newPassword: string) =>
+    remoteRequest<RemoteSession>('POST', '/api/auth/recover', { email, recoveryCode, newPassword }),
+  listProjects: () => remoteRequest<Project[]>('GET', '/api/projects'),
+  listAudits: (projectId: string) => remoteRequest<AuditRecord[]>('GET', `/api/projects/${id(projectId)}/audits`),
+
+  listOrganizations: () => remoteRequest<Organization[]>('GET', '/api/orgs'),
+  createOrganization: (name: string) => remoteRequest<Organization>('POST', '/api/orgs', { name }),
+  updateOrgMember: (orgId: string, userId: string, role: MemberRole | null) => role
+    ? remoteRequest<Organization>('PATCH', `/api/orgs/${id(orgId)}/members/${id(userId)}`, { role })
+    : remoteRequest<Organization>('DELETE', `/api/orgs/${id(orgId)}/members/${id(userId)}`),
+  setProjectOrganization: (projectId: string, orgId: string | null) =>
+    remoteRequest<Project>('PUT', `/api/projects/${id(projectId)}/organization`, { orgId }),
+  updateProjectShare: (projectId: string, userId: string, role: ShareRole | null) => role
+    ? remoteRequest<Project>('PATCH', `/api/projects/${id(projectId)}/shares/${id(userId)}`, { role })
+    : remoteRequest<Project>('DELETE', `/api/projects/${id(projectId)}/shares/${id(userId)}`),
+  listTargetInvitations: (target: Invitation['target']) =>
+    remoteRequest<Invitation[]>('GET', `/api/${target.type === 'project' ? 'projects' : 'orgs'}/${id(target.id)}/invitations`),
+  createInvitation: (target: Invitation['target'], email: string, role: MemberRole) =>
+    remoteRequest<Invitation>('POST', `/api/${target.type === 'project' ? 'projects' : 'orgs'}/${id(target.id)}/invitations`, { email, role }),
+  listInvitations: () => remoteRequest<Invitation[]>('GET', '/api/invitations'),
+  acceptInvitation: (inviteId: string) =>
+    remoteRequest<{ organization?: Organization; project?: Project }>('POST', `/api/invitations/${id(inviteId)}/accept`),
+  deleteInvitation: (inviteId: string) => remoteRequest<unknown>('DELETE', `/api/invitations/${id(inviteId)}`)
+};
+
+// Project and audit writes; returns the server's copy where it sends one back
+export function sendOperation(operation: SyncOperation): Promise<Project | AuditRecord | unknown> {
+  switch (operation.op) {
+    case 'createProject':
+      return remoteRequest<Project>('POST', '/api/projects', operation.project);
+    case 'updateProject':
+      return remoteRequest<Project>('PATCH', `/api/projects/${id(operation.projectId)}`, operation.updates);
+    case 'deleteProject':
+      return remoteRequest('DELETE', `/api/projects/${id(operation.projectId)}`);
+    case 'saveAudit':
+      return remoteRequest<AuditRecord>('POST', `/api/projects/${id(operation.audit.projectId)}/audits`, operation.audit);
+    case 'updateAudit':
+      return remoteRequest<AuditRecord>('PATCH', `/api/audits/${id(operation.auditId)}`, operation.updates);
+    case 'deleteAudit':
+      return remoteRequest('DELETE', `/api/audits/${id(operation.auditId)}`);
+  }
+}
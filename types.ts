@@ -10,22 +10,131 @@ export interface ComplianceLevel {
   violations: number;
 }
 
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export type WcagVersion = '2.0' | '2.1' | '2.2';
+
+export interface WcagCriterion {
+  id: string; // e.g. "1.4.3"
+  name: string;
+  level: WcagLevel;
+  principle: string;
+  guideline: string; // e.g. "1.4 Distinguishable"
+  understandingUrl: string;
+  introducedIn: WcagVersion;
+  removedIn?: WcagVersion; // 4.1.1 Parsing is obsolete in 2.2
+}
+
+export type ConformanceTarget = WcagLevel;
+
 export interface WcagCompliance {
   level_a: ComplianceLevel;
   level_aa: ComplianceLevel;
-  level_aaa: { not_tested: boolean };
+  level_aaa: { not_tested: boolean; pass?: boolean; violations?: number }; // Evaluated only when AAA is the target
+  target?: ConformanceTarget;
+  meets_target?: boolean;
+  wcag_version?: WcagVersion;
+}
+
+export type StandardId = 'section508' | 'en301549';
+
+export interface StandardClauseResult {
+  clause: string; // e.g. "9.1.4.3" or "E205.4 (WCAG 2.0 1.4.3)"
+  title: string;
+  wcag: string; // Underlying WCAG criterion id
+  violations: number;
+}
+
+export interface StandardCompliance {
+  standard: StandardId;
+  name: string;
+  version: string;
+  pass: boolean;
+  clauses_failed: StandardClauseResult[];
+  clauses_total: number; // Web content clauses assessed
+  out_of_scope: number; // Violations of criteria the standard doesn't incorporate
+}
+
+export type AcrConformance = 'Supports' | 'Partially Supports' | 'Does Not Support' | 'Not Applicable' | 'Not Evaluated';
+
+export interface AcrRowOverride {
+  criterionId: string;
+  conformance: AcrConformance;
+  remarks: string;
+  updatedAt: string;
+  updatedBy: string; // userId
+}
+
+export interface AcrRow {
+  criterionId: string;
+  name: string;
+  level: WcagLevel;
+  conformance: AcrConformance;
+  remarks: string;
+  violations: number;
+  overridden: boolean;
+}
+
+export interface AcrReport {
+  productName: string;
+  productVersion?: string;
+  websiteUrl?: string;
+  wcagVersion: WcagVersion;
+  target: WcagLevel;
+  auditVersions: number[];
+  evaluatedFrom: string; // Earliest audit timestamp
+  evaluatedTo: string; // Latest audit timestamp
+  generatedAt: string;
+  rows: AcrRow[];
+}
+
+export interface ScoringProfile {
+  profileId: string;
+  name: string;
+  version: number; // Bumped on every edit so audits record exactly which rules scored them
+  severityWeights: Record<Severity, number>; // Points deducted per violation
+  criterionMultipliers: Record<string, number>; // Keyed by criterion number, e.g. "1.4.3"
+  diminishingFactor: number; // 0-1; each repeat of a criterion deducts this fraction of the previous one. 1 disables
+  conformanceTarget: ConformanceTarget;
+  wcagVersion?: WcagVersion; // Defaults to 2.2
+  updatedAt: string;
+}
+
+export interface ScoringProfileRef {
+  profileId: string;
+  name: string;
+  version: number;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ContrastMeasurement {
+  ratio: number;
+  foreground: string; // hex colour
+  background: string; // hex colour
+  required: number; // AA threshold (1.4.3 / 1.4.11)
+  required_enhanced?: number; // AAA threshold (1.4.6), text only
+  large_text?: boolean;
 }
 
 export interface VisualEvidence {
   frame_timestamp: string;
   description: string;
   frame_image_url?: string;
+  bounding_box?: BoundingBox; // In extracted-frame pixels
+  contrast?: ContrastMeasurement;
 }
 
 export interface CodeEvidence {
-  file: string;
-  line: number;
+  file: string; // Page URL for scanner imports
+  line: number; // 0 when the source line is unknown
   snippet: string;
+  selector?: string; // CSS-like selector of the offending element, when known
 }
 
 export interface SuggestedFix {
@@ -33,6 +142,30 @@ export interface SuggestedFix {
   explanation: string;
 }
 
+export type TriageStatus = 'open' | 'in_progress' | 'fixed' | 'wont_fix' | 'false_positive';
+
+export interface TriageComment {
+  commentId: string;
+  userId: string;
+  authorName: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface ViolationTriage {
+  status: TriageStatus;
+  assignee?: string;
+  dueDate?: string; // YYYY-MM-DD
+  comments: TriageComment[];
+  updatedAt: string;
+  updatedBy?: string; // userId
+}
+
+// External scanners whose JSON results can be imported as an audit, see utils/scannerImport.ts
+export type ImportSource = 'axe-core' | 'lighthouse' | 'pa11y';
+
+export type ViolationSource = 'model' | 'static-analysis' | 'pixel-analysis' | ImportSource;
+
 export interface Violation {
   id?: string;
   severity: Severity;
@@ -44,6 +177,12 @@ export interface Violation {
   reasoning?: string;
   user_impact: string;
   suggested_fix: SuggestedFix;
+  source?: ViolationSource; // Which analyzer produced the finding; undefined means model
+  engine?: AuditEngineId; // Engine behind a model finding; absent on audits recorded before it was stored
+  fingerprint?: string; // Stable identity across audits, see utils/fingerprint.ts
+  first_seen_version?: number; // Earliest audit version of the project containing this fingerprint
+  triage?: ViolationTriage; // Absent means untriaged (treated as open)
+  suppressed_by?: string; // ruleId of the suppression rule that matched, see utils/suppression.ts
 }
 
 export interface AuditSummary {
@@ -57,24 +196,88 @@ export interface AuditSummary {
 export interface AuditReport {
   overall_score: number;
   wcag_compliance: WcagCompliance;
+  standards_compliance?: StandardCompliance[]; // Absent on reports saved before standards mapping
   violations: Violation[];
   summary: AuditSummary;
   analyzed_at?: string;
+  suppressed?: Violation[]; // Matched a suppression rule; excluded from scoring and summary
+}
+
+export type SuppressionMatch =
+  | { kind: 'fingerprint'; fingerprint: string }
+  | { kind: 'criterion-file'; criterion: string; file: string } // file accepts globs
+  | { kind: 'selector'; pattern: string }; // * matches any run of characters
+
+export interface SuppressionRule {
+  ruleId: string;
+  match: SuppressionMatch;
+  justification: string;
+  createdAt: string;
+  createdBy: string; // userId
+  expiresAt?: string; // YYYY-MM-DD; the rule stops applying after this day
 }
 
 export type AnalysisStatus = 'idle' | 'extracting' | 'analyzing' | 'complete' | 'error';
 
+// --- Audit Engine Types ---
+
+export type FrameSampleReason = 'first-frame' | 'scene-change' | 'interval';
+
+export interface VideoFrame {
+  timestamp: string;
+  data: string; // base64 JPEG without the data: prefix
+  reason?: FrameSampleReason; // Why the sampler kept this frame
+  change_score?: number; // 0-1 visual difference from the previously kept frame
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface AuditInput {
+  frames: VideoFrame[];
+  sourceFiles: SourceFile[];
+}
+
+export type AuditEngineId = 'gemini' | 'local';
+
+export interface AuditEngine {
+  id: AuditEngineId;
+  label: string;
+  analyze: (input: AuditInput) => Promise<{ violations: Violation[] }>;
+}
+
 // --- Auth & Project Types ---
 
+export interface PasswordHashParams {
+  version: number; // Bumped whenever the derivation changes; older hashes are upgraded at login
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Hex, random per user
+}
+
+// Single-use code for resetting a forgotten password without email; only its hash is kept
+export interface RecoveryCode {
+  hash: string;
+  params: PasswordHashParams;
+  createdAt: string;
+}
+
 export interface User {
   userId: string;
   email: string;
   passwordHash: string;
+  passwordHashParams?: PasswordHashParams; // Absent on accounts hashed with the original fixed salt
+  recoveryCode?: RecoveryCode;
   displayName: string;
   createdAt: string;
   lastLoginAt: string;
 }
 
+// An account as the sync server returns it, without credentials
+export type PublicUser = Omit<User, 'passwordHash' | 'passwordHashParams' | 'recoveryCode'>;
+
 export interface Project {
   projectId: string;
   userId: string;
@@ -85,6 +288,14 @@ export interface Project {
   updatedAt: string;
   auditCount: number;
   latestScore: number;
+  auditEngine?: AuditEngineId; // Falls back to AUDIT_ENGINE env config when unset
+  suppressionRules?: SuppressionRule[];
+  scoringProfiles?: ScoringProfile[];
+  activeScoringProfileId?: string; // Falls back to DEFAULT_SCORING_PROFILE when unset
+  acrOverrides?: AcrRowOverride[]; // Manual ACR rows, keyed by criterion id
+  orgId?: string; // Members of this organization get their organization role on the project
+  shares?: ProjectShare[]; // People given access to this project alone
+  syncedAt?: string; // Last stored from the sync server; absent while the project only exists locally
 }
 
 export interface AuditRecord {
@@ -108,4 +319,94 @@ export interface AuditRecord {
   };
   fullReport: AuditReport;
   notes?: string;
-}
\ No newline at end of file
+  scoringProfile?: ScoringProfileRef; // Absent on audits scored before profiles existed (default weights)
+  rescoredAt?: string;
+  source?: ImportSource; // Set on audits imported from a scanner; absent for recorded audits
+  syncedAt?: string; // Last stored from the sync server; absent while the audit only exists locally
+}
+// --- Workspace Backup Types ---
+
+export interface BackupFrame {
+  auditId: string;
+  timestamp: string;
+  data: string; // base64 JPEG without the data: prefix
+}
+
+export interface WorkspaceBackup {
+  format: 'echo-audit-backup';
+  version: number;
+  exportedAt: string;
+  exportedBy: { userId: string; email: string; displayName: string };
+  projects: { project: Project; audits: AuditRecord[] }[];
+  frames?: BackupFrame[]; // Only present when exported with frames
+}
+
+export interface BackupImportSummary {
+  projectsCreated: number;
+  projectsMerged: number;
+  auditsCreated: number;
+  auditsSkipped: number; // Already present in the target project
+  idsRemapped: number; // Project/audit ids reassigned because they were taken
+  framesImported: number;
+  warnings: string[];
+}
+
+// --- Storage Types ---
+
+export type StorageBackendKind = 'indexeddb' | 'localstorage';
+
+export interface StorageUsage {
+  backend: StorageBackendKind;
+  usage?: number; // Bytes used by this origin, when the browser reports it
+  quota?: number; // Bytes available to this origin
+  persisted?: boolean; // Exempt from eviction under storage pressure
+  migrationIssue?: string; // Why some or all localStorage data was not moved to IndexedDB
+}
+
+// --- Sync Types ---
+
+export interface SyncStatus {
+  enabled: boolean; // Built with ECHO_AUDIT_SERVER
+  signedIn: boolean; // Holds a server session; false after an offline sign-in
+  pending: number; // Changes queued while the server was unreachable
+  lastSyncedAt?: string;
+}
+
+// --- Team Types ---
+
+export type MemberRole = 'owner' | 'auditor' | 'developer' | 'viewer';
+export type ShareRole = Exclude<MemberRole, 'owner'>; // A project has exactly one owner
+
+export interface OrgMember {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: MemberRole;
+  addedAt: string;
+}
+
+export interface Organization {
+  orgId: string;
+  name: string;
+  createdAt: string;
+  createdBy: string;
+  members: OrgMember[];
+}
+
+export interface ProjectShare {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: ShareRole;
+  sharedAt: string;
+  sharedBy: string;
+}
+
+export interface Invitation {
+  inviteId: string;
+  email: string; // Only the account with this email can accept
+  role: MemberRole; // Never 'owner' for project invitations
+  target: { type: 'organization' | 'project'; id: string; name: string };
+  invitedBy: { userId: string; displayName: string };
+  createdAt: string;
+}
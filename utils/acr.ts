@@ -0,0 +1,261 @@
+import { AcrConformance, AcrReport, AcrRow, AcrRowOverride, AuditRecord, Project, Severity, Violation, WcagLevel, WcagVersion } from '../types';
+import { isInVersion, lookupCriterion, WCAG_CRITERIA } from './wcagCatalogue';
+import { dedupeViolations } from './fingerprint';
+import { decodeStoredText, escapeHtml } from './html';
+import { createZip } from './zipWriter';
+
+/**
+ * Accessibility Conformance Report (VPAT-style) built from one or more audits.
+ * Each WCAG criterion up to the target level becomes a row whose conformance is
+ * derived from the findings against it; project-level overrides replace the
+ * derived values so manual judgements survive regeneration.
+ */
+
+export const ACR_CONFORMANCE_LEVELS: AcrConformance[] = [
+  'Supports',
+  'Partially Supports',
+  'Does Not Support',
+  'Not Applicable',
+  'Not Evaluated'
+];
+
+export interface AcrOptions {
+  productName?: string;
+  productVersion?: string;
+  wcagVersion?: WcagVersion;
+  target?: WcagLevel;
+}
+
+const LEVELS_FOR_TARGET: Record<WcagLevel, WcagLevel[]> = {
+  A: ['A'],
+  AA: ['A', 'AA'],
+  AAA: ['A', 'AA', 'AAA']
+};
+
+// Audio and time-based media can't be judged from sampled frames and source alone
+const needsManualReview = (criterionId: string) => criterionId.startsWith('1.2.') || criterionId === '1.4.2';
+
+function describeLocation(v: Violation): string {
+  if (v.code_evidence?.file) return v.code_evidence.line > 0 ? `${v.code_evidence.file}:${v.code_evidence.line}` : v.code_evidence.file;
+  if (v.visual_evidence?.frame_timestamp) return `at ${v.visual_evidence.frame_timestamp} in recording`;
+  return '';
+}
+
+function deriveRemarks(violations: Violation[]): string {
+  const shown = violations.slice(0, 3).map(v => {
+    const location = describeLocation(v);
+    return `${decodeStoredText(v.title)}${location ? ` (${location})` : ''}`;
+  });
+  const more = violations.length > shown.length ? `; and ${violations.length - shown.length} more` : '';
+  return `${violations.length} issue${violations.length === 1 ? '' : 's'} found: ${shown.join('; ')}${more}.`;
+}
+
+function deriveConformance(violations: Violation[]): AcrConformance {
+  const blocking = violations.some(v => v.severity === Severity.CRITICAL || v.severity === Severity.HIGH);
+  return blocking ? 'Does Not Support' : 'Partially Supports';
+}
+
+export function buildAcr(
+  project: Project,
+  audits: AuditRecord[],
+  options: AcrOptions = {},
+  overrides: AcrRowOverride[] = project.acrOverrides || []
+): AcrReport {
+  if (audits.length === 0) throw new Error('Select at least one audit');
+  const wcagVersion = options.wcagVersion || '2.2';
+  const target = options.target || 'AA';
+  const sorted = [...audits].sort((a, b) => a.auditVersion - b.auditVersion);
+  const versionList = sorted.map(a => `v${a.auditVersion}`).join(', ');
+
+  // Merged audits report each distinct finding once; confirmed false positives don't count against a row
+  const findings = dedupeViolations(sorted.flatMap(a => a.fullReport?.violations || []))
+    .filter(v => v.triage?.status !== 'false_positive');
+
+  const byCriterion = new Map<string, Violation[]>();
+  for (const v of findings) {
+    const id = lookupCriterion(v.wcag_criterion)?.id;
+    if (id) byCriterion.set(id, [...(byCriterion.get(id) || []), v]);
+  }
+
+  const overrideById = new Map(overrides.map(o => [o.criterionId, o]));
+  const levels = LEVELS_FOR_TARGET[target];
+
+  const rows: AcrRow[] = WCAG_CRITERIA
+    .filter(c => isInVersion(c, wcagVersion) && levels.includes(c.level))
+    .map(c => {
+      const violations = byCriterion.get(c.id) || [];
+      const override = overrideById.get(c.id);
+      const derived: Pick<AcrRow, 'conformance' | 'remarks'> = violations.length > 0
+        ? { conformance: deriveConformance(violations), remarks: deriveRemarks(violations) }
+        : needsManualReview(c.id)
+          ? { conformance: 'Not Evaluated', remarks: 'Audio and time-based media require manual review.' }
+          : { conformance: 'Supports', remarks: `No issues found in audited flows (${versionList}).` };
+      return {
+        criterionId: c.id,
+        name: c.name,
+        level: c.level,
+        violations: violations.length,
+        ...(override ? { conformance: override.conformance, remarks: decodeStoredText(override.remarks) } : derived),
+        overridden: !!override
+      };
+    });
+
+  return {
+    productName: decodeStoredText(options.productName || project.projectName),
+    productVersion: options.productVersion,
+    websiteUrl: project.websiteUrl ? decodeStoredText(project.websiteUrl) : undefined,
+    wcagVersion,
+    target,
+    auditVersions: sorted.map(a => a.auditVersion),
+    evaluatedFrom: sorted[0].timestamp,
+    evaluatedTo: sorted[sorted.length - 1].timestamp,
+    generatedAt: new Date().toISOString(),
+    rows
+  };
+}
+
+export function summarizeAcr(report: AcrReport): Record<AcrConformance, number> {
+  const counts = Object.fromEntries(ACR_CONFORMANCE_LEVELS.map(c => [c, 0])) as Record<AcrConformance, number>;
+  report.rows.forEach(row => counts[row.conformance]++);
+  return counts;
+}
+
+const formatDate = (iso: string) => new Date(iso).toISOString().slice(0, 10);
+
+const evaluationPeriod = (report: AcrReport) => {
+  const from = formatDate(report.evaluatedFrom);
+  const to = formatDate(report.evaluatedTo);
+  return from === to ? from : `${from} to ${to}`;
+};
+
+const tableTitle = (report: AcrReport, level: WcagLevel) =>
+  `Table: WCAG ${report.wcagVersion} Success Criteria, Level ${level}`;
+
+// ============= HTML =============
+
+export function renderAcrHtml(report: AcrReport): string {
+  const levels = LEVELS_FOR_TARGET[report.target];
+  const title = `${report.productName} Accessibility Conformance Report`;
+
+  const tables = levels.map(level => {
+    const rows = report.rows.filter(r => r.level === level).map(r => `
+        <tr>
+          <th scope="row">${escapeHtml(`${r.criterionId} ${r.name}`)} (Level ${r.level})</th>
+          <td>${escapeHtml(r.conformance)}</td>
+          <td>${escapeHtml(r.remarks)}</td>
+        </tr>`).join('');
+    return `
+    <h2>${escapeHtml(tableTitle(report, level))}</h2>
+    <table>
+      <thead><tr><th scope="col">Criteria</th><th scope="col">Conformance Level</th><th scope="col">Remarks and Explanations</th></tr></thead>
+      <tbody>${rows}
+      </tbody>
+    </table>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, Segoe UI, sans-serif; color: #111; max-width: 1000px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+    th, td { border: 1px solid #666; padding: 0.5rem; text-align: left; vertical-align: top; }
+    thead th { background: #e8e8f0; }
+    tbody th { font-weight: 600; width: 30%; }
+    dt { font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>Based on VPAT® 2.5 format, WCAG edition</p>
+  <dl>
+    <dt>Name of Product/Version</dt><dd>${escapeHtml(report.productName)}${report.productVersion ? ` ${escapeHtml(report.productVersion)}` : ''}</dd>
+    ${report.websiteUrl ? `<dt>Website</dt><dd>${escapeHtml(report.websiteUrl)}</dd>` : ''}
+    <dt>Report Date</dt><dd>${formatDate(report.generatedAt)}</dd>
+    <dt>Evaluation Methods Used</dt><dd>Echo-Audit automated review of screen recordings and source code (audit ${report.auditVersions.map(v => `v${v}`).join(', ')}, ${evaluationPeriod(report)}), with manual review of flagged items.</dd>
+    <dt>Applicable Standards</dt><dd>Web Content Accessibility Guidelines ${report.wcagVersion}, Level ${levels.join(' and ')}</dd>
+  </dl>
+  <h2>Terms</h2>
+  <ul>
+    <li><strong>Supports</strong>: The functionality of the product has at least one method that meets the criterion without known defects.</li>
+    <li><strong>Partially Supports</strong>: Some functionality of the product does not meet the criterion.</li>
+    <li><strong>Does Not Support</strong>: The majority of product functionality does not meet the criterion.</li>
+    <li><strong>Not Applicable</strong>: The criterion is not relevant to the product.</li>
+    <li><strong>Not Evaluated</strong>: The product has not been evaluated against the criterion.</li>
+  </ul>
+  ${tables}
+</body>
+</html>
+`;
+}
+
+// ============= DOCX =============
+
+const xmlEscape = (text: string) => escapeHtml(text).replace(/&#39;/g, '&apos;');
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t xml:space="preserve">${xmlEscape(text)}</w:t></w:r></w:p>`;
+
+const boldParagraph = (text: string) =>
+  `<w:p><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">${xmlEscape(text)}</w:t></w:r></w:p>`;
+
+const cell = (content: string, width: number, header = false) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="E8E8F0"/>' : ''}</w:tcPr>${content}</w:tc>`;
+
+const COLUMN_WIDTHS = [3000, 2000, 4600];
+
+function docxTable(report: AcrReport, level: WcagLevel): string {
+  const border = '<w:top w:val="single" w:sz="4" w:color="666666"/><w:left w:val="single" w:sz="4" w:color="666666"/><w:bottom w:val="single" w:sz="4" w:color="666666"/><w:right w:val="single" w:sz="4" w:color="666666"/><w:insideH w:val="single" w:sz="4" w:color="666666"/><w:insideV w:val="single" w:sz="4" w:color="666666"/>';
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${['Criteria', 'Conformance Level', 'Remarks and Explanations']
+    .map((h, i) => cell(boldParagraph(h), COLUMN_WIDTHS[i], true)).join('')}</w:tr>`;
+  const rows = report.rows.filter(r => r.level === level).map(r =>
+    `<w:tr>${cell(boldParagraph(`${r.criterionId} ${r.name} (Level ${r.level})`), COLUMN_WIDTHS[0])}${cell(paragraph(r.conformance), COLUMN_WIDTHS[1])}${cell(paragraph(r.remarks), COLUMN_WIDTHS[2])}</w:tr>`
+  ).join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="${COLUMN_WIDTHS.reduce((a, b) => a + b, 0)}" w:type="dxa"/><w:tblBorders>${border}</w:tblBorders></w:tblPr><w:tblGrid>${COLUMN_WIDTHS.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${header}${rows}</w:tbl>`;
+}
+
+export function renderAcrDocx(report: AcrReport): Blob {
+  const levels = LEVELS_FOR_TARGET[report.target];
+  const body = [
+    paragraph(`${report.productName} Accessibility Conformance Report`, 'Title'),
+    paragraph('Based on VPAT® 2.5 format, WCAG edition'),
+    boldParagraph('Name of Product/Version'),
+    paragraph(`${report.productName}${report.productVersion ? ` ${report.productVersion}` : ''}`),
+    ...(report.websiteUrl ? [boldParagraph('Website'), paragraph(report.websiteUrl)] : []),
+    boldParagraph('Report Date'),
+    paragraph(formatDate(report.generatedAt)),
+    boldParagraph('Evaluation Methods Used'),
+    paragraph(`Echo-Audit automated review of screen recordings and source code (audit ${report.auditVersions.map(v => `v${v}`).join(', ')}, ${evaluationPeriod(report)}), with manual review of flagged items.`),
+    boldParagraph('Applicable Standards'),
+    paragraph(`Web Content Accessibility Guidelines ${report.wcagVersion}, Level ${levels.join(' and ')}`),
+    ...levels.flatMap(level => [paragraph(tableTitle(report, level), 'Heading1'), docxTable(report, level), paragraph('')])
+  ].join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style></w:styles>`;
+
+  return new Blob([createZip([
+    {
+      path: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`
+    },
+    {
+      path: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+    },
+    {
+      path: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    },
+    { path: 'word/document.xml', data: document },
+    { path: 'word/styles.xml', data: styles }
+  ])], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+}
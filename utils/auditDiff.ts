@@ -0,0 +1,96 @@
+import { AuditRecord, Violation } from '../types';
+import { SEVERITY_RANK, criterionId, withFingerprint } from './fingerprint';
+
+/**
+ * Compares two audits of the same project by violation fingerprint.
+ * "base" is the older audit, "target" the newer one.
+ */
+
+export interface PersistingViolation {
+  before: Violation;
+  after: Violation;
+  severityDelta: number; // > 0 got worse, < 0 improved
+}
+
+export interface CriterionChange {
+  criterion: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface AuditDiff {
+  introduced: Violation[];
+  resolved: Violation[];
+  persisting: PersistingViolation[];
+  criteria: CriterionChange[];
+  scoreDelta: number;
+}
+
+const byFingerprint = (audit: AuditRecord) => {
+  const map = new Map<string, Violation>();
+  for (const v of (audit.fullReport?.violations || []).map(withFingerprint)) {
+    if (!map.has(v.fingerprint!)) map.set(v.fingerprint!, v);
+  }
+  return map;
+};
+
+const countByCriterion = (violations: Iterable<Violation>) => {
+  const counts = new Map<string, number>();
+  for (const v of violations) {
+    const id = criterionId(v.wcag_criterion);
+    counts.set(id, (counts.get(id) || 0) + 1);
+  }
+  return counts;
+};
+
+const compareCriteria = (a: string, b: string) => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0 && !isNaN(diff)) return diff;
+  }
+  return a.localeCompare(b);
+};
+
+export function diffAudits(base: AuditRecord, target: AuditRecord): AuditDiff {
+  const before = byFingerprint(base);
+  const after = byFingerprint(target);
+
+  const introduced: Violation[] = [];
+  const persisting: PersistingViolation[] = [];
+  for (const [fingerprint, v] of after) {
+    const previous = before.get(fingerprint);
+    if (!previous) {
+      introduced.push(v);
+    } else {
+      persisting.push({
+        before: previous,
+        after: v,
+        severityDelta: SEVERITY_RANK[v.severity] - SEVERITY_RANK[previous.severity]
+      });
+    }
+  }
+  const resolved = Array.from(before.values()).filter(v => !after.has(v.fingerprint!));
+
+  const beforeCounts = countByCriterion(before.values());
+  const afterCounts = countByCriterion(after.values());
+  const criteria = Array.from(new Set([...beforeCounts.keys(), ...afterCounts.keys()]))
+    .sort(compareCriteria)
+    .map(criterion => {
+      const b = beforeCounts.get(criterion) || 0;
+      const a = afterCounts.get(criterion) || 0;
+      return { criterion, before: b, after: a, delta: a - b };
+    });
+
+  const bySeverity = (x: Violation, y: Violation) => SEVERITY_RANK[y.severity] - SEVERITY_RANK[x.severity];
+
+  return {
+    introduced: introduced.sort(bySeverity),
+    resolved: resolved.sort(bySeverity),
+    persisting: persisting.sort((x, y) => bySeverity(x.after, y.after)),
+    criteria,
+    scoreDelta: target.accessibilityScore - base.accessibilityScore
+  };
+}
@@ -0,0 +1,229 @@
+import { AuditRecord, Project, Severity, Violation } from '../types';
+import { lookupCriterion, formatCriterion } from './wcagCatalogue';
+import { withFingerprint } from './fingerprint';
+import { decodeStoredText } from './html';
+
+/**
+ * Machine-readable exports of one audit or a whole project's history:
+ *  - json:  the stored AuditRecords as-is
+ *  - csv:   one row per violation
+ *  - sarif: SARIF 2.1.0, one run per audit; code-evidence findings only, since
+ *           code-scanning viewers need a file location to show a result
+ *  - earl:  W3C EARL assertions as JSON-LD
+ */
+
+export type ExportFormat = 'json' | 'csv' | 'sarif' | 'earl';
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'sarif', label: 'SARIF 2.1' },
+  { value: 'earl', label: 'EARL (JSON-LD)' }
+];
+
+const TOOL_NAME = 'Echo-Audit';
+
+// ============= JSON =============
+
+function toJson(project: Project, audits: AuditRecord[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), project, audits }, null, 2);
+}
+
+// ============= CSV =============
+
+const CSV_COLUMNS = [
+  'project', 'audit_version', 'audit_id', 'audit_timestamp', 'fingerprint', 'severity', 'wcag_criterion',
+  'wcag_level', 'title', 'description', 'user_impact', 'file', 'line', 'selector', 'frame_timestamp',
+  'source', 'triage_status', 'assignee', 'first_seen_version', 'suggested_fix'
+] as const;
+
+// RFC 4180 quoting; leading =+-@ are prefixed so spreadsheets don't evaluate cells as formulas
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(project: Project, audits: AuditRecord[]): string {
+  const rows = audits.flatMap(audit => (audit.fullReport?.violations || []).map(raw => {
+    const v = withFingerprint(raw);
+    const record: Record<typeof CSV_COLUMNS[number], string | number | undefined> = {
+      project: decodeStoredText(project.projectName),
+      audit_version: audit.auditVersion,
+      audit_id: audit.auditId,
+      audit_timestamp: audit.timestamp,
+      fingerprint: v.fingerprint,
+      severity: v.severity,
+      wcag_criterion: v.wcag_criterion,
+      wcag_level: lookupCriterion(v.wcag_criterion)?.level,
+      title: v.title,
+      description: v.description,
+      user_impact: v.user_impact,
+      file: v.code_evidence?.file,
+      line: v.code_evidence?.line,
+      selector: v.code_evidence?.selector,
+      frame_timestamp: v.visual_evidence?.frame_timestamp,
+      source: v.source || 'model',
+      triage_status: v.triage?.status || 'open',
+      assignee: v.triage?.assignee && decodeStoredText(v.triage.assignee),
+      first_seen_version: v.first_seen_version,
+      suggested_fix: v.suggested_fix.explanation
+    };
+    return CSV_COLUMNS.map(column => csvCell(record[column])).join(',');
+  }));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// ============= SARIF =============
+
+const SARIF_LEVEL: Record<Severity, 'error' | 'warning' | 'note'> = {
+  [Severity.CRITICAL]: 'error',
+  [Severity.HIGH]: 'error',
+  [Severity.MEDIUM]: 'warning',
+  [Severity.LOW]: 'note'
+};
+
+// Code-scanning viewers resolve URIs relative to the repository root
+const sarifUri = (file: string) => file.replace(/\\/g, '/').replace(/^\.?\//, '');
+
+const ruleIdFor = (v: Violation) => lookupCriterion(v.wcag_criterion)?.id || v.wcag_criterion;
+
+function sarifRun(audit: AuditRecord) {
+  const results = (audit.fullReport?.violations || [])
+    .filter(v => v.code_evidence?.file)
+    .map(withFingerprint);
+
+  const ruleIds = Array.from(new Set(results.map(ruleIdFor)));
+  const rules = ruleIds.map(id => {
+    const criterion = lookupCriterion(id);
+    return {
+      id,
+      name: criterion ? criterion.name.replace(/[^A-Za-z0-9]+/g, '') : id,
+      shortDescription: { text: criterion ? formatCriterion(criterion) : id },
+      ...(criterion && { helpUri: criterion.understandingUrl }),
+      properties: {
+        tags: ['accessibility', 'wcag', ...(criterion ? [`wcag-${criterion.level.toLowerCase()}`] : [])]
+      }
+    };
+  });
+
+  return {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        informationUri: 'https://www.w3.org/WAI/standards-guidelines/wcag/',
+        rules
+      }
+    },
+    automationDetails: { id: `echo-audit/${audit.projectId}/v${audit.auditVersion}` },
+    invocations: [{ executionSuccessful: true, endTimeUtc: audit.timestamp }],
+    results: results.map(v => ({
+      ruleId: ruleIdFor(v),
+      ruleIndex: ruleIds.indexOf(ruleIdFor(v)),
+      level: SARIF_LEVEL[v.severity],
+      message: { text: `${v.title}: ${v.description}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: sarifUri(v.code_evidence!.file) },
+          region: {
+            startLine: Math.max(1, v.code_evidence!.line || 1),
+            snippet: { text: v.code_evidence!.snippet }
+          }
+        }
+      }],
+      partialFingerprints: { 'echoAudit/v1': v.fingerprint },
+      ...(v.suggested_fix.explanation && {
+        fixes: [{ description: { text: v.suggested_fix.explanation } }]
+      }),
+      properties: { severity: v.severity, userImpact: v.user_impact, source: v.source || 'model' }
+    }))
+  };
+}
+
+function toSarif(audits: AuditRecord[]): string {
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: audits.map(sarifRun)
+  }, null, 2);
+}
+
+// ============= EARL =============
+
+const EARL_CONTEXT = {
+  earl: 'http://www.w3.org/ns/earl#',
+  dct: 'http://purl.org/dc/terms/',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  ptr: 'http://www.w3.org/2009/pointers#',
+  WCAG22: 'https://www.w3.org/WAI/WCAG22/Understanding/',
+  'earl:outcome': { '@type': '@id' },
+  'earl:mode': { '@type': '@id' },
+  'earl:test': { '@type': '@id' }
+};
+
+function toEarl(project: Project, audits: AuditRecord[]): string {
+  const assertor = {
+    '@id': '_:echo-audit',
+    '@type': ['earl:Assertor', 'earl:Software'],
+    'dct:title': TOOL_NAME
+  };
+
+  const graph = audits.flatMap(audit => {
+    const subject = {
+      '@id': `_:audit-${audit.auditId}`,
+      '@type': 'earl:TestSubject',
+      'dct:title': `${decodeStoredText(project.projectName)} (audit v${audit.auditVersion})`,
+      ...(project.websiteUrl && { 'dct:source': decodeStoredText(project.websiteUrl) }),
+      'dct:date': audit.timestamp
+    };
+
+    const assertions = (audit.fullReport?.violations || []).map(raw => {
+      const v = withFingerprint(raw);
+      const criterion = lookupCriterion(v.wcag_criterion);
+      const pointer = v.code_evidence?.file
+        ? { '@type': 'ptr:LineCharPointer', 'ptr:reference': v.code_evidence.file, 'ptr:lineNumber': v.code_evidence.line }
+        : v.visual_evidence
+          ? { '@type': 'ptr:Pointer', 'dct:description': `Recording frame at ${v.visual_evidence.frame_timestamp}` }
+          : undefined;
+      return {
+        '@type': 'earl:Assertion',
+        'earl:assertedBy': assertor['@id'],
+        'earl:subject': subject['@id'],
+        'earl:test': criterion ? criterion.understandingUrl : v.wcag_criterion,
+        // Rule checks and scanners are deterministic; model findings are meant to be reviewed
+        'earl:mode': v.source && v.source !== 'model' ? 'earl:automatic' : 'earl:semiAuto',
+        'earl:result': {
+          '@type': 'earl:TestResult',
+          'earl:outcome': 'earl:failed',
+          'dct:title': v.title,
+          'dct:description': v.description,
+          'dct:date': audit.timestamp,
+          ...(pointer && { 'earl:pointer': pointer }),
+          'dct:identifier': v.fingerprint
+        }
+      };
+    });
+
+    return [subject, ...assertions];
+  });
+
+  return JSON.stringify({ '@context': EARL_CONTEXT, '@graph': [assertor, ...graph] }, null, 2);
+}
+
+// ============= ENTRY POINT =============
+
+export function exportAudits(format: ExportFormat, project: Project, audits: AuditRecord[]): ExportFile {
+  switch (format) {
+    case 'json': return { content: toJson(project, audits), mimeType: 'application/json', extension: 'json' };
+    case 'csv': return { content: toCsv(project, audits), mimeType: 'text/csv', extension: 'csv' };
+    case 'sarif': return { content: toSarif(audits), mimeType: 'application/sarif+json', extension: 'sarif' };
+    case 'earl': return { content: toEarl(project, audits), mimeType: 'application/ld+json', extension: 'jsonld' };
+  }
+}
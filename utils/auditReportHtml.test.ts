@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { AuditRecord, Project, Severity, Violation } from '../types';
+import { renderAuditReportHtml } from './auditReportHtml';
+import { generateAuditReport } from './scoring';
+
+const violation: Violation = {
+  severity: Severity.HIGH,
+  wcag_criterion: '1.1.1',
+  title: 'Image <img> has no alt',
+  description: 'The hero image has no text alternative.',
+  visual_evidence: { frame_timestamp: '00:04', description: 'Hero banner', frame_image_url: 'frame://aud_1/00:04' },
+  code_evidence: { file: 'src/Hero.tsx', line: 12, snippet: '<img src={hero} />' },
+  user_impact: 'Screen reader users miss the offer.',
+  suggested_fix: { code: '<img src={hero} alt="Spring sale" />', explanation: 'Describe the image.' }
+};
+
+// Stored as sanitizeInput writes it: markup characters entity-encoded, "&" left alone
+const project: Project = {
+  projectId: 'proj_1',
+  userId: 'user_1',
+  projectName: 'R&D &lt;Portal&gt;',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  auditCount: 3,
+  latestScore: 92
+};
+
+const audit: AuditRecord = {
+  auditId: 'aud_1',
+  projectId: 'proj_1',
+  userId: 'user_1',
+  auditVersion: 3,
+  timestamp: '2026-03-01T10:00:00.000Z',
+  accessibilityScore: 92,
+  wcagCompliance: { levelA: false, levelAA: false, levelAAA: false },
+  totalViolations: 1,
+  violationsBySeverity: { critical: 0, high: 1, medium: 0, low: 0 },
+  fullReport: generateAuditReport([violation]),
+  notes: 'Checked with &quot;NVDA&quot;'
+};
+
+describe('renderAuditReportHtml', () => {
+  it('escapes findings and decodes stored text before escaping it once', () => {
+    const html = renderAuditReportHtml(audit, project);
+
+    expect(html).toContain('<title>R&amp;D &lt;Portal&gt; — Accessibility Audit v3</title>');
+    expect(html).toContain('Image &lt;img&gt; has no alt');
+    expect(html).toContain('&lt;img src={hero} alt=&quot;Spring sale&quot; /&gt;');
+    expect(html).toContain('Checked with &quot;NVDA&quot;');
+    expect(html).not.toContain('<img src={hero}');
+  });
+
+  it('links the criterion, cites the source line and groups findings by severity', () => {
+    const html = renderAuditReportHtml(audit, project);
+
+    expect(html).toContain('<h3 id="section-high">High Priority (1)</h3>');
+    expect(html).toContain('1.1.1 Non-text Content</a> (Level A)');
+    expect(html).toContain('<p class="file">src/Hero.tsx:12</p>');
+  });
+
+  it('inlines supplied frames and prefers edited notes', () => {
+    const html = renderAuditReportHtml(audit, project, {
+      frames: { 'frame://aud_1/00:04': 'data:image/jpeg;base64,AAAA' },
+      notes: 'Retest after fix'
+    });
+
+    expect(html).toContain('<img src="data:image/jpeg;base64,AAAA" alt="Recording frame at 00:04">');
+    expect(html).toContain('Retest after fix');
+  });
+});
@@ -0,0 +1,172 @@
+import { AuditRecord, Project, Severity, Violation } from '../types';
+import { lookupCriterion } from './wcagCatalogue';
+import { mapToStandards } from './standardsMapping';
+import { escapeHtml, escapeStored } from './html';
+
+/**
+ * Standalone audit report: one HTML file with inline styles and images, readable
+ * offline and attachable to tickets. The same document carries print styles so
+ * "Save as PDF" from the browser print dialog gives a paginated version.
+ */
+
+export interface AuditReportHtmlOptions {
+  notes?: string; // Latest notes if edited since the audit was loaded
+  frames?: Record<string, string>; // frame_image_url -> data: URL
+}
+
+const SEVERITY_SECTIONS: { severity: Severity; label: string }[] = [
+  { severity: Severity.CRITICAL, label: 'Critical' },
+  { severity: Severity.HIGH, label: 'High Priority' },
+  { severity: Severity.MEDIUM, label: 'Medium Priority' },
+  { severity: Severity.LOW, label: 'Low Priority' }
+];
+
+const passFail = (pass: boolean) =>
+  pass ? '<span class="pass">Pass</span>' : '<span class="fail">Fail</span>';
+
+function renderViolation(v: Violation, index: number, frames: Record<string, string>): string {
+  const criterion = lookupCriterion(v.wcag_criterion);
+  const criterionHtml = criterion
+    ? `<a href="${escapeHtml(criterion.understandingUrl)}">${escapeHtml(`${criterion.id} ${criterion.name}`)}</a> (Level ${criterion.level})`
+    : escapeHtml(v.wcag_criterion);
+  const frame = v.visual_evidence?.frame_image_url ? frames[v.visual_evidence.frame_image_url] : undefined;
+
+  return `
+      <article class="violation ${v.severity}" aria-labelledby="violation-${index}">
+        <h4 id="violation-${index}">${escapeHtml(v.title)}</h4>
+        <p class="meta"><span class="badge">${escapeHtml(v.severity)}</span> ${criterionHtml}${v.triage ? ` · Status: ${escapeHtml(v.triage.status.replace('_', ' '))}` : ''}</p>
+        <p>${escapeHtml(v.description)}</p>
+        <p><strong>User impact:</strong> ${escapeHtml(v.user_impact)}</p>
+        ${v.visual_evidence ? `
+        <figure>
+          ${frame ? `<img src="${frame}" alt="Recording frame at ${escapeHtml(v.visual_evidence.frame_timestamp)}">` : ''}
+          <figcaption>Visual evidence at ${escapeHtml(v.visual_evidence.frame_timestamp)}: ${escapeHtml(v.visual_evidence.description)}</figcaption>
+        </figure>` : ''}
+        ${v.code_evidence ? `
+        <p class="file">${escapeHtml(v.code_evidence.line > 0 ? `${v.code_evidence.file}:${v.code_evidence.line}` : v.code_evidence.file)}</p>
+        <pre><code>${escapeHtml(v.code_evidence.snippet)}</code></pre>` : ''}
+        <h5>Suggested fix</h5>
+        ${v.suggested_fix.code ? `<pre class="fix"><code>${escapeHtml(v.suggested_fix.code)}</code></pre>` : ''}
+        <p>${escapeHtml(v.suggested_fix.explanation)}</p>
+      </article>`;
+}
+
+export function renderAuditReportHtml(audit: AuditRecord, project: Project, options: AuditReportHtmlOptions = {}): string {
+  const report = audit.fullReport;
+  const violations = report?.violations || [];
+  const frames = options.frames || {};
+  const notes = options.notes ?? audit.notes ?? '';
+  const standards = report?.standards_compliance || mapToStandards(violations);
+  const title = `${escapeStored(project.projectName)} — Accessibility Audit v${audit.auditVersion}`;
+  let index = 0;
+
+  const sections = SEVERITY_SECTIONS.map(({ severity, label }) => {
+    const group = violations.filter(v => v.severity === severity);
+    if (group.length === 0) return '';
+    return `
+    <section aria-labelledby="section-${severity}">
+      <h3 id="section-${severity}">${label} (${group.length})</h3>
+      ${group.map(v => renderViolation(v, index++, frames)).join('')}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, Segoe UI, sans-serif; color: #1a1a1a; background: #fff; max-width: 960px; margin: 0 auto; padding: 2rem 1rem; line-height: 1.5; }
+    a { color: #1d4ed8; }
+    h1 { margin-bottom: 0.25rem; }
+    .subtitle { color: #4a4a4a; margin-top: 0; }
+    .score { font-size: 3rem; font-weight: 700; margin: 0; }
+    table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+    th, td { border: 1px solid #767676; padding: 0.4rem 0.6rem; text-align: left; }
+    thead th { background: #f0f0f5; }
+    .pass { color: #166534; font-weight: 600; }
+    .fail { color: #b91c1c; font-weight: 600; }
+    .violation { border: 1px solid #d4d4d8; border-left-width: 6px; border-radius: 4px; padding: 0.75rem 1rem; margin: 1rem 0; break-inside: avoid; }
+    .violation.critical { border-left-color: #b91c1c; }
+    .violation.high { border-left-color: #c2410c; }
+    .violation.medium { border-left-color: #a16207; }
+    .violation.low { border-left-color: #1d4ed8; }
+    .violation h4 { margin: 0 0 0.25rem; font-size: 1.1rem; }
+    .meta { color: #4a4a4a; font-size: 0.9rem; margin-top: 0; }
+    .badge { text-transform: uppercase; font-weight: 700; font-size: 0.75rem; border: 1px solid currentColor; border-radius: 3px; padding: 0 0.3rem; }
+    .file { font-family: ui-monospace, monospace; font-size: 0.85rem; color: #4a4a4a; margin-bottom: 0.25rem; }
+    pre { background: #f4f4f5; border: 1px solid #d4d4d8; border-radius: 4px; padding: 0.6rem; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font-size: 0.85rem; }
+    pre.fix { background: #f0fdf4; border-color: #bbf7d0; }
+    figure { margin: 0.75rem 0; }
+    figure img { max-width: 100%; border: 1px solid #d4d4d8; border-radius: 4px; }
+    figcaption { font-size: 0.9rem; color: #4a4a4a; }
+    .notes { white-space: pre-wrap; }
+    nav ul { padding-left: 1.25rem; }
+    @media print {
+      body { max-width: none; padding: 0; font-size: 11pt; }
+      nav { display: none; }
+      a { color: inherit; }
+      a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.8em; color: #4a4a4a; }
+      h2, h3 { break-after: avoid; }
+      pre { white-space: pre-wrap; }
+      @page { margin: 1.5cm; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${title}</h1>
+    <p class="subtitle">${new Date(audit.timestamp).toLocaleString()}${project.websiteUrl ? ` · ${escapeStored(project.websiteUrl)}` : ''}</p>
+  </header>
+  <nav aria-label="Report sections">
+    <ul>
+      <li><a href="#summary">Summary</a></li>
+      <li><a href="#compliance">Compliance</a></li>
+      <li><a href="#violations">Violations</a></li>
+      <li><a href="#notes">Notes</a></li>
+    </ul>
+  </nav>
+  <main>
+    <section id="summary" aria-labelledby="summary-heading">
+      <h2 id="summary-heading">Summary</h2>
+      <p class="score">${audit.accessibilityScore}<span class="subtitle"> / 100</span></p>
+      ${audit.scoringProfile ? `<p class="subtitle">Scored with the ${escapeStored(audit.scoringProfile.name)} profile (v${audit.scoringProfile.version})</p>` : ''}
+      <table>
+        <caption class="subtitle">Violations by severity</caption>
+        <thead><tr><th scope="col">Critical</th><th scope="col">High</th><th scope="col">Medium</th><th scope="col">Low</th><th scope="col">Total</th></tr></thead>
+        <tbody><tr><td>${audit.violationsBySeverity.critical}</td><td>${audit.violationsBySeverity.high}</td><td>${audit.violationsBySeverity.medium}</td><td>${audit.violationsBySeverity.low}</td><td>${audit.totalViolations}</td></tr></tbody>
+      </table>
+      ${report?.suppressed?.length ? `<p class="subtitle">${report.suppressed.length} finding(s) suppressed by project rules are excluded.</p>` : ''}
+    </section>
+
+    <section id="compliance" aria-labelledby="compliance-heading">
+      <h2 id="compliance-heading">Compliance</h2>
+      <table>
+        <thead><tr><th scope="col">Standard</th><th scope="col">Result</th><th scope="col">Details</th></tr></thead>
+        <tbody>
+          <tr><th scope="row">WCAG ${report?.wcag_compliance.wcag_version || '2.2'} Level A</th><td>${passFail(audit.wcagCompliance.levelA)}</td><td>${report?.wcag_compliance.level_a.violations ?? 0} violation(s)</td></tr>
+          <tr><th scope="row">WCAG ${report?.wcag_compliance.wcag_version || '2.2'} Level AA</th><td>${passFail(audit.wcagCompliance.levelAA)}</td><td>${report?.wcag_compliance.level_aa.violations ?? 0} violation(s)</td></tr>
+          <tr><th scope="row">WCAG Level AAA</th><td>${report?.wcag_compliance.level_aaa.not_tested ? 'Not tested' : passFail(audit.wcagCompliance.levelAAA)}</td><td>${report?.wcag_compliance.level_aaa.violations ?? '—'}</td></tr>
+          ${standards.map(s => `<tr><th scope="row">${escapeHtml(`${s.name} (${s.version})`)}</th><td>${passFail(s.pass)}</td><td>${s.clauses_failed.length} of ${s.clauses_total} clauses failing${s.clauses_failed.length ? `: ${s.clauses_failed.map(c => escapeHtml(c.clause)).join(', ')}` : ''}</td></tr>`).join('')}
+        </tbody>
+      </table>
+    </section>
+
+    <section id="violations" aria-labelledby="violations-heading">
+      <h2 id="violations-heading">Violations</h2>
+      ${violations.length === 0 ? '<p>No violations detected in this audit.</p>' : sections}
+    </section>
+
+    <section id="notes" aria-labelledby="notes-heading">
+      <h2 id="notes-heading">Notes</h2>
+      <p class="notes">${notes ? escapeStored(notes) : 'No notes added.'}</p>
+    </section>
+  </main>
+  <footer>
+    <p class="subtitle">Generated by Echo-Audit on ${new Date().toLocaleString()}</p>
+  </footer>
+</body>
+</html>
+`;
+}
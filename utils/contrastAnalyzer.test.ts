@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { BoundingBox, Severity, Violation } from '../types';
+import { withoutModelOverlaps } from './contrastAnalyzer';
+
+const finding = (criterion: string, box: BoundingBox, source: Violation['source']): Violation => ({
+  severity: Severity.HIGH,
+  wcag_criterion: criterion,
+  title: 'Low contrast',
+  description: 'Measured #999999 on #ffffff.',
+  visual_evidence: { frame_timestamp: '00:04', description: 'Region', bounding_box: box },
+  user_impact: 'Users with low vision may be unable to see it.',
+  suggested_fix: { code: '', explanation: '' },
+  source
+});
+
+describe('withoutModelOverlaps', () => {
+  const header = { x: 16, y: 12, width: 240, height: 24 };
+
+  it('drops pixel findings for a region the model already reported', () => {
+    const pixel = finding('1.4.3 Contrast (Minimum)', { x: 20, y: 14, width: 200, height: 20 }, 'pixel-analysis');
+    const model = finding('1.4.3 Contrast (Minimum)', header, 'model');
+    expect(withoutModelOverlaps([pixel], [model])).toEqual([]);
+  });
+
+  it('keeps pixel findings in other regions or of another kind', () => {
+    const footer = finding('1.4.3 Contrast (Minimum)', { x: 16, y: 620, width: 180, height: 18 }, 'pixel-analysis');
+    const icon = finding('1.4.11 Non-text Contrast', header, 'pixel-analysis');
+    const model = finding('1.4.3 Contrast (Minimum)', header, 'model');
+    expect(withoutModelOverlaps([footer, icon], [model])).toEqual([footer, icon]);
+  });
+});
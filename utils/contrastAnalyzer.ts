@@ -0,0 +1,430 @@
+import { BoundingBox, ContrastMeasurement, Severity, VideoFrame, Violation } from '../types';
+
+/**
+ * Client-side WCAG contrast measurement on extracted video frames.
+ * Ratios follow the WCAG 2.x relative luminance definition; colours are recovered
+ * by clustering the pixels of a region into a dominant background and the
+ * highest-contrast foreground cluster.
+ */
+
+type RGB = [number, number, number];
+
+export interface ContrastRegion {
+  box: BoundingBox;
+  kind: 'text' | 'non-text';
+  largeText?: boolean; // Inferred from glyph height when omitted
+}
+
+export interface ContrastOptions {
+  // Factor between frame pixels and CSS pixels (frames are extracted at half size)
+  frameScale?: number;
+  maxFindingsPerFrame?: number;
+}
+
+const TILE_SIZE = 16;
+const EDGE_THRESHOLD = 40;
+const MIN_TEXT_DENSITY = 0.06;
+const MAX_TEXT_DENSITY = 0.45;
+const MAX_REGIONS_PER_FRAME = 20;
+const LARGE_TEXT_PX = 24; // 18pt
+
+// ============= WCAG MATH =============
+
+const channelToLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+export function relativeLuminance([r, g, b]: RGB): number {
+  return 0.2126 * channelToLinear(r) + 0.7152 * channelToLinear(g) + 0.0722 * channelToLinear(b);
+}
+
+export function contrastRatio(a: RGB, b: RGB): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  const [hi, lo] = la > lb ? [la, lb] : [lb, la];
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+export function toHex([r, g, b]: RGB): string {
+  return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+// ============= FRAME DECODING =============
+
+export async function decodeFrame(frame: VideoFrame): Promise<ImageData> {
+  const img = new Image();
+  img.src = `data:image/jpeg;base64,${frame.data}`;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error("Could not create canvas context");
+
+  context.drawImage(img, 0, 0);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// ============= COLOUR CLUSTERING =============
+
+interface ColourCluster {
+  colour: RGB;
+  count: number;
+}
+
+const clampBox = (image: ImageData, box: BoundingBox): BoundingBox => {
+  const x = Math.max(0, Math.floor(box.x));
+  const y = Math.max(0, Math.floor(box.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(image.width - x, Math.ceil(box.width))),
+    height: Math.max(0, Math.min(image.height - y, Math.ceil(box.height)))
+  };
+};
+
+// 4-bit-per-channel buckets absorb JPEG noise; bucket colour is the mean of its pixels
+function clusterColours(image: ImageData, box: BoundingBox): ColourCluster[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  const { data, width } = image;
+
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      const i = (y * width + x) * 4;
+      const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+      const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+      bucket.r += data[i];
+      bucket.g += data[i + 1];
+      bucket.b += data[i + 2];
+      bucket.count++;
+      buckets.set(key, bucket);
+    }
+  }
+
+  return Array.from(buckets.values())
+    .map(b => ({ colour: [b.r / b.count, b.g / b.count, b.b / b.count] as RGB, count: b.count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+interface RegionColours {
+  foreground: RGB;
+  background: RGB;
+  ratio: number;
+  glyphHeight: number; // Longest run of rows containing foreground pixels
+}
+
+function measureRegionColours(image: ImageData, rawBox: BoundingBox): RegionColours | null {
+  const box = clampBox(image, rawBox);
+  const total = box.width * box.height;
+  if (total === 0) return null;
+
+  const clusters = clusterColours(image, box);
+  const background = clusters[0];
+  if (!background || background.count / total < 0.3) return null;
+
+  // Anti-aliased edge pixels form small intermediate clusters; require a real share
+  const candidates = clusters.slice(1).filter(c => c.count / total >= 0.02);
+  if (candidates.length === 0) return null;
+
+  const foreground = candidates.reduce((best, c) =>
+    contrastRatio(c.colour, background.colour) > contrastRatio(best.colour, background.colour) ? c : best
+  );
+
+  const fg = foreground.colour;
+  const bg = background.colour;
+  const dist = (i: number, [r, g, b]: RGB) =>
+    (image.data[i] - r) ** 2 + (image.data[i + 1] - g) ** 2 + (image.data[i + 2] - b) ** 2;
+
+  let run = 0;
+  let glyphHeight = 0;
+  for (let y = box.y; y < box.y + box.height; y++) {
+    let hasForeground = false;
+    for (let x = box.x; x < box.x + box.width && !hasForeground; x++) {
+      const i = (y * image.width + x) * 4;
+      hasForeground = dist(i, fg) < dist(i, bg);
+    }
+    run = hasForeground ? run + 1 : 0;
+    glyphHeight = Math.max(glyphHeight, run);
+  }
+
+  return { foreground: fg, background: bg, ratio: contrastRatio(fg, bg), glyphHeight };
+}
+
+// ============= TEXT REGION DETECTION =============
+
+// Text produces dense but not saturated luminance edges; flag such tiles and merge
+// horizontally/vertically adjacent ones into candidate text blocks.
+export function detectTextRegions(image: ImageData): BoundingBox[] {
+  const { width, height, data } = image;
+  const cols = Math.floor(width / TILE_SIZE);
+  const rows = Math.floor(height / TILE_SIZE);
+  const luminance = new Float32Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    luminance[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+
+  const isTextTile = new Uint8Array(cols * rows);
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < cols; tx++) {
+      let edges = 0;
+      for (let y = ty * TILE_SIZE; y < (ty + 1) * TILE_SIZE - 1; y++) {
+        for (let x = tx * TILE_SIZE; x < (tx + 1) * TILE_SIZE - 1; x++) {
+          const p = y * width + x;
+          const gradient = Math.abs(luminance[p + 1] - luminance[p]) + Math.abs(luminance[p + width] - luminance[p]);
+          if (gradient > EDGE_THRESHOLD) edges++;
+        }
+      }
+      const density = edges / (TILE_SIZE * TILE_SIZE);
+      isTextTile[ty * cols + tx] = density >= MIN_TEXT_DENSITY && density <= MAX_TEXT_DENSITY ? 1 : 0;
+    }
+  }
+
+  const visited = new Uint8Array(cols * rows);
+  const regions: BoundingBox[] = [];
+
+  for (let start = 0; start < cols * rows; start++) {
+    if (!isTextTile[start] || visited[start]) continue;
+
+    let minX = cols, minY = rows, maxX = 0, maxY = 0, tiles = 0;
+    const queue = [start];
+    visited[start] = 1;
+    while (queue.length > 0) {
+      const t = queue.pop()!;
+      const tx = t % cols;
+      const ty = Math.floor(t / cols);
+      tiles++;
+      minX = Math.min(minX, tx); maxX = Math.max(maxX, tx);
+      minY = Math.min(minY, ty); maxY = Math.max(maxY, ty);
+      const neighbours = [
+        tx > 0 ? t - 1 : -1,
+        tx < cols - 1 ? t + 1 : -1,
+        ty > 0 ? t - cols : -1,
+        ty < rows - 1 ? t + cols : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && isTextTile[n] && !visited[n]) {
+          visited[n] = 1;
+          queue.push(n);
+        }
+      }
+    }
+
+    const box = {
+      x: minX * TILE_SIZE,
+      y: minY * TILE_SIZE,
+      width: (maxX - minX + 1) * TILE_SIZE,
+      height: (maxY - minY + 1) * TILE_SIZE
+    };
+    // Single tiles are usually icons or noise; text lines are wider than tall
+    if (tiles >= 2 && box.width >= box.height) regions.push(box);
+  }
+
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_REGIONS_PER_FRAME);
+}
+
+// ============= MEASUREMENT & VIOLATIONS =============
+
+export function measureContrast(
+  image: ImageData,
+  region: ContrastRegion,
+  frameScale: number = 2
+): ContrastMeasurement | null {
+  const colours = measureRegionColours(image, region.box);
+  if (!colours) return null;
+
+  const largeText = region.largeText ?? colours.glyphHeight * frameScale >= LARGE_TEXT_PX;
+  const requiredAA = region.kind === 'non-text' ? 3 : largeText ? 3 : 4.5;
+  const requiredAAA = largeText ? 4.5 : 7;
+
+  return {
+    ratio: Math.round(colours.ratio * 100) / 100,
+    foreground: toHex(colours.foreground),
+    background: toHex(colours.background),
+    required: requiredAA,
+    required_enhanced: region.kind === 'text' ? requiredAAA : undefined,
+    large_text: region.kind === 'text' ? largeText : undefined
+  };
+}
+
+function contrastSeverity(kind: ContrastRegion['kind'], m: ContrastMeasurement): Severity | null {
+  if (kind === 'non-text') {
+    if (m.ratio >= m.required) return null;
+    return m.ratio < 2 ? Severity.HIGH : Severity.MEDIUM;
+  }
+  if (m.ratio < m.required) return m.ratio < 3 ? Severity.CRITICAL : Severity.HIGH;
+  if (m.required_enhanced && m.ratio < m.required_enhanced) return Severity.LOW;
+  return null;
+}
+
+function buildContrastViolation(
+  frame: VideoFrame,
+  region: ContrastRegion,
+  m: ContrastMeasurement,
+  severity: Severity
+): Violation {
+  const ratio = `${m.ratio.toFixed(2)}:1`;
+  const box = region.box;
+  const where = `at (${box.x}, ${box.y}) ${box.width}×${box.height}px`;
+
+  if (region.kind === 'non-text') {
+    return {
+      id: `contrast-1.4.11-${frame.timestamp}-${box.x}-${box.y}`,
+      severity,
+      wcag_criterion: '1.4.11 Non-text Contrast',
+      title: `UI component contrast ${ratio} below 3:1`,
+      description: `Measured ${m.foreground} against ${m.background} ${where}.`,
+      visual_evidence: { frame_timestamp: frame.timestamp, description: `Component boundary ${where}`, bounding_box: box, contrast: m },
+      reasoning: `Pixel analysis measured a contrast ratio of ${ratio}; WCAG 1.4.11 requires at least 3:1.`,
+      user_impact: 'Users with low vision may not perceive the control or its state.',
+      suggested_fix: {
+        code: `/* border/icon colour */ color: <colour with ≥3:1 against ${m.background}>;`,
+        explanation: 'Darken or lighten the component boundary so it reaches 3:1 against adjacent colours.'
+      },
+      source: 'pixel-analysis'
+    };
+  }
+
+  const enhanced = m.ratio >= m.required;
+  const required = enhanced ? m.required_enhanced! : m.required;
+  const textSize = m.large_text ? 'large' : 'normal';
+
+  return {
+    id: `contrast-${enhanced ? '1.4.6' : '1.4.3'}-${frame.timestamp}-${box.x}-${box.y}`,
+    severity,
+    wcag_criterion: enhanced ? '1.4.6 Contrast (Enhanced)' : '1.4.3 Contrast (Minimum)',
+    title: `Text contrast ${ratio} below ${required}:1`,
+    description: `Measured ${m.foreground} text on ${m.background} ${where} (${textSize} text).`,
+    visual_evidence: { frame_timestamp: frame.timestamp, description: `Text region ${where}`, bounding_box: box, contrast: m },
+    reasoning: `Pixel analysis measured a contrast ratio of ${ratio} for ${textSize} text; ` +
+      `${enhanced ? 'WCAG 1.4.6 (AAA)' : 'WCAG 1.4.3 (AA)'} requires at least ${required}:1.`,
+    user_impact: 'Users with low vision or in bright environments may be unable to read the text.',
+    suggested_fix: {
+      code: `color: <colour with ≥${required}:1 against ${m.background}>;`,
+      explanation: `Adjust the text or background colour until the ratio reaches ${required}:1.`
+    },
+    source: 'pixel-analysis'
+  };
+}
+
+export async function analyzeFrameContrast(
+  frame: VideoFrame,
+  regions?: ContrastRegion[],
+  options: ContrastOptions = {}
+): Promise<Violation[]> {
+  const { frameScale = 2, maxFindingsPerFrame = 5 } = options;
+  const image = await decodeFrame(frame);
+  const targets = regions ?? detectTextRegions(image).map(box => ({ box, kind: 'text' as const }));
+
+  const findings: Violation[] = [];
+  for (const region of targets) {
+    const m = measureContrast(image, region, frameScale);
+    if (!m) continue;
+    const severity = contrastSeverity(region.kind, m);
+    if (severity) findings.push(buildContrastViolation(frame, region, m, severity));
+  }
+
+  return findings
+    .sort((a, b) => a.visual_evidence!.contrast!.ratio - b.visual_evidence!.contrast!.ratio)
+    .slice(0, maxFindingsPerFrame);
+}
+
+// Static UI repeats across frames; keep the first sighting of each colour pair + location
+export async function analyzeFramesContrast(frames: VideoFrame[], options: ContrastOptions = {}): Promise<Violation[]> {
+  const seen = new Set<string>();
+  const results: Violation[] = [];
+
+  for (const frame of frames) {
+    for (const v of await analyzeFrameContrast(frame, undefined, options)) {
+      const { bounding_box: box, contrast } = v.visual_evidence!;
+      const key = `${v.wcag_criterion}|${contrast!.foreground}|${contrast!.background}|` +
+        `${Math.round(box!.x / TILE_SIZE)}|${Math.round(box!.y / TILE_SIZE)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(v);
+    }
+  }
+
+  return results;
+}
+
+const contrastCriterion = (v: Violation) => v.wcag_criterion.match(/^1\.4\.(3|6|11)\b/)?.[1];
+
+const regionKind = (v: Violation): ContrastRegion['kind'] | undefined => {
+  const criterion = contrastCriterion(v);
+  if (!criterion) return undefined;
+  return criterion === '11' ? 'non-text' : 'text';
+};
+
+// Share of the smaller box covered by the other
+function overlapRatio(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+}
+
+// Pixel findings carry no code evidence, so merging cannot match them to the model's
+// finding for the same region. Drop those whose box mostly overlaps a model contrast
+// finding of the same kind (text or non-text); the model's copy has been measured the
+// same way and also points at the source.
+export function withoutModelOverlaps(pixelViolations: Violation[], modelViolations: Violation[]): Violation[] {
+  const modelRegions = modelViolations
+    .filter(v => regionKind(v) && v.visual_evidence?.bounding_box)
+    .map(v => ({ kind: regionKind(v), box: v.visual_evidence!.bounding_box! }));
+
+  return pixelViolations.filter(v => {
+    const box = v.visual_evidence?.bounding_box;
+    if (!box) return true;
+    return !modelRegions.some(r => r.kind === regionKind(v) && overlapRatio(r.box, box) >= 0.5);
+  });
+}
+
+// Replace the model's guessed severity for contrast findings that include a
+// bounding box with the ratio measured on the referenced frame, and drop those
+// whose measured ratio passes.
+export async function measureModelContrast(
+  violations: Violation[],
+  frames: VideoFrame[],
+  options: ContrastOptions = {}
+): Promise<Violation[]> {
+  const { frameScale = 2 } = options;
+  const images = new Map<string, ImageData>();
+
+  const measured: Violation[] = [];
+  for (const v of violations) {
+    const evidence = v.visual_evidence;
+    const criterion = contrastCriterion(v);
+    const frame = frames.find(f => f.timestamp === evidence?.frame_timestamp);
+    if (!criterion || !evidence?.bounding_box || !frame) {
+      measured.push(v);
+      continue;
+    }
+
+    if (!images.has(frame.timestamp)) images.set(frame.timestamp, await decodeFrame(frame));
+    const kind = criterion === '11' ? 'non-text' : 'text';
+    const m = measureContrast(images.get(frame.timestamp)!, { box: evidence.bounding_box, kind }, frameScale);
+    if (!m) {
+      measured.push(v);
+      continue;
+    }
+
+    // The measurement settles it: a region that meets the reported criterion is not a
+    // violation, whatever the model guessed (1.4.6 also fails below the AA threshold)
+    const severity = contrastSeverity(kind, m);
+    if (!severity || (criterion !== '6' && m.ratio >= m.required)) continue;
+
+    const ratioNote = `Measured contrast ${m.ratio.toFixed(2)}:1 (${m.foreground} on ${m.background}).`;
+    measured.push({
+      ...v,
+      severity,
+      visual_evidence: { ...evidence, contrast: m },
+      reasoning: v.reasoning ? `${v.reasoning} ${ratioNote}` : ratioNote
+    });
+  }
+
+  return measured;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BoundingBox, Severity, Violation } from '../types';
+import { computeFingerprint, dedupeViolations } from './fingerprint';
+
+const contrastFinding = (ratio: string, box: BoundingBox): Violation => ({
+  severity: Severity.HIGH,
+  wcag_criterion: '1.4.3 Contrast (Minimum)',
+  title: `Text contrast ${ratio}:1 below 4.5:1`,
+  description: 'Measured #999999 text on #ffffff.',
+  visual_evidence: { frame_timestamp: '00:04', description: 'Text region', bounding_box: box },
+  user_impact: 'Users with low vision may be unable to read the text.',
+  suggested_fix: { code: '', explanation: '' },
+  source: 'pixel-analysis'
+});
+
+describe('computeFingerprint', () => {
+  it('tells apart contrast findings without code evidence in different regions', () => {
+    const header = contrastFinding('2.85', { x: 16, y: 12, width: 240, height: 24 });
+    const footer = contrastFinding('2.85', { x: 16, y: 620, width: 180, height: 18 });
+
+    expect(computeFingerprint(header)).not.toBe(computeFingerprint(footer));
+    expect(dedupeViolations([header, footer])).toHaveLength(2);
+  });
+
+  it('matches the same region across runs despite small shifts and a new ratio', () => {
+    const first = contrastFinding('2.85', { x: 16, y: 12, width: 240, height: 24 });
+    const second = contrastFinding('2.91', { x: 18, y: 14, width: 238, height: 24 });
+
+    expect(computeFingerprint(first)).toBe(computeFingerprint(second));
+  });
+
+  it('matches visual-only findings without a box across timestamps', () => {
+    const focus = (timestamp: string): Violation => ({
+      severity: Severity.MEDIUM,
+      wcag_criterion: '2.4.7 Focus Visible',
+      title: 'Focus indicator not visible',
+      description: 'Keyboard focus moves to the search field without a visible outline.',
+      visual_evidence: { frame_timestamp: timestamp, description: 'Search field focused' },
+      user_impact: 'Keyboard users lose track of where they are.',
+      suggested_fix: { code: '', explanation: '' }
+    });
+
+    expect(computeFingerprint(focus('00:04'))).toBe(computeFingerprint(focus('01:37')));
+    expect(dedupeViolations([focus('00:04'), focus('01:37')])).toHaveLength(1);
+  });
+});
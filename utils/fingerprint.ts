@@ -0,0 +1,81 @@
+import { Severity, Violation } from '../types';
+import { lookupCriterion } from './wcagCatalogue';
+
+/**
+ * Stable identity for a finding across audits. The fingerprint ignores anything
+ * that changes between runs without the issue changing — model-assigned ids, line
+ * numbers, measured ratios in titles — and keys on what the issue *is*: criterion,
+ * normalized title, file/selector and a hash of the normalized code snippet, or the
+ * on-screen location for findings without code that report one.
+ */
+
+export const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.CRITICAL]: 4,
+  [Severity.HIGH]: 3,
+  [Severity.MEDIUM]: 2,
+  [Severity.LOW]: 1
+};
+
+// 32-bit FNV-1a; synchronous so fingerprints can be computed during render
+export function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export const criterionId = (criterion: string) =>
+  lookupCriterion(criterion)?.id || criterion.trim().match(/^\d+\.\d+\.\d+/)?.[0] || criterion.trim().toLowerCase();
+
+export const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/[\d.:]+/g, ' ').replace(/[^a-z]+/g, ' ').trim();
+
+const normalizeSnippet = (snippet: string) => snippet.replace(/\s+/g, ' ').trim();
+
+// Snaps on-screen locations so small layout shifts between runs still match
+const LOCATION_GRID = 32;
+
+// Findings without code evidence (pixel contrast checks, purely visual model findings)
+// are told apart by the bounding box centre on a coarse grid (measured sizes vary more
+// between runs than positions). Never the frame timestamp: it differs per recording and
+// per chunk window while the issue stays the same.
+const visualLocation = (v: Violation): string => {
+  const box = v.visual_evidence?.bounding_box;
+  if (!box) return '';
+  return [box.x + box.width / 2, box.y + box.height / 2].map(n => Math.round(n / LOCATION_GRID)).join(',');
+};
+
+export function computeFingerprint(v: Violation): string {
+  const code = v.code_evidence;
+  const parts = [
+    criterionId(v.wcag_criterion),
+    normalizeTitle(v.title),
+    code?.file?.replace(/\\/g, '/').toLowerCase() || '',
+    code?.selector || '',
+    code?.snippet ? fnv1a(normalizeSnippet(code.snippet)) : ''
+  ];
+  if (!code?.file && !code?.selector && !code?.snippet) parts.push(visualLocation(v));
+  return `fp_${fnv1a(parts.join('|'))}`;
+}
+
+export function withFingerprint(v: Violation): Violation {
+  return v.fingerprint ? v : { ...v, fingerprint: computeFingerprint(v) };
+}
+
+// Collapses findings with the same fingerprint, keeping the first occurrence's
+// evidence and the highest severity reported for it.
+export function dedupeViolations(violations: Violation[]): Violation[] {
+  const byFingerprint = new Map<string, Violation>();
+  for (const raw of violations) {
+    const v = withFingerprint(raw);
+    const existing = byFingerprint.get(v.fingerprint!);
+    if (!existing) {
+      byFingerprint.set(v.fingerprint!, v);
+    } else if (SEVERITY_RANK[v.severity] > SEVERITY_RANK[existing.severity]) {
+      byFingerprint.set(v.fingerprint!, { ...existing, severity: v.severity });
+    }
+  }
+  return Array.from(byFingerprint.values());
+}
@@ -0,0 +1,22 @@
+// Helpers for building standalone HTML/XML documents from stored data
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// storage.ts entity-encodes user text on write; undo that before re-escaping for output
+export function decodeStoredText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#x2F;/g, '/');
+}
+
+export const escapeStored = (text: string | undefined) => escapeHtml(decodeStoredText(text || ''));
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { isMarkupPath, parseMarkup, staticValue } from './markupParser';
+
+const tags = (path: string, source: string) => parseMarkup(path, source).elements.map(el => el.tag);
+
+describe('parseMarkup', () => {
+  it('recovers the element tree with attributes, text and line numbers', () => {
+    const doc = parseMarkup('index.html', '<main>\n  <a href="/docs" class=nav>Read <b>more</b></a>\n</main>');
+    const [main, link, bold] = doc.elements;
+
+    expect(doc.elements.map(el => el.tag)).toEqual(['main', 'a', 'b']);
+    expect(link).toMatchObject({ line: 2, attrs: { href: '/docs', class: 'nav' }, text: 'Read more' });
+    expect(bold.parent).toBe(link);
+    expect(main.children).toEqual([link]);
+  });
+
+  it('closes void elements and skips comments and script contents', () => {
+    const source = '<div><img src="a.png"><!-- <span> --><script>if (a < b) {}</script><p>x</p></div>';
+    const doc = parseMarkup('index.html', source);
+
+    expect(doc.elements.map(el => el.tag)).toEqual(['div', 'img', 'script', 'p']);
+    expect(doc.elements[3].parent?.tag).toBe('div');
+  });
+
+  it('keeps JSX expressions and spreads without parsing generics as tags', () => {
+    const source = [
+      'const [file, setFile] = useState<File | null>(null);',
+      'if (count < limit) log();',
+      'return <Button {...props} aria-label={label} onClick={() => go(1)}>{title}</Button>;'
+    ].join('\n');
+    const [button] = parseMarkup('App.tsx', source).elements;
+
+    expect(tags('App.tsx', source)).toEqual(['Button']);
+    expect(button).toMatchObject({ hasSpread: true, line: 3, text: '{title}' });
+    expect(button.attrs['aria-label']).toBe('{label}');
+    expect(button.attrs.onclick).toBe('{() => go(1)}');
+  });
+
+  it('parses markup nested in JSX expressions', () => {
+    const source = 'return <ul>{items.map(item => <li key={item.id}>{item.name}</li>)}</ul>;';
+    expect(tags('List.jsx', source)).toEqual(['ul', 'li']);
+  });
+
+  it('skips malformed tags instead of throwing', () => {
+    // The unterminated attribute quote drops the <div>; parsing resumes at <p>
+    expect(tags('broken.html', '<div class="open><p>text</div></span><')).toEqual(['p']);
+  });
+});
+
+describe('staticValue', () => {
+  it('unwraps literal JSX values and rejects expressions', () => {
+    expect(staticValue('main')).toBe('main');
+    expect(staticValue('{"main"}')).toBe('main');
+    expect(staticValue('{3}')).toBe('3');
+    expect(staticValue('{id}')).toBeUndefined();
+    expect(staticValue(undefined)).toBeUndefined();
+  });
+});
+
+describe('isMarkupPath', () => {
+  it('accepts HTML and JSX sources only', () => {
+    expect(['a.html', 'b.htm', 'c.tsx', 'd.JSX'].every(isMarkupPath)).toBe(true);
+    expect(['a.ts', 'b.css', 'c.html.bak'].some(isMarkupPath)).toBe(false);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Lightweight, tolerant parser for HTML and JSX/TSX markup.
+ * It is not a full HTML or TypeScript parser: it only recovers the element tree,
+ * attributes and text content with their line numbers, which is what the static
+ * accessibility rules need. Unknown or malformed input is skipped, never thrown on.
+ */
+
+export interface MarkupElement {
+  tag: string; // lowercase for intrinsic elements, original case for components
+  attrs: Record<string, string>; // keys lowercased; JSX expressions kept as "{expr}"
+  hasSpread: boolean; // JSX {...props} spread, attributes may be incomplete
+  line: number;
+  snippet: string; // source of the opening tag
+  text: string; // concatenated descendant text, JSX expressions kept as "{expr}"
+  children: MarkupElement[];
+  parent?: MarkupElement;
+}
+
+export interface MarkupDocument {
+  path: string;
+  isJsx: boolean;
+  elements: MarkupElement[]; // every element, in document order
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const TAG_NAME = /[A-Za-z][\w.:-]*/y;
+
+export function isJsxPath(path: string): boolean {
+  return /\.(tsx|jsx)$/i.test(path);
+}
+
+export function isMarkupPath(path: string): boolean {
+  return /\.(html?|tsx|jsx)$/i.test(path);
+}
+
+export function isDynamicValue(value: string | undefined): boolean {
+  return value !== undefined && value.startsWith('{');
+}
+
+// Strips JSX braces and string quotes, e.g. {"main"} -> main, {3} -> 3
+export function staticValue(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  if (!isDynamicValue(value)) return value;
+  const inner = value.slice(1, -1).trim();
+  const literal = inner.match(/^(["'`])([^"'`]*)\1$/);
+  if (literal) return literal[2];
+  if (/^-?\d+$/.test(inner)) return inner;
+  return undefined;
+}
+
+function buildLineIndex(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(lineStarts: number[], index: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+// In TSX, "<" also opens generics (useState<File>) and comparisons. A tag can only
+// start where an expression may begin, i.e. not right after an identifier or ")".
+function canStartJsxTag(source: string, index: number): boolean {
+  let i = index - 1;
+  while (i >= 0 && /\s/.test(source[i])) i--;
+  if (i < 0) return true;
+  const prev = source[i];
+  if (/[\w$)\]]/.test(prev)) {
+    // Keywords that precede JSX expressions
+    const word = source.slice(Math.max(0, i - 5), i + 1);
+    return /(^|\W)(return|yield|await|default)$/.test(word);
+  }
+  return true;
+}
+
+// Reads a balanced {...} expression starting at index, respecting string literals
+function readBraced(source: string, index: number): number {
+  let depth = 0;
+  let i = index;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const close = source.indexOf(ch, i + 1);
+      i = close === -1 ? source.length : close + 1;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+interface OpenTag {
+  tag: string;
+  attrs: Record<string, string>;
+  hasSpread: boolean;
+  selfClosing: boolean;
+  end: number;
+}
+
+function readOpenTag(source: string, start: number): OpenTag | null {
+  TAG_NAME.lastIndex = start + 1;
+  const nameMatch = TAG_NAME.exec(source);
+  if (!nameMatch) return null;
+
+  const rawName = nameMatch[0];
+  const attrs: Record<string, string> = {};
+  let hasSpread = false;
+  let i = TAG_NAME.lastIndex;
+
+  while (i < source.length) {
+    while (i < source.length && /\s/.test(source[i])) i++;
+    const ch = source[i];
+    if (ch === undefined) return null;
+    if (ch === '>') {
+      return { tag: rawName, attrs, hasSpread, selfClosing: false, end: i + 1 };
+    }
+    if (ch === '/' && source[i + 1] === '>') {
+      return { tag: rawName, attrs, hasSpread, selfClosing: true, end: i + 2 };
+    }
+    if (ch === '{') {
+      hasSpread = true;
+      i = readBraced(source, i);
+      continue;
+    }
+
+    const nameStart = i;
+    while (i < source.length && !/[\s=/>]/.test(source[i])) i++;
+    const attrName = source.slice(nameStart, i).toLowerCase();
+    if (!attrName) {
+      i++;
+      continue;
+    }
+
+    while (i < source.length && /\s/.test(source[i])) i++;
+    if (source[i] !== '=') {
+      attrs[attrName] = '';
+      continue;
+    }
+    i++;
+    while (i < source.length && /\s/.test(source[i])) i++;
+
+    const quote = source[i];
+    if (quote === '"' || quote === "'") {
+      const close = source.indexOf(quote, i + 1);
+      if (close === -1) return null;
+      attrs[attrName] = source.slice(i + 1, close);
+      i = close + 1;
+    } else if (quote === '{') {
+      const close = readBraced(source, i);
+      attrs[attrName] = source.slice(i, close);
+      i = close;
+    } else {
+      const valueStart = i;
+      while (i < source.length && !/[\s>]/.test(source[i])) i++;
+      attrs[attrName] = source.slice(valueStart, i);
+    }
+  }
+  return null;
+}
+
+export function parseMarkup(path: string, source: string): MarkupDocument {
+  const isJsx = isJsxPath(path);
+  const lineStarts = buildLineIndex(source);
+  const elements: MarkupElement[] = [];
+  const stack: MarkupElement[] = [];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    for (const el of stack) el.text += text;
+  };
+
+  let i = 0;
+  let textStart = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    // JSX expression children count as (dynamic) text
+    if (isJsx && ch === '{' && stack.length > 0) {
+      appendText(source.slice(textStart, i));
+      const end = readBraced(source, i);
+      const expr = source.slice(i, end);
+      // Nested markup inside the expression is parsed as part of the tree
+      if (!/</.test(expr)) {
+        appendText(expr);
+        i = end;
+        textStart = i;
+        continue;
+      }
+      appendText('{expr}');
+      i++;
+      textStart = i;
+      continue;
+    }
+
+    if (ch !== '<') {
+      i++;
+      continue;
+    }
+
+    if (source.startsWith('<!--', i)) {
+      appendText(source.slice(textStart, i));
+      const close = source.indexOf('-->', i + 4);
+      i = close === -1 ? source.length : close + 3;
+      textStart = i;
+      continue;
+    }
+
+    if (source[i + 1] === '/') {
+      const closeEnd = source.indexOf('>', i);
+      if (closeEnd === -1) break;
+      const name = source.slice(i + 2, closeEnd).trim();
+      appendText(source.slice(textStart, i));
+      const normalized = /^[a-z]/.test(name) ? name.toLowerCase() : name;
+      const matchIndex = stack.map(el => el.tag).lastIndexOf(normalized);
+      if (matchIndex !== -1) stack.length = matchIndex;
+      else if (name === '' && stack.length > 0) stack.pop(); // JSX fragment </>
+      i = closeEnd + 1;
+      textStart = i;
+      continue;
+    }
+
+    if (!/[A-Za-z]/.test(source[i + 1] || '') || (isJsx && !canStartJsxTag(source, i))) {
+      i++;
+      continue;
+    }
+
+    const open = readOpenTag(source, i);
+    if (!open) {
+      i++;
+      continue;
+    }
+
+    appendText(source.slice(textStart, i));
+
+    const tag = /^[a-z]/.test(open.tag) ? open.tag.toLowerCase() : open.tag;
+    const element: MarkupElement = {
+      tag,
+      attrs: open.attrs,
+      hasSpread: open.hasSpread,
+      line: lineAt(lineStarts, i),
+      snippet: source.slice(i, open.end).replace(/\s+/g, ' ').slice(0, 240),
+      text: '',
+      children: [],
+      parent: stack[stack.length - 1]
+    };
+    element.parent?.children.push(element);
+    elements.push(element);
+
+    i = open.end;
+    textStart = i;
+
+    if (open.selfClosing || (!isJsx && VOID_ELEMENTS.has(tag))) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(tag) && !isJsx) {
+      const close = source.toLowerCase().indexOf(`</${tag}`, i);
+      i = close === -1 ? source.length : close;
+      textStart = i;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return { path, isJsx, elements };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Invitation, MemberRole, Organization } from '../types';
+import { acceptIntoOrganization, orgRole } from './permissions';
+
+const org: Organization = {
+  orgId: 'org_1',
+  name: 'Acme',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  createdBy: 'user_owner',
+  members: [
+    { userId: 'user_owner', email: 'owner@example.com', displayName: 'Owner', role: 'owner', addedAt: '2026-01-01T00:00:00.000Z' },
+    { userId: 'user_dev', email: 'dev@example.com', displayName: 'Dev', role: 'developer', addedAt: '2026-01-02T00:00:00.000Z' }
+  ]
+};
+
+const invite = (email: string, role: MemberRole): Invitation => ({
+  inviteId: 'inv_1',
+  email,
+  role,
+  target: { type: 'organization', id: org.orgId, name: org.name },
+  invitedBy: { userId: 'user_owner', displayName: 'Owner' },
+  createdAt: '2026-01-03T00:00:00.000Z'
+});
+
+describe('acceptIntoOrganization', () => {
+  it('does not demote the last owner accepting a lower invitation', () => {
+    const owner = { userId: 'user_owner', email: 'owner@example.com', displayName: 'Owner' };
+    const updated = acceptIntoOrganization(org, invite(owner.email, 'viewer'), owner);
+    expect(orgRole(updated, owner.userId)).toBe('owner');
+    expect(updated.members).toHaveLength(2);
+  });
+
+  it('raises an existing member to a higher invited role', () => {
+    const dev = { userId: 'user_dev', email: 'dev@example.com', displayName: 'Dev' };
+    const updated = acceptIntoOrganization(org, invite(dev.email, 'auditor'), dev);
+    expect(orgRole(updated, dev.userId)).toBe('auditor');
+  });
+
+  it('adds new members with the invited role', () => {
+    const newcomer = { userId: 'user_new', email: 'new@example.com', displayName: 'New' };
+    const updated = acceptIntoOrganization(org, invite(newcomer.email, 'viewer'), newcomer);
+    expect(orgRole(updated, newcomer.userId)).toBe('viewer');
+  });
+});
@@ -0,0 +1,139 @@
+import type { Invitation, MemberRole, Organization, Project, ShareRole, User } from '../types';
+
+/**
+ * Role-based access to projects, shared by services/storage.ts and the sync server.
+ * The project's creator (Project.userId) is its owner; anyone else gets access through
+ * the project's organization or a direct share, whichever role ranks higher.
+ */
+
+export type Permission =
+  | 'project:view'
+  | 'project:manage' // Settings: suppression rules, scoring profiles, ACR rows
+  | 'project:share'
+  | 'project:delete'
+  | 'audit:create'
+  | 'audit:delete'
+  | 'audit:notes'
+  | 'audit:triage';
+
+export const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  owner: ['project:view', 'project:manage', 'project:share', 'project:delete', 'audit:create', 'audit:delete', 'audit:notes', 'audit:triage'],
+  auditor: ['project:view', 'project:manage', 'audit:create', 'audit:delete', 'audit:notes', 'audit:triage'],
+  developer: ['project:view', 'audit:triage'],
+  viewer: ['project:view']
+};
+
+// Most privileged first
+export const MEMBER_ROLES: { value: MemberRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full control, including sharing and deletion' },
+  { value: 'auditor', label: 'Auditor', description: 'Runs and deletes audits, edits notes and project settings' },
+  { value: 'developer', label: 'Developer', description: 'Views audits and triages findings' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' }
+];
+
+const rank = (role: MemberRole) => MEMBER_ROLES.findIndex(r => r.value === role);
+
+export function orgRole(org: Organization | null | undefined, userId: string): MemberRole | null {
+  return org?.members.find(m => m.userId === userId)?.role ?? null;
+}
+
+// Pass the project's organization when it has one; null means no access at all
+export function projectRole(project: Project, userId: string, org?: Organization | null): MemberRole | null {
+  if (project.userId === userId) return 'owner';
+  const roles = [
+    project.shares?.find(s => s.userId === userId)?.role,
+    project.orgId && org?.orgId === project.orgId ? orgRole(org, userId) : null
+  ].filter((role): role is MemberRole => !!role);
+  return roles.sort((a, b) => rank(a) - rank(b))[0] ?? null;
+}
+
+export function hasPermission(role: MemberRole | null, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function assertPermission(role: MemberRole | null, permission: Permission): void {
+  if (!hasPermission(role, permission)) throw new Error('Unauthorized');
+}
+
+// Role change, or removal with null. Owners manage members, anyone may leave, and an
+// organization always keeps at least one owner.
+export function changeOrgMember(org: Organization, actorUserId: string, targetUserId: string, role: MemberRole | null): Organization {
+  const leaving = role === null && actorUserId === targetUserId;
+  if (orgRole(org, actorUserId) !== 'owner' && !leaving) throw new Error('Unauthorized');
+  if (!org.members.some(m => m.userId === targetUserId)) throw new Error('Member not found');
+
+  const members = role === null
+    ? org.members.filter(m => m.userId !== targetUserId)
+    : org.members.map(m => m.userId === targetUserId ? { ...m, role } : m);
+  if (!members.some(m => m.role === 'owner')) throw new Error('An organization needs at least one owner');
+  return { ...org, members };
+}
+
+// inviterRole is the inviter's role in the target: organization owners invite members,
+// project owners share their project
+export function assertCanInvite(target: Invitation['target'], role: MemberRole, inviterRole: MemberRole | null): void {
+  if (target.type === 'organization') {
+    if (inviterRole !== 'owner') throw new Error('Unauthorized');
+    return;
+  }
+  if (role === 'owner') throw new Error('A project has a single owner; invite as auditor, developer or viewer');
+  assertPermission(inviterRole, 'project:share');
+}
+
+type Invitee = Pick<User, 'userId' | 'email' | 'displayName'>;
+
+const higherRole = <R extends MemberRole>(a: R, b: R | undefined): R => b && rank(b) < rank(a) ? b : a;
+
+// Accepting gives the invited role; an invitation never lowers the role of someone
+// already in the organization, so it cannot demote its last owner
+export function acceptIntoOrganization(org: Organization, invitation: Invitation, user: Invitee): Organization {
+  const existing = org.members.find(m => m.userId === user.userId);
+  const member = {
+    userId: user.userId,
+    email: user.email,
+    displayName: user.displayName,
+    role: higherRole(invitation.role, existing?.role),
+    addedAt: existing?.addedAt || new Date().toISOString()
+  };
+  return { ...org, members: [...org.members.filter(m => m.userId !== user.userId), member] };
+}
+
+export function acceptIntoProject(project: Project, invitation: Invitation, user: Invitee): Project {
+  if (project.userId === user.userId) return project;
+  const existing = project.shares?.find(s => s.userId === user.userId);
+  const share = {
+    userId: user.userId,
+    email: user.email,
+    displayName: user.displayName,
+    role: higherRole(invitation.role as ShareRole, existing?.role),
+    sharedAt: new Date().toISOString(),
+    sharedBy: invitation.invitedBy.userId
+  };
+  return { ...project, shares: [...(project.shares || []).filter(s => s.userId !== user.userId), share] };
+}
+
+// Profile edits refresh the name and email copied into memberships and shares
+export function withMemberProfile(org: Organization, user: Invitee): Organization {
+  return { ...org, members: org.members.map(m => m.userId === user.userId ? { ...m, email: user.email, displayName: user.displayName } : m) };
+}
+
+export function withShareProfile(project: Project, user: Invitee): Project {
+  return { ...project, shares: project.shares?.map(s => s.userId === user.userId ? { ...s, email: user.email, displayName: user.displayName } : s) };
+}
+
+// Takes a deleted account out of its organizations. Those it was the only member of are
+// returned as emptied, to be removed; being the last owner of a shared one is an error.
+export function leaveOrganizations(orgs: Organization[], userId: string): { updated: Organization[]; emptied: Organization[] } {
+  const updated: Organization[] = [];
+  const emptied: Organization[] = [];
+  for (const org of orgs) {
+    if (org.members.every(m => m.userId === userId)) {
+      emptied.push(org);
+    } else if (!org.members.some(m => m.role === 'owner' && m.userId !== userId)) {
+      throw new Error(`Make someone else an owner of ${org.name} before deleting your account`);
+    } else {
+      updated.push(changeOrgMember(org, userId, userId, null));
+    }
+  }
+  return { updated, emptied };
+}
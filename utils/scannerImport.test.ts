@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Severity } from '../types';
+import { detectImportSource, parseAxeResults, parseLighthouseReport, parsePa11yResults, parseScannerResults } from './scannerImport';
+
+const axeRun = {
+  testEngine: { name: 'axe-core', version: '4.10.0' },
+  url: 'https://example.com/',
+  passes: [],
+  violations: [
+    {
+      id: 'color-contrast',
+      impact: 'serious',
+      tags: ['cat.color', 'wcag2aa', 'wcag143'],
+      help: 'Elements must meet minimum color contrast ratio thresholds',
+      helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/color-contrast',
+      nodes: [
+        { html: '<p class="muted">Hi</p>', target: ['p.muted'], failureSummary: 'Fix any of the following: contrast of 2.5' },
+        { html: '<span>Bye</span>', target: [['iframe', 'span']], impact: 'moderate' }
+      ]
+    },
+    { id: 'region', impact: 'moderate', tags: ['cat.keyboard', 'best-practice'], help: 'All page content should be contained by landmarks', nodes: [{ html: '<div>', target: ['div'] }] },
+    { id: 'target-size', impact: 'serious', tags: ['wcag22aa', 'wcag258'], nodes: [] }
+  ]
+};
+
+const lighthouseReport = {
+  lighthouseVersion: '12.0.0',
+  finalDisplayedUrl: 'https://example.com/shop',
+  categories: {
+    accessibility: {
+      auditRefs: [
+        { id: 'image-alt', weight: 10 },
+        { id: 'document-title', weight: 7 },
+        { id: 'video-caption', weight: 10 }
+      ]
+    }
+  },
+  audits: {
+    'image-alt': {
+      id: 'image-alt',
+      title: 'Image elements do not have `[alt]` attributes',
+      description: 'Informative elements should aim for short text. [Learn more](https://dequeuniversity.com/rules/axe/image-alt).',
+      score: 0,
+      details: { items: [{ node: { snippet: '<img src="hero.png">', selector: 'main > img', explanation: 'Element has no alt attribute' } }] }
+    },
+    'document-title': { id: 'document-title', title: 'Document has a `<title>` element', score: 1 },
+    'video-caption': { id: 'video-caption', title: 'Video captions', score: null }
+  }
+};
+
+describe('parseAxeResults', () => {
+  it('creates one finding per failing node with the criterion from the rule tags', () => {
+    const { source, pageUrl, violations } = parseAxeResults(axeRun);
+
+    expect(source).toBe('axe-core');
+    expect(pageUrl).toBe('https://example.com/');
+    expect(violations).toHaveLength(3);
+    expect(violations[0]).toMatchObject({
+      severity: Severity.HIGH,
+      wcag_criterion: '1.4.3 Contrast (Minimum)',
+      code_evidence: { file: 'https://example.com/', line: 0, snippet: '<p class="muted">Hi</p>', selector: 'p.muted' },
+      source: 'axe-core'
+    });
+    expect(violations[1]).toMatchObject({ severity: Severity.MEDIUM, code_evidence: { selector: 'iframe span' } });
+  });
+
+  it('labels rules without a WCAG tag as best practices', () => {
+    expect(parseAxeResults(axeRun).violations[2].wcag_criterion).toBe('Best practice: region');
+  });
+
+  it('accepts the array written by @axe-core/cli', () => {
+    expect(parseAxeResults([axeRun, { ...axeRun, url: 'https://example.com/about' }]).violations).toHaveLength(6);
+  });
+});
+
+describe('parseLighthouseReport', () => {
+  it('imports failed audits only, with severity from the audit weight', () => {
+    const { pageUrl, violations } = parseLighthouseReport({ lhr: lighthouseReport });
+
+    expect(pageUrl).toBe('https://example.com/shop');
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      severity: Severity.CRITICAL,
+      wcag_criterion: '1.1.1 Non-text Content',
+      description: 'Informative elements should aim for short text. Learn more.',
+      code_evidence: { file: 'https://example.com/shop', selector: 'main > img' },
+      source: 'lighthouse'
+    });
+  });
+});
+
+describe('parsePa11yResults', () => {
+  const issues = [
+    {
+      code: 'WCAG2AA.Principle1.Guideline1_4.1_4_3.G18.Fail',
+      type: 'error',
+      typeCode: 1,
+      message: 'This element has insufficient contrast. Try a darker colour.',
+      context: '<a href="/">Home</a>',
+      selector: 'nav > a'
+    },
+    { code: 'WCAG2AA.Principle1.Guideline1_3.1_3_1.H48', type: 'notice', typeCode: 3, message: 'Check lists.' },
+    { code: 'color-contrast', type: 'warning', typeCode: 2, message: 'Low contrast', runnerExtras: { impact: 'critical' } }
+  ];
+
+  it('reads the criterion from HTML_CodeSniffer codes and skips notices', () => {
+    const { violations } = parsePa11yResults({ pageUrl: 'https://example.com/', issues });
+
+    expect(violations.map(v => [v.wcag_criterion, v.severity])).toEqual([
+      ['1.4.3 Contrast (Minimum)', Severity.HIGH],
+      ['1.4.3 Contrast (Minimum)', Severity.CRITICAL]
+    ]);
+    expect(violations[0].title).toBe('This element has insufficient contrast.');
+  });
+
+  it('accepts pa11y-ci output with several pages', () => {
+    const { pageUrl, violations } = parsePa11yResults({ results: { 'https://a.test/': issues, 'https://b.test/': [issues[0]] } });
+
+    expect(pageUrl).toBe('https://a.test/');
+    expect(violations.map(v => v.code_evidence?.file)).toEqual(['https://a.test/', 'https://a.test/', 'https://b.test/']);
+  });
+});
+
+describe('parseScannerResults', () => {
+  it('detects the scanner from the file contents', () => {
+    expect(detectImportSource(axeRun)).toBe('axe-core');
+    expect(detectImportSource(lighthouseReport)).toBe('lighthouse');
+    expect(detectImportSource([])).toBe('pa11y');
+    expect(parseScannerResults(JSON.stringify({ lhr: lighthouseReport })).source).toBe('lighthouse');
+  });
+
+  it('rejects invalid and unknown files', () => {
+    expect(() => parseScannerResults('{')).toThrow('File is not valid JSON');
+    expect(() => parseScannerResults('{"hello":"world"}')).toThrow('Unrecognized format');
+    expect(() => parseScannerResults('42')).toThrow('Unrecognized format');
+  });
+});
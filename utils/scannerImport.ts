@@ -0,0 +1,290 @@
+import { ImportSource, Severity, Violation } from '../types';
+import { formatCriterion, lookupCriterion } from './wcagCatalogue';
+
+/**
+ * Converts results from external scanners (axe-core, Lighthouse, Pa11y) into
+ * Violations so they share history, fingerprints and triage with recorded audits.
+ * Scanners report against a page rather than a source file, so code_evidence.file
+ * holds the page URL and line is 0; the selector is what identifies the element.
+ */
+
+export interface ScannerImport {
+  source: ImportSource;
+  pageUrl?: string;
+  violations: Violation[];
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  'axe-core': 'axe-core',
+  lighthouse: 'Lighthouse',
+  pa11y: 'Pa11y'
+};
+
+const AXE_IMPACT: Record<string, Severity> = {
+  critical: Severity.CRITICAL,
+  serious: Severity.HIGH,
+  moderate: Severity.MEDIUM,
+  minor: Severity.LOW
+};
+
+// Lighthouse derives audit weights from axe impact (10/7/3/1)
+const weightSeverity = (weight: number): Severity =>
+  weight >= 10 ? Severity.CRITICAL : weight >= 7 ? Severity.HIGH : weight >= 3 ? Severity.MEDIUM : Severity.LOW;
+
+// Primary WCAG criterion of axe rules, for reports that carry the rule id but not its tags
+// (Lighthouse, Pa11y's axe runner). Rules absent here are axe best practices.
+const AXE_RULE_CRITERIA: Record<string, string> = {
+  'area-alt': '2.4.4',
+  'aria-allowed-attr': '4.1.2',
+  'aria-command-name': '4.1.2',
+  'aria-hidden-body': '4.1.2',
+  'aria-hidden-focus': '4.1.2',
+  'aria-input-field-name': '4.1.2',
+  'aria-meter-name': '1.1.1',
+  'aria-progressbar-name': '1.1.1',
+  'aria-prohibited-attr': '4.1.2',
+  'aria-required-attr': '4.1.2',
+  'aria-required-children': '1.3.1',
+  'aria-required-parent': '1.3.1',
+  'aria-roles': '4.1.2',
+  'aria-toggle-field-name': '4.1.2',
+  'aria-tooltip-name': '4.1.2',
+  'aria-valid-attr': '4.1.2',
+  'aria-valid-attr-value': '4.1.2',
+  'audio-caption': '1.2.1',
+  'autocomplete-valid': '1.3.5',
+  'avoid-inline-spacing': '1.4.12',
+  'blink': '2.2.2',
+  'button-name': '4.1.2',
+  'bypass': '2.4.1',
+  'color-contrast': '1.4.3',
+  'color-contrast-enhanced': '1.4.6',
+  'css-orientation-lock': '1.3.4',
+  'definition-list': '1.3.1',
+  'dlitem': '1.3.1',
+  'document-title': '2.4.2',
+  'duplicate-id': '4.1.1',
+  'duplicate-id-active': '4.1.1',
+  'duplicate-id-aria': '4.1.1',
+  'frame-focusable-content': '2.1.1',
+  'frame-title': '4.1.2',
+  'html-has-lang': '3.1.1',
+  'html-lang-valid': '3.1.1',
+  'html-xml-lang-mismatch': '3.1.1',
+  'identical-links-same-purpose': '2.4.9',
+  'image-alt': '1.1.1',
+  'input-button-name': '4.1.2',
+  'input-image-alt': '1.1.1',
+  'label': '4.1.2',
+  'label-content-name-mismatch': '2.5.3',
+  'link-in-text-block': '1.4.1',
+  'link-name': '2.4.4',
+  'list': '1.3.1',
+  'listitem': '1.3.1',
+  'marquee': '2.2.2',
+  'meta-refresh': '2.2.1',
+  'meta-viewport': '1.4.4',
+  'nested-interactive': '4.1.2',
+  'no-autoplay-audio': '1.4.2',
+  'object-alt': '1.1.1',
+  'p-as-heading': '1.3.1',
+  'role-img-alt': '1.1.1',
+  'scrollable-region-focusable': '2.1.1',
+  'select-name': '4.1.2',
+  'server-side-image-map': '2.1.1',
+  'svg-img-alt': '1.1.1',
+  'target-size': '2.5.8',
+  'td-has-header': '1.3.1',
+  'td-headers-attr': '1.3.1',
+  'th-has-data-cells': '1.3.1',
+  'valid-lang': '3.1.2',
+  'video-caption': '1.2.2'
+};
+
+// axe tags encode criteria as "wcag" + digits, e.g. wcag143 -> 1.4.3, wcag1410 -> 1.4.10
+function criterionFromAxeTags(tags: string[] = []): string | undefined {
+  for (const tag of tags) {
+    const match = tag.match(/^wcag(\d)(\d)(\d{1,2})$/);
+    if (match) return `${match[1]}.${match[2]}.${match[3]}`;
+  }
+  return undefined;
+}
+
+function criterionText(ruleId: string, id: string | undefined): string {
+  const criterion = id ? lookupCriterion(id) : undefined;
+  if (criterion) return formatCriterion(criterion);
+  return id || `Best practice: ${ruleId}`;
+}
+
+// Markdown links in Lighthouse descriptions, e.g. "[Learn how](https://...)"
+const stripMarkdownLinks = (text: string) => text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').trim();
+
+interface FindingInput {
+  source: ImportSource;
+  ruleId: string;
+  criterion: string;
+  severity: Severity;
+  title: string;
+  description: string;
+  pageUrl: string;
+  snippet: string;
+  selector?: string;
+  detail?: string;
+  impactLabel: string;
+  helpUrl?: string;
+}
+
+function toViolation(f: FindingInput): Violation {
+  const label = IMPORT_SOURCE_LABELS[f.source];
+  return {
+    id: `${f.source}-${f.ruleId}-${f.selector || f.snippet}`,
+    severity: f.severity,
+    wcag_criterion: f.criterion,
+    title: f.title,
+    description: f.description,
+    code_evidence: {
+      file: f.pageUrl,
+      line: 0,
+      snippet: f.snippet,
+      ...(f.selector && { selector: f.selector })
+    },
+    reasoning: `${label} rule "${f.ruleId}" failed${f.selector ? ` on ${f.selector}` : ''}.${f.detail ? ` ${f.detail}` : ''}`,
+    user_impact: `${label} rates this issue as ${f.impactLabel}.`,
+    suggested_fix: {
+      code: '',
+      explanation: [f.detail, f.helpUrl && `See ${f.helpUrl}`].filter(Boolean).join(' ')
+    },
+    source: f.source
+  };
+}
+
+// ============= AXE-CORE =============
+
+// Accepts a single axe.run() result or the array written by @axe-core/cli
+export function parseAxeResults(data: any): ScannerImport {
+  const runs: any[] = Array.isArray(data) ? data : [data];
+  const violations = runs.flatMap(run => (run.violations || []).flatMap((rule: any) =>
+    (rule.nodes || []).map((node: any) => toViolation({
+      source: 'axe-core',
+      ruleId: rule.id,
+      criterion: criterionText(rule.id, criterionFromAxeTags(rule.tags) || AXE_RULE_CRITERIA[rule.id]),
+      severity: AXE_IMPACT[node.impact || rule.impact] || Severity.MEDIUM,
+      title: rule.help || rule.id,
+      description: rule.description || rule.help || rule.id,
+      pageUrl: run.url || '',
+      snippet: node.html || '',
+      selector: Array.isArray(node.target) ? node.target.flat().join(' ') : undefined,
+      detail: node.failureSummary,
+      impactLabel: `${node.impact || rule.impact || 'unknown'} impact`,
+      helpUrl: rule.helpUrl
+    }))
+  ));
+  return { source: 'axe-core', pageUrl: runs[0]?.url, violations };
+}
+
+// ============= LIGHTHOUSE =============
+
+// Accepts a Lighthouse result (LHR) or the { lhr } wrapper returned by the Node API
+export function parseLighthouseReport(data: any): ScannerImport {
+  const lhr = data.lhr || data;
+  const pageUrl: string = lhr.finalDisplayedUrl || lhr.finalUrl || lhr.requestedUrl || '';
+  const refs: any[] = lhr.categories?.accessibility?.auditRefs || [];
+
+  const violations = refs.flatMap(ref => {
+    const audit = lhr.audits?.[ref.id];
+    // Binary audits with score 0 failed; manual and not-applicable audits have a null score
+    if (!audit || audit.score !== 0) return [];
+    const items: any[] = audit.details?.items || [];
+    return items.map(item => {
+      const node = item.node || {};
+      return toViolation({
+        source: 'lighthouse',
+        ruleId: audit.id,
+        criterion: criterionText(audit.id, AXE_RULE_CRITERIA[audit.id]),
+        severity: weightSeverity(ref.weight || 0),
+        title: audit.title,
+        description: stripMarkdownLinks(audit.description || audit.title),
+        pageUrl,
+        snippet: node.snippet || '',
+        selector: node.selector,
+        detail: node.explanation,
+        impactLabel: `weight ${ref.weight || 0} in the accessibility score`
+      });
+    });
+  });
+
+  return { source: 'lighthouse', pageUrl, violations };
+}
+
+// ============= PA11Y =============
+
+const PA11Y_TYPE: Record<string, Severity> = {
+  error: Severity.HIGH,
+  warning: Severity.MEDIUM
+};
+
+// HTML_CodeSniffer codes embed the criterion: WCAG2AA.Principle1.Guideline1_4.1_4_3.G18.Fail
+function criterionFromPa11yCode(code: string): string | undefined {
+  const match = code.match(/Guideline\d_\d+\.(\d)_(\d+)_(\d+)/);
+  if (match) return `${match[1]}.${match[2]}.${match[3]}`;
+  return AXE_RULE_CRITERIA[code];
+}
+
+// Accepts `pa11y --reporter json` output (issue array or { pageUrl, issues })
+// and `pa11y-ci --json` output ({ results: { [url]: issues } })
+export function parsePa11yResults(data: any): ScannerImport {
+  const pages: { url: string; issues: any[] }[] = Array.isArray(data)
+    ? [{ url: '', issues: data }]
+    : data.results
+      ? Object.entries(data.results).map(([url, issues]) => ({ url, issues: Array.isArray(issues) ? issues : [] }))
+      : [{ url: data.pageUrl || '', issues: data.issues || [] }];
+
+  const violations = pages.flatMap(page => page.issues
+    // Notices are prompts for manual review, not failures
+    .filter(issue => issue.type !== 'notice')
+    .map(issue => {
+      const impact: string | undefined = issue.runnerExtras?.impact;
+      const message: string = issue.message || issue.code;
+      return toViolation({
+        source: 'pa11y',
+        ruleId: issue.code,
+        criterion: criterionText(issue.code, criterionFromPa11yCode(issue.code || '')),
+        severity: (impact && AXE_IMPACT[impact]) || PA11Y_TYPE[issue.type] || Severity.LOW,
+        title: message.split(/(?<=\.)\s/)[0],
+        description: message,
+        pageUrl: page.url,
+        snippet: issue.context || '',
+        selector: issue.selector || undefined,
+        impactLabel: impact ? `${impact} impact` : `an ${issue.type || 'issue'}`,
+        helpUrl: issue.runnerExtras?.helpUrl
+      });
+    }));
+
+  return { source: 'pa11y', pageUrl: pages[0]?.url || undefined, violations };
+}
+
+// ============= DETECTION =============
+
+export function detectImportSource(data: any): ImportSource | null {
+  const first = Array.isArray(data) ? data[0] : data;
+  if (!first || typeof first !== 'object') return Array.isArray(data) ? 'pa11y' : null;
+  if (first.lhr || first.lighthouseVersion) return 'lighthouse';
+  if (first.testEngine?.name === 'axe-core' || (Array.isArray(first.violations) && Array.isArray(first.passes))) return 'axe-core';
+  if (first.results || first.issues || (typeof first.code === 'string' && 'typeCode' in first)) return 'pa11y';
+  return null;
+}
+
+export function parseScannerResults(text: string): ScannerImport {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  switch (detectImportSource(data)) {
+    case 'axe-core': return parseAxeResults(data);
+    case 'lighthouse': return parseLighthouseReport(data);
+    case 'pa11y': return parsePa11yResults(data);
+    default: throw new Error('Unrecognized format. Expected axe-core, Lighthouse or Pa11y JSON.');
+  }
+}
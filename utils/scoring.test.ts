@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ScoringProfile, Severity, Violation } from '../types';
+import {
+  DEFAULT_SCORING_PROFILE,
+  activeScoringProfile,
+  calculateAccessibilityScore,
+  determineWCAGCompliance,
+  generateAuditReport,
+  rescoreReport
+} from './scoring';
+
+const finding = (severity: Severity, wcag_criterion: string): Violation => ({
+  severity,
+  wcag_criterion,
+  title: 'Finding',
+  description: '',
+  user_impact: '',
+  suggested_fix: { code: '', explanation: '' }
+});
+
+const profile = (changes: Partial<ScoringProfile>): ScoringProfile => ({
+  ...DEFAULT_SCORING_PROFILE,
+  profileId: 'strict',
+  name: 'Strict',
+  ...changes
+});
+
+describe('calculateAccessibilityScore', () => {
+  it('deducts 15/8/4/2 per finding with the default profile', () => {
+    const violations = [
+      finding(Severity.CRITICAL, '1.1.1'),
+      finding(Severity.HIGH, '1.4.3'),
+      finding(Severity.MEDIUM, '2.4.7'),
+      finding(Severity.LOW, '1.4.6')
+    ];
+    expect(calculateAccessibilityScore(violations)).toBe(100 - 15 - 8 - 4 - 2);
+  });
+
+  it('applies criterion multipliers by criterion number', () => {
+    const violations = [finding(Severity.HIGH, '1.4.3 Contrast (Minimum)'), finding(Severity.HIGH, '2.4.7')];
+    expect(calculateAccessibilityScore(violations, profile({ criterionMultipliers: { '1.4.3': 2.5 } }))).toBe(100 - 20 - 8);
+  });
+
+  it('discounts repeats of a criterion, largest deduction first', () => {
+    const violations = [finding(Severity.LOW, '1.4.3'), finding(Severity.CRITICAL, '1.4.3'), finding(Severity.HIGH, '1.4.3')];
+    // 15 + 8 * 0.5 + 2 * 0.25
+    expect(calculateAccessibilityScore(violations, profile({ diminishingFactor: 0.5 }))).toBe(Math.round(100 - 15 - 4 - 0.5));
+  });
+
+  it('never goes below zero', () => {
+    const violations = Array.from({ length: 10 }, () => finding(Severity.CRITICAL, '1.1.1'));
+    expect(calculateAccessibilityScore(violations)).toBe(0);
+  });
+});
+
+describe('determineWCAGCompliance', () => {
+  it('counts findings per level and passes a level only if all lower levels pass', () => {
+    const compliance = determineWCAGCompliance([finding(Severity.HIGH, '1.4.3'), finding(Severity.LOW, '1.4.6')], 'AAA');
+
+    expect(compliance.level_a).toEqual({ pass: true, violations: 0 });
+    expect(compliance.level_aa).toEqual({ pass: false, violations: 1 });
+    expect(compliance.level_aaa).toEqual({ not_tested: false, pass: false, violations: 1 });
+    expect(compliance.meets_target).toBe(false);
+  });
+
+  it('leaves AAA untested unless it is the target', () => {
+    const compliance = determineWCAGCompliance([finding(Severity.LOW, '1.4.6')], 'AA');
+    expect(compliance.level_aaa).toEqual({ not_tested: true });
+    expect(compliance.meets_target).toBe(true);
+  });
+
+  it('only counts criteria that are part of the chosen WCAG version', () => {
+    const parsing = [finding(Severity.LOW, '4.1.1 Parsing')];
+    const targetSize = [finding(Severity.MEDIUM, '2.5.8 Target Size (Minimum)')];
+
+    expect(determineWCAGCompliance(parsing, 'A', '2.1')).toMatchObject({ level_a: { pass: false, violations: 1 }, wcag_version: '2.1' });
+    expect(determineWCAGCompliance(parsing, 'A', '2.2')).toMatchObject({ level_a: { pass: true, violations: 0 }, meets_target: true });
+    expect(determineWCAGCompliance(targetSize, 'AA', '2.1').meets_target).toBe(true);
+    expect(determineWCAGCompliance(targetSize, 'AA', '2.2').meets_target).toBe(false);
+  });
+});
+
+describe('rescoreReport', () => {
+  it('recomputes score and compliance without touching the findings', () => {
+    const violations = [finding(Severity.HIGH, '1.4.6 Contrast (Enhanced)')];
+    const report = generateAuditReport(violations);
+    const severityWeights = { ...DEFAULT_SCORING_PROFILE.severityWeights, [Severity.HIGH]: 30 };
+    const rescored = rescoreReport(report, profile({ severityWeights, conformanceTarget: 'AAA' }));
+
+    expect(report.overall_score).toBe(92);
+    expect(report.wcag_compliance.meets_target).toBe(true);
+    expect(rescored.overall_score).toBe(70);
+    expect(rescored.wcag_compliance).toMatchObject({ target: 'AAA', meets_target: false });
+    expect(rescored.violations).toBe(report.violations);
+    expect(rescored.analyzed_at).toBe(report.analyzed_at);
+  });
+});
+
+describe('activeScoringProfile', () => {
+  const strict = profile({});
+
+  it('picks the project profile, falling back to the default', () => {
+    expect(activeScoringProfile({ scoringProfiles: [strict], activeScoringProfileId: 'strict' })).toBe(strict);
+    expect(activeScoringProfile({ scoringProfiles: [strict], activeScoringProfileId: 'deleted' })).toBe(DEFAULT_SCORING_PROFILE);
+    expect(activeScoringProfile({})).toBe(DEFAULT_SCORING_PROFILE);
+  });
+});
@@ -1,64 +1,109 @@
-import { Violation, Severity, WcagCompliance, AuditReport, AuditSummary } from '../types';
+import { Violation, Severity, WcagCompliance, AuditReport, AuditSummary, ConformanceTarget, ScoringProfile, ScoringProfileRef, Project, WcagLevel, WcagVersion } from '../types';
+import { criterionId } from './fingerprint';
+import { criterionLevel } from './wcagCatalogue';
+import { mapToStandards } from './standardsMapping';
 
-export function calculateAccessibilityScore(violations: Violation[]): number {
-  // WCAG-based scoring algorithm (deterministic)
-  const weights = {
+// Reproduces the original fixed scoring: 15/8/4/2 per violation, no multipliers, AA target
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  profileId: 'default',
+  name: 'Default',
+  version: 1,
+  severityWeights: {
     [Severity.CRITICAL]: 15,
     [Severity.HIGH]: 8,
     [Severity.MEDIUM]: 4,
     [Severity.LOW]: 2
-  };
-  
+  },
+  criterionMultipliers: {},
+  diminishingFactor: 1,
+  conformanceTarget: 'AA',
+  wcagVersion: '2.2',
+  updatedAt: '1970-01-01T00:00:00.000Z'
+};
+
+export const profileRef = (profile: ScoringProfile): ScoringProfileRef => ({
+  profileId: profile.profileId,
+  name: profile.name,
+  version: profile.version
+});
+
+export function calculateAccessibilityScore(
+  violations: Violation[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  // WCAG-based scoring algorithm (deterministic)
+  const deductionFor = (violation: Violation) =>
+    (profile.severityWeights[violation.severity] || 0) *
+    (profile.criterionMultipliers[criterionId(violation.wcag_criterion)] ?? 1);
+
+  // Group by criterion so repeats of the same issue can count for progressively less
+  const byCriterion = new Map<string, number[]>();
+  violations.forEach(violation => {
+    const key = criterionId(violation.wcag_criterion);
+    byCriterion.set(key, [...(byCriterion.get(key) || []), deductionFor(violation)]);
+  });
+
   // Start with perfect score
   let score = 100;
-  
-  // Deduct points for each violation
-  violations.forEach(violation => {
-    score -= weights[violation.severity] || 0;
+
+  // Deduct points for each violation, largest first so diminishing returns discount the minor repeats
+  byCriterion.forEach(deductions => {
+    deductions.sort((a, b) => b - a).forEach((deduction, i) => {
+      score -= deduction * Math.pow(profile.diminishingFactor, i);
+    });
   });
-  
+
   // Floor at 0 (can't go negative)
   return Math.max(0, Math.round(score));
 }
 
-export function determineWCAGCompliance(violations: Violation[]): WcagCompliance {
-  const checkLevel = (regex: RegExp) => violations.filter(v => regex.test(v.wcag_criterion));
+export function determineWCAGCompliance(
+  violations: Violation[],
+  target: ConformanceTarget = DEFAULT_SCORING_PROFILE.conformanceTarget,
+  version: WcagVersion = '2.2'
+): WcagCompliance {
+  // Levels come from the criterion catalogue; criteria outside the chosen WCAG version don't count
+  const checkLevel = (level: WcagLevel) => violations.filter(v => criterionLevel(v.wcag_criterion, version) === level);
 
   // Level A violations (most critical - fundamental accessibility)
-  const levelAViolations = checkLevel(
-    /^1\.1\.1|^1\.2\.[1-3]|^1\.3\.[1-3]|^1\.4\.1|^2\.1\.[1-2]|^2\.2\.[1-2]|^2\.3\.1|^2\.4\.[1-4]|^3\.1\.1|^3\.2\.[1-2]|^3\.3\.[1-2]|^4\.1\.[1-2]/
-  );
+  const levelAViolations = checkLevel('A');
   
   // Level AA violations
-  const levelAAViolations = checkLevel(
-    /^1\.2\.[4-5]|^1\.4\.[3-5]|^2\.4\.[5-7]|^3\.1\.2|^3\.2\.[3-4]|^3\.3\.[3-4]/
-  );
+  const levelAAViolations = checkLevel('AA');
   
   // Level AAA (aspirational)
-  // Not exhaustively testing AAA in this automation usually, but if present:
-  const levelAAAViolations = checkLevel(
-    /^1\.2\.[6-9]|^1\.4\.[6-9]|^2\.2\.[3-6]|^2\.3\.[2-3]|^2\.4\.8|^2\.4\.9|^2\.4\.10|^3\.1\.[3-6]|^3\.2\.5|^3\.3\.[5-6]/
-  );
+  const levelAAAViolations = checkLevel('AAA');
+
+  const levelAPass = levelAViolations.length === 0;
+  const levelAAPass = levelAPass && levelAAViolations.length === 0;
+  const levelAAAPass = levelAAPass && levelAAAViolations.length === 0;
 
   return {
     level_a: {
-      pass: levelAViolations.length === 0,
+      pass: levelAPass,
       violations: levelAViolations.length
     },
     level_aa: {
-      pass: levelAViolations.length === 0 && levelAAViolations.length === 0,
+      pass: levelAAPass,
       violations: levelAAViolations.length
     },
-    level_aaa: {
-      not_tested: true // Generally considered not fully automated
-    }
+    // Generally considered not fully automated, so only evaluated when a project explicitly targets it
+    level_aaa: target === 'AAA'
+      ? { not_tested: false, pass: levelAAAPass, violations: levelAAAViolations.length }
+      : { not_tested: true },
+    target,
+    meets_target: target === 'A' ? levelAPass : target === 'AA' ? levelAAPass : levelAAAPass,
+    wcag_version: version
   };
 }
 
-export function generateAuditReport(violations: Violation[]): AuditReport {
-  const overall_score = calculateAccessibilityScore(violations);
-  const wcag_compliance = determineWCAGCompliance(violations);
-  
+export function generateAuditReport(
+  violations: Violation[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): AuditReport {
+  const overall_score = calculateAccessibilityScore(violations, profile);
+  const wcag_compliance = determineWCAGCompliance(violations, profile.conformanceTarget, profile.wcagVersion);
+
   const summary: AuditSummary = {
     total_violations: violations.length,
     critical: violations.filter(v => v.severity === Severity.CRITICAL).length,
@@ -70,8 +115,24 @@ export function generateAuditReport(violations: Violation[]): AuditReport {
   return {
     overall_score,
     wcag_compliance,
+    standards_compliance: mapToStandards(violations),
     violations,
     summary,
     analyzed_at: new Date().toISOString()
   };
-}
\ No newline at end of file
+}
+
+// Recomputes score and compliance for a stored report without touching its findings
+export function rescoreReport(report: AuditReport, profile: ScoringProfile): AuditReport {
+  const rescored = generateAuditReport(report.violations, profile);
+  return {
+    ...report,
+    overall_score: rescored.overall_score,
+    wcag_compliance: rescored.wcag_compliance,
+    standards_compliance: rescored.standards_compliance
+  };
+}
+
+export function activeScoringProfile(project: Pick<Project, 'scoringProfiles' | 'activeScoringProfileId'>): ScoringProfile {
+  return project.scoringProfiles?.find(p => p.profileId === project.activeScoringProfileId) || DEFAULT_SCORING_PROFILE;
+}
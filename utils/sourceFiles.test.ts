@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_UPLOAD_OPTIONS, buildFileTree, collectSourceFiles, globToRegExp, parseGlobList } from './sourceFiles';
+
+vi.mock('./zipReader', () => ({
+  readZipEntries: async () => [
+    'repo-main/index.html',
+    'repo-main/src/App.tsx',
+    'repo-main/node_modules/react/index.js',
+    'repo-main/README.md'
+  ].map(path => ({ path, size: path.length, read: async () => new TextEncoder().encode(`// ${path}`) }))
+}));
+
+const upload = (path: string, content = '', relativePath?: string) =>
+  Object.assign(new File([content], path.split('/').pop()!), relativePath ? { relativePath } : {});
+
+describe('globToRegExp', () => {
+  it('supports **, *, ? and {a,b}', () => {
+    expect(globToRegExp('src/**/*.{ts,tsx}').test('src/a/b/App.tsx')).toBe(true);
+    expect(globToRegExp('src/**/*.{ts,tsx}').test('src/App.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/App.ts')).toBe(false);
+    expect(globToRegExp('page?.html').test('pages/page1.html')).toBe(true);
+    expect(globToRegExp('page?.html').test('page10.html')).toBe(false);
+  });
+
+  it('matches patterns without a slash against the file name in any folder', () => {
+    expect(globToRegExp('*.min.js').test('vendor/lib/jquery.min.js')).toBe(true);
+    expect(globToRegExp('**/node_modules/**').test('node_modules/react/index.js')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('file(1).html').test('file(1).html')).toBe(true);
+    expect(globToRegExp('a+b.html').test('aab.html')).toBe(false);
+  });
+});
+
+describe('parseGlobList', () => {
+  it('splits on commas and new lines and drops blanks', () => {
+    expect(parseGlobList('src/**, *.html\n\n  lib/*.js ')).toEqual(['src/**', '*.html', 'lib/*.js']);
+  });
+});
+
+describe('collectSourceFiles', () => {
+  it('filters, size-limits and sorts uploaded files', async () => {
+    const { files, skipped } = await collectSourceFiles([
+      upload('b.tsx', '<b/>'),
+      upload('a.html', '<a/>'),
+      upload('dist/bundle.js', 'x', 'dist/bundle.js'),
+      upload('notes.md', '# notes'),
+      upload('big.html', 'x'.repeat(2000))
+    ], { ...DEFAULT_UPLOAD_OPTIONS, maxFileSize: 1024 });
+
+    expect(files.map(f => f.path)).toEqual(['a.html', 'b.tsx']);
+    expect(skipped).toEqual([
+      { path: 'dist/bundle.js', reason: 'Excluded by filter' },
+      { path: 'notes.md', reason: 'Not matched by include filter' },
+      { path: 'big.html', reason: 'Larger than 1 KB' }
+    ]);
+  });
+
+  it('stops accepting files at the total size limit', async () => {
+    const { files, skipped } = await collectSourceFiles(
+      [upload('a.html', '12345'), upload('b.html', '12345'), upload('c.html', '1')],
+      { ...DEFAULT_UPLOAD_OPTIONS, maxTotalSize: 8 }
+    );
+
+    expect(files.map(f => f.path)).toEqual(['a.html', 'c.html']);
+    expect(skipped).toEqual([{ path: 'b.html', reason: 'Total upload size limit reached' }]);
+  });
+
+  it('strips the archive root folder and keeps the last copy of a path', async () => {
+    const { files, skipped } = await collectSourceFiles([
+      upload('index.html', 'uploaded first'),
+      upload('repo.zip')
+    ]);
+
+    expect(files).toEqual([
+      { path: 'index.html', content: '// repo-main/index.html' },
+      { path: 'src/App.tsx', content: '// repo-main/src/App.tsx' }
+    ]);
+    expect(skipped.map(s => s.path)).toEqual(['node_modules/react/index.js', 'README.md']);
+  });
+});
+
+describe('buildFileTree', () => {
+  it('nests files under folders, folders first', () => {
+    const tree = buildFileTree([
+      { path: 'index.html', content: '' },
+      { path: 'src/App.tsx', content: '' },
+      { path: 'src/components/Nav.tsx', content: '' }
+    ]);
+
+    expect(tree.children.map(c => c.name)).toEqual(['src', 'index.html']);
+    expect(tree.children[0].children.map(c => c.path)).toEqual(['src/components', 'src/App.tsx']);
+    expect(tree.children[0].children[0].children[0].file?.path).toBe('src/components/Nav.tsx');
+  });
+});
@@ -0,0 +1,230 @@
+import { SourceFile } from '../types';
+import { readZipEntries } from './zipReader';
+
+/**
+ * Turns uploaded files, folders and .zip archives into a flat list of source
+ * files with repository-relative paths, applying size limits and glob filters.
+ */
+
+export interface SourceUploadOptions {
+  include: string[];
+  exclude: string[];
+  maxFileSize: number; // bytes, per file
+  maxTotalSize: number; // bytes, across all accepted files
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface SourceCollection {
+  files: SourceFile[];
+  skipped: SkippedFile[];
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children: FileTreeNode[];
+  file?: SourceFile;
+}
+
+export const DEFAULT_UPLOAD_OPTIONS: SourceUploadOptions = {
+  include: ['**/*.{html,htm,tsx,jsx,ts,js,vue,svelte,css}'],
+  exclude: [
+    '**/node_modules/**',
+    '**/dist/**',
+    '**/build/**',
+    '**/out/**',
+    '**/coverage/**',
+    '**/.git/**',
+    '**/.next/**',
+    '**/*.min.js',
+    '**/*.d.ts'
+  ],
+  maxFileSize: 512 * 1024,
+  maxTotalSize: 5 * 1024 * 1024
+};
+
+// ============= GLOB MATCHING =============
+
+// Supports **, *, ? and {a,b}. A pattern without "/" matches the file name anywhere.
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim();
+  if (!pattern.includes('/')) pattern = `**/${pattern}`;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, close).split(',').map(o => o.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${options.join('|')})`;
+      i = close;
+    } else {
+      source += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function parseGlobList(value: string): string[] {
+  return value.split(/[\n,]/).map(g => g.trim()).filter(Boolean);
+}
+
+function createPathFilter(options: SourceUploadOptions): (path: string) => string | null {
+  const include = options.include.map(globToRegExp);
+  const exclude = options.exclude.map(globToRegExp);
+  return path => {
+    if (exclude.some(re => re.test(path))) return 'Excluded by filter';
+    if (include.length > 0 && !include.some(re => re.test(path))) return 'Not matched by include filter';
+    return null;
+  };
+}
+
+// ============= COLLECTION =============
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^\.?\//, '');
+
+const isZip = (file: File) => /\.zip$/i.test(file.name) || file.type === 'application/zip';
+
+// Browsers give folder uploads a webkitRelativePath; drag & drop paths are set by the caller
+export const uploadPath = (file: File & { relativePath?: string }) =>
+  normalizePath(file.relativePath || file.webkitRelativePath || file.name);
+
+// Archives usually wrap everything in one top-level folder (repo-main/); strip it
+function commonRoot(paths: string[]): string {
+  if (paths.length === 0) return '';
+  const first = paths[0].split('/');
+  if (first.length < 2) return '';
+  const root = first[0] + '/';
+  return paths.every(p => p.startsWith(root)) ? root : '';
+}
+
+export async function collectSourceFiles(
+  uploads: Array<File & { relativePath?: string }>,
+  options: SourceUploadOptions = DEFAULT_UPLOAD_OPTIONS
+): Promise<SourceCollection> {
+  const filter = createPathFilter(options);
+  const files: SourceFile[] = [];
+  const skipped: SkippedFile[] = [];
+  let totalSize = 0;
+
+  const accept = async (path: string, size: number, read: () => Promise<string>) => {
+    const reason = filter(path);
+    if (reason) {
+      skipped.push({ path, reason });
+      return;
+    }
+    if (size > options.maxFileSize) {
+      skipped.push({ path, reason: `Larger than ${Math.round(options.maxFileSize / 1024)} KB` });
+      return;
+    }
+    if (totalSize + size > options.maxTotalSize) {
+      skipped.push({ path, reason: 'Total upload size limit reached' });
+      return;
+    }
+    totalSize += size;
+    files.push({ path, content: await read() });
+  };
+
+  for (const upload of uploads) {
+    if (isZip(upload)) {
+      const entries = await readZipEntries(upload);
+      const root = commonRoot(entries.map(e => normalizePath(e.path)));
+      const decoder = new TextDecoder();
+      for (const entry of entries) {
+        const path = normalizePath(entry.path).slice(root.length);
+        await accept(path, entry.size, async () => decoder.decode(await entry.read()));
+      }
+      continue;
+    }
+    await accept(uploadPath(upload), upload.size, () => upload.text());
+  }
+
+  // Same path uploaded twice (e.g. file + zip): keep the last one
+  const byPath = new Map(files.map(f => [f.path, f]));
+  return {
+    files: Array.from(byPath.values()).sort((a, b) => a.path.localeCompare(b.path)),
+    skipped
+  };
+}
+
+// Recursively reads dropped folders via the non-standard but widely supported entry API
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<Array<File & { relativePath?: string }>> {
+  const results: Array<File & { relativePath?: string }> = [];
+
+  const readEntry = async (entry: FileSystemEntry, prefix: string): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      results.push(Object.assign(file, { relativePath: `${prefix}${file.name}` }));
+      return;
+    }
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until it yields an empty array
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await readEntry(child, `${prefix}${entry.name}/`);
+      }
+    }
+  };
+
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  for (const entry of entries) await readEntry(entry, '');
+  return results;
+}
+
+// ============= VIRTUAL TREE =============
+
+export function buildFileTree(files: SourceFile[]): FileTreeNode {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    parts.forEach((part, i) => {
+      const path = parts.slice(0, i + 1).join('/');
+      let child = node.children.find(c => c.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      if (i === parts.length - 1) child.file = file;
+      node = child;
+    });
+  }
+
+  const sort = (node: FileTreeNode) => {
+    node.children.sort((a, b) => {
+      if (!!a.file !== !!b.file) return a.file ? 1 : -1; // Folders first
+      return a.name.localeCompare(b.name);
+    });
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Severity, Violation } from '../types';
+import { mapToStandards } from './standardsMapping';
+
+const finding = (wcag_criterion: string): Violation => ({
+  severity: Severity.HIGH,
+  wcag_criterion,
+  title: '',
+  description: '',
+  user_impact: '',
+  suggested_fix: { code: '', explanation: '' }
+});
+
+describe('mapToStandards', () => {
+  it('maps findings to Section 508 and EN 301 549 clauses, grouped per clause', () => {
+    const [section508, en301549] = mapToStandards([
+      finding('1.4.3 Contrast (Minimum)'),
+      finding('1.4.3 Contrast (Minimum)'),
+      finding('1.1.1 Non-text Content')
+    ]);
+
+    expect(section508).toMatchObject({ standard: 'section508', pass: false, out_of_scope: 0 });
+    expect(section508.clauses_failed).toEqual([
+      { clause: 'E205.4 (WCAG 2.0 1.4.3)', title: 'Contrast (Minimum)', wcag: '1.4.3', violations: 2 },
+      { clause: 'E205.4 (WCAG 2.0 1.1.1)', title: 'Non-text Content', wcag: '1.1.1', violations: 1 }
+    ]);
+    expect(en301549.clauses_failed.map(c => c.clause)).toEqual(['9.1.4.3', '9.1.1.1']);
+  });
+
+  it('counts A and AA criteria of the referenced WCAG version only', () => {
+    const [section508, en301549] = mapToStandards([]);
+
+    // WCAG 2.0 has 38 A/AA criteria, WCAG 2.1 adds 12; 4.1.1 still counts for both
+    expect(section508).toMatchObject({ pass: true, clauses_total: 38, clauses_failed: [] });
+    expect(en301549).toMatchObject({ pass: true, clauses_total: 50 });
+  });
+
+  it('reports AAA, newer and unrecognized criteria as out of scope', () => {
+    const [section508, en301549] = mapToStandards([
+      finding('1.4.6 Contrast (Enhanced)'),
+      finding('1.4.11 Non-text Contrast'),
+      finding('2.5.8 Target Size (Minimum)'),
+      finding('Best practice')
+    ]);
+
+    expect(section508).toMatchObject({ pass: true, out_of_scope: 4 });
+    expect(en301549).toMatchObject({ pass: false, out_of_scope: 3 });
+    expect(en301549.clauses_failed.map(c => c.wcag)).toEqual(['1.4.11']);
+  });
+});
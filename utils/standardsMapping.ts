@@ -0,0 +1,73 @@
+import { StandardClauseResult, StandardCompliance, StandardId, Violation, WcagCriterion, WcagVersion } from '../types';
+import { isInVersion, lookupCriterion, WCAG_CRITERIA } from './wcagCatalogue';
+
+/**
+ * Projects WCAG findings onto procurement standards. Both standards incorporate
+ * WCAG Level A and AA by reference for web content:
+ *  - Revised Section 508 (2017), E205.4 — WCAG 2.0
+ *  - EN 301 549 V3.2.1 (2021), clause 9 — WCAG 2.1; clause 9.x.y.z mirrors SC x.y.z
+ * Only the web content requirements are assessed; hardware, software and
+ * documentation clauses are outside what a recording + source audit can show.
+ */
+
+interface StandardDefinition {
+  id: StandardId;
+  name: string;
+  version: string;
+  wcagVersion: WcagVersion;
+  clauseFor: (criterion: WcagCriterion) => string;
+}
+
+export const STANDARDS: StandardDefinition[] = [
+  {
+    id: 'section508',
+    name: 'Section 508',
+    version: 'Revised 2017',
+    wcagVersion: '2.0',
+    clauseFor: criterion => `E205.4 (WCAG 2.0 ${criterion.id})`
+  },
+  {
+    id: 'en301549',
+    name: 'EN 301 549',
+    version: 'V3.2.1',
+    wcagVersion: '2.1',
+    clauseFor: criterion => `9.${criterion.id}`
+  }
+];
+
+const inScope = (standard: StandardDefinition, criterion: WcagCriterion) =>
+  criterion.level !== 'AAA' && isInVersion(criterion, standard.wcagVersion);
+
+export function mapToStandard(violations: Violation[], standard: StandardDefinition): StandardCompliance {
+  const failures = new Map<string, StandardClauseResult>();
+  let outOfScope = 0;
+
+  for (const violation of violations) {
+    const criterion = lookupCriterion(violation.wcag_criterion);
+    if (!criterion || !inScope(standard, criterion)) {
+      outOfScope++;
+      continue;
+    }
+    const clause = standard.clauseFor(criterion);
+    const existing = failures.get(clause);
+    if (existing) {
+      existing.violations++;
+    } else {
+      failures.set(clause, { clause, title: criterion.name, wcag: criterion.id, violations: 1 });
+    }
+  }
+
+  return {
+    standard: standard.id,
+    name: standard.name,
+    version: standard.version,
+    pass: failures.size === 0,
+    clauses_failed: Array.from(failures.values()),
+    clauses_total: WCAG_CRITERIA.filter(c => inScope(standard, c)).length,
+    out_of_scope: outOfScope
+  };
+}
+
+export function mapToStandards(violations: Violation[]): StandardCompliance[] {
+  return STANDARDS.map(standard => mapToStandard(violations, standard));
+}
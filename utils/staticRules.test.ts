@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Severity, SourceFile, Violation } from '../types';
+import { mergeViolations, runStaticRules } from './staticRules';
+
+const rulesHit = (path: string, content: string) =>
+  runStaticRules([{ path, content }]).map(v => v.id!.replace(`-${path}-`, '@'));
+
+describe('runStaticRules', () => {
+  it('flags hard-rule failures with file, line and selector', () => {
+    const [violation] = runStaticRules([{ path: 'index.html', content: '<html lang="en">\n<img src="logo.png">\n</html>' }]);
+
+    expect(violation).toMatchObject({
+      wcag_criterion: '1.1.1 Non-text Content',
+      severity: Severity.CRITICAL,
+      code_evidence: { file: 'index.html', line: 2, selector: 'img[src="logo.png"]' },
+      source: 'static-analysis'
+    });
+  });
+
+  it('accepts labelled controls and named buttons', () => {
+    const content = [
+      '<html lang="en">',
+      '<label for="email">Email</label><input id="email">',
+      '<label>Name <input name="name"></label>',
+      '<input type="search" aria-label="Search">',
+      '<input type="hidden" name="csrf">',
+      '<button><img src="x.svg" alt="Close"></button>',
+      '<button aria-label="Menu"><svg aria-hidden="true"></svg></button>',
+      '<img src="divider.png" alt="">',
+      '</html>'
+    ].join('\n');
+
+    expect(rulesHit('index.html', content)).toEqual([]);
+  });
+
+  it('reports unlabelled controls, empty buttons, positive tabindex, duplicate ids and skipped headings', () => {
+    const content = [
+      '<html>',
+      '<input id="q">',
+      '<button><svg aria-hidden="true"></svg></button>',
+      '<a href="/" tabindex="2">Home</a>',
+      '<h1>Title</h1><h3 id="q">Section</h3>',
+      '</html>'
+    ].join('\n');
+
+    expect(rulesHit('index.html', content).sort()).toEqual([
+      'static-button-name@3',
+      'static-duplicate-id@5',
+      'static-form-label@2',
+      'static-heading-order@5',
+      'static-html-lang@1',
+      'static-positive-tabindex@4'
+    ]);
+  });
+
+  it('leaves components, spreads and dynamic ids to the model', () => {
+    const content = 'return <><Image src={src} /><img {...props} /><input id={id} /><button>{label}</button></>;';
+    expect(rulesHit('App.tsx', content)).toEqual([]);
+  });
+
+  it('ignores files that are not markup', () => {
+    const files: SourceFile[] = [{ path: 'styles.css', content: 'img { border: 0 }' }, { path: 'notes.md', content: '<img src="a.png">' }];
+    expect(runStaticRules(files)).toEqual([]);
+  });
+});
+
+describe('mergeViolations', () => {
+  const modelFinding = (criterion: string, line: number): Violation => ({
+    severity: Severity.HIGH,
+    wcag_criterion: criterion,
+    title: 'Missing alt text',
+    description: '',
+    code_evidence: { file: 'index.html', line, snippet: '<img src="logo.png">' },
+    user_impact: '',
+    suggested_fix: { code: '', explanation: '' }
+  });
+
+  it('drops model findings for the same criterion and location as a static finding', () => {
+    const staticViolations = runStaticRules([{ path: 'index.html', content: '<html lang="en">\n<img src="logo.png">\n</html>' }]);
+    const merged = mergeViolations(staticViolations, [
+      modelFinding('1.1.1', 2),
+      modelFinding('1.1.1 Non-text Content', 5),
+      modelFinding('1.4.3 Contrast (Minimum)', 2)
+    ]);
+
+    expect(merged.map(v => [v.source, v.wcag_criterion, v.code_evidence?.line])).toEqual([
+      ['static-analysis', '1.1.1 Non-text Content', 2],
+      ['model', '1.1.1 Non-text Content', 5],
+      ['model', '1.4.3 Contrast (Minimum)', 2]
+    ]);
+  });
+});
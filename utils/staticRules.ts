@@ -0,0 +1,285 @@
+import { Severity, SourceFile, Violation } from '../types';
+import {
+  MarkupDocument,
+  MarkupElement,
+  isDynamicValue,
+  isMarkupPath,
+  parseMarkup,
+  staticValue
+} from './markupParser';
+
+/**
+ * Deterministic accessibility checks over uploaded source markup.
+ * These run alongside the audit engine and only flag hard-rule failures that can be
+ * decided from the code alone, so every finding carries a real file and line.
+ */
+
+interface RuleFinding {
+  element: MarkupElement;
+  detail?: string;
+}
+
+interface StaticRule {
+  id: string;
+  severity: Severity;
+  wcag_criterion: string;
+  title: string;
+  description: string;
+  user_impact: string;
+  fix: (finding: RuleFinding, doc: MarkupDocument) => { code: string; explanation: string };
+  check: (doc: MarkupDocument) => RuleFinding[];
+}
+
+const attr = (el: MarkupElement, name: string) => el.attrs[name];
+const hasAttr = (el: MarkupElement, name: string) => name in el.attrs;
+
+const hasNonEmptyAttr = (el: MarkupElement, name: string) => {
+  const value = attr(el, name);
+  if (value === undefined) return false;
+  return isDynamicValue(value) || value.trim().length > 0;
+};
+
+const isHiddenFromAT = (el: MarkupElement) => {
+  const hidden = staticValue(attr(el, 'aria-hidden'));
+  const role = staticValue(attr(el, 'role'));
+  return hidden === 'true' || hasAttr(el, 'hidden') || role === 'presentation' || role === 'none';
+};
+
+const hasAriaName = (el: MarkupElement) =>
+  hasNonEmptyAttr(el, 'aria-label') || hasNonEmptyAttr(el, 'aria-labelledby') || hasNonEmptyAttr(el, 'title');
+
+// Text, dynamic JSX children, or an image with alt text all provide a name
+const hasContentName = (el: MarkupElement): boolean => {
+  if (el.text.replace(/&nbsp;/g, ' ').trim().length > 0) return true;
+  return el.children.some(child =>
+    (child.tag === 'img' && hasNonEmptyAttr(child, 'alt')) ||
+    (!isHiddenFromAT(child) && hasAriaName(child)) ||
+    (!isHiddenFromAT(child) && hasContentName(child))
+  );
+};
+
+// Best-effort selector for matching the element across audits and suppression rules
+const selectorFor = (el: MarkupElement): string => {
+  const id = staticValue(attr(el, 'id'));
+  if (id) return `${el.tag}#${id}`;
+  for (const name of ['name', 'src', 'href', 'type']) {
+    const value = staticValue(attr(el, name));
+    if (value) return `${el.tag}[${name}="${value}"]`;
+  }
+  const className = staticValue(attr(el, 'class') ?? attr(el, 'classname'))?.trim().split(/\s+/)[0];
+  return className ? `${el.tag}.${className}` : el.tag;
+};
+
+const isIntrinsic = (el: MarkupElement) => /^[a-z]/.test(el.tag) && !el.hasSpread;
+
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+
+const staticRules: StaticRule[] = [
+  {
+    id: 'img-alt',
+    severity: Severity.CRITICAL,
+    wcag_criterion: '1.1.1 Non-text Content',
+    title: 'Image missing alt attribute',
+    description: 'An <img> element has no alt attribute, so assistive technology cannot convey its purpose.',
+    user_impact: 'Screen reader users hear the file name or nothing at all instead of the image content.',
+    fix: ({ element }) => ({
+      code: element.snippet.replace(/^<img/i, '<img alt="Describe the image"'),
+      explanation: 'Add a meaningful alt text, or alt="" if the image is purely decorative.'
+    }),
+    check: doc => doc.elements
+      .filter(el => el.tag === 'img' && isIntrinsic(el))
+      .filter(el => !hasAttr(el, 'alt') && !hasAriaName(el) && !isHiddenFromAT(el))
+      .map(element => ({ element }))
+  },
+  {
+    id: 'form-label',
+    severity: Severity.HIGH,
+    wcag_criterion: '1.3.1 Info and Relationships',
+    title: 'Form control without a label',
+    description: 'A form control has no associated <label>, aria-label or aria-labelledby.',
+    user_impact: 'Screen reader users cannot tell what information the field expects.',
+    fix: ({ element }, doc) => ({
+      code: `<label ${doc.isJsx ? 'htmlFor' : 'for'}="field-id">Field name</label>\n${element.snippet}`,
+      explanation: 'Associate a visible <label> with the control via for/htmlFor and a matching id, or wrap the control in the label.'
+    }),
+    check: doc => {
+      const labelledIds = new Set(
+        doc.elements
+          .filter(el => el.tag === 'label')
+          .map(el => staticValue(attr(el, 'for') ?? attr(el, 'htmlfor')))
+          .filter((id): id is string => !!id)
+      );
+      const isWrappedInLabel = (el: MarkupElement) => {
+        for (let p = el.parent; p; p = p.parent) if (p.tag === 'label') return true;
+        return false;
+      };
+
+      return doc.elements
+        .filter(el => ['input', 'select', 'textarea'].includes(el.tag) && isIntrinsic(el))
+        .filter(el => {
+          const type = (staticValue(attr(el, 'type')) || 'text').toLowerCase();
+          if (el.tag === 'input' && UNLABELLED_INPUT_TYPES.has(type)) return false;
+          if (isDynamicValue(attr(el, 'id'))) return false; // Cannot resolve label association
+          const id = staticValue(attr(el, 'id'));
+          return !hasAriaName(el) && !isWrappedInLabel(el) && !(id && labelledIds.has(id)) && !isHiddenFromAT(el);
+        })
+        .map(element => ({ element }));
+    }
+  },
+  {
+    id: 'button-name',
+    severity: Severity.HIGH,
+    wcag_criterion: '4.1.2 Name, Role, Value',
+    title: 'Button without an accessible name',
+    description: 'A button has no text content, aria-label, aria-labelledby or title.',
+    user_impact: 'Screen readers announce only "button", so users cannot know what it does.',
+    fix: ({ element }) => ({
+      code: element.snippet.replace(/^<(button|input)/i, '<$1 aria-label="Describe the action"'),
+      explanation: 'Give icon-only buttons an aria-label, or add visually hidden text inside the button.'
+    }),
+    check: doc => doc.elements
+      .filter(el => isIntrinsic(el) && !isHiddenFromAT(el))
+      .filter(el => {
+        if (el.tag === 'button') return !hasAriaName(el) && !hasContentName(el);
+        if (el.tag === 'input') {
+          const type = (staticValue(attr(el, 'type')) || '').toLowerCase();
+          if (type === 'submit' || type === 'reset') return false; // Browsers supply a default label
+          if (type === 'button') return !hasNonEmptyAttr(el, 'value') && !hasAriaName(el);
+          if (type === 'image') return !hasNonEmptyAttr(el, 'alt') && !hasAriaName(el);
+        }
+        return false;
+      })
+      .map(element => ({ element }))
+  },
+  {
+    id: 'positive-tabindex',
+    severity: Severity.MEDIUM,
+    wcag_criterion: '2.4.3 Focus Order',
+    title: 'Positive tabindex overrides natural focus order',
+    description: 'An element uses a tabindex greater than 0, which moves it ahead of the document order.',
+    user_impact: 'Keyboard users jump around the page unpredictably.',
+    fix: ({ element }) => ({
+      code: element.snippet.replace(/(tabindex=)(\{\s*\d+\s*\}|"\d+"|'\d+'|\d+)/i, '$1"0"'),
+      explanation: 'Use tabindex="0" (or remove it) and order the DOM to match the visual order.'
+    }),
+    check: doc => doc.elements
+      .filter(el => !el.hasSpread)
+      .map(el => ({ element: el, detail: staticValue(attr(el, 'tabindex')) }))
+      .filter(({ detail }) => detail !== undefined && Number(detail) > 0)
+  },
+  {
+    id: 'html-lang',
+    severity: Severity.HIGH,
+    wcag_criterion: '3.1.1 Language of Page',
+    title: 'Document language not declared',
+    description: 'The <html> element has no lang attribute.',
+    user_impact: 'Screen readers may use the wrong pronunciation rules for the whole page.',
+    fix: ({ element }) => ({
+      code: element.snippet.replace(/^<html/i, '<html lang="en"'),
+      explanation: 'Declare the primary language of the page on the <html> element.'
+    }),
+    check: doc => doc.elements
+      .filter(el => el.tag === 'html' && !hasNonEmptyAttr(el, 'lang'))
+      .map(element => ({ element }))
+  },
+  {
+    id: 'duplicate-id',
+    severity: Severity.LOW,
+    wcag_criterion: '4.1.1 Parsing',
+    title: 'Duplicate id attribute',
+    description: 'The same id value is used on more than one element.',
+    user_impact: 'Label, aria-labelledby and aria-describedby references may point at the wrong element.',
+    fix: ({ element, detail }) => ({
+      code: element.snippet.replace(`"${detail}"`, `"${detail}-2"`),
+      explanation: 'Make every id unique within the page.'
+    }),
+    check: doc => {
+      const seen = new Map<string, MarkupElement>();
+      const findings: RuleFinding[] = [];
+      for (const el of doc.elements) {
+        const id = attr(el, 'id');
+        if (id === undefined || isDynamicValue(id) || !id.trim()) continue;
+        if (seen.has(id)) findings.push({ element: el, detail: id });
+        else seen.set(id, el);
+      }
+      return findings;
+    }
+  },
+  {
+    id: 'heading-order',
+    severity: Severity.MEDIUM,
+    wcag_criterion: '1.3.1 Info and Relationships',
+    title: 'Heading level skipped',
+    description: 'A heading skips one or more levels relative to the previous heading.',
+    user_impact: 'Screen reader users navigating by headings lose the structure of the page.',
+    fix: ({ element, detail }) => ({
+      code: element.snippet.replace(/^<h\d/i, `<h${detail}`),
+      explanation: 'Use heading levels in order; style headings with CSS instead of picking levels for their size.'
+    }),
+    check: doc => {
+      const findings: RuleFinding[] = [];
+      let previous = 0;
+      for (const el of doc.elements) {
+        const match = el.tag.match(/^h([1-6])$/);
+        if (!match) continue;
+        const level = Number(match[1]);
+        if (previous > 0 && level > previous + 1) {
+          findings.push({ element: el, detail: String(previous + 1) });
+        }
+        previous = level;
+      }
+      return findings;
+    }
+  }
+];
+
+export function runStaticRules(sourceFiles: SourceFile[]): Violation[] {
+  const violations: Violation[] = [];
+
+  for (const file of sourceFiles) {
+    if (!isMarkupPath(file.path)) continue;
+    const doc = parseMarkup(file.path, file.content);
+
+    for (const rule of staticRules) {
+      for (const finding of rule.check(doc)) {
+        const { element } = finding;
+        violations.push({
+          id: `static-${rule.id}-${file.path}-${element.line}`,
+          severity: rule.severity,
+          wcag_criterion: rule.wcag_criterion,
+          title: rule.title,
+          description: rule.description,
+          code_evidence: {
+            file: file.path,
+            line: element.line,
+            snippet: element.snippet,
+            selector: selectorFor(element)
+          },
+          reasoning: `Static rule "${rule.id}" matched <${element.tag}> at ${file.path}:${element.line}.`,
+          user_impact: rule.user_impact,
+          suggested_fix: rule.fix(finding, doc),
+          source: 'static-analysis'
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+const criterionId = (criterion: string) => criterion.match(/^\d+\.\d+\.\d+/)?.[0] || criterion;
+
+// Static findings are authoritative for their file/line; drop model findings that
+// report the same criterion at the same location so they are not scored twice.
+export function mergeViolations(staticViolations: Violation[], modelViolations: Violation[]): Violation[] {
+  const staticKeys = new Set(
+    staticViolations.map(v => `${criterionId(v.wcag_criterion)}|${v.code_evidence?.file}|${v.code_evidence?.line}`)
+  );
+
+  const remaining = modelViolations.filter(v => {
+    if (!v.code_evidence) return true;
+    return !staticKeys.has(`${criterionId(v.wcag_criterion)}|${v.code_evidence.file}|${v.code_evidence.line}`);
+  });
+
+  return [...staticViolations, ...remaining.map(v => ({ ...v, source: v.source || 'model' as const }))];
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Severity, SuppressionMatch, SuppressionRule, Violation } from '../types';
+import { computeFingerprint } from './fingerprint';
+import { applySuppressions, isRuleActive, matchesSuppression } from './suppression';
+
+const violation: Violation = {
+  severity: Severity.HIGH,
+  wcag_criterion: '1.1.1 Non-text Content',
+  title: 'Image missing alt attribute',
+  description: '',
+  code_evidence: { file: 'src\\components\\Hero.tsx', line: 12, snippet: '<img src={hero} />', selector: 'img.hero-banner' },
+  user_impact: '',
+  suggested_fix: { code: '', explanation: '' }
+};
+
+const rule = (match: SuppressionMatch, expiresAt?: string): SuppressionRule => ({
+  ruleId: 'rule_1',
+  match,
+  justification: 'Decorative image, hidden by CSS',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  createdBy: 'user_1',
+  expiresAt
+});
+
+describe('isRuleActive', () => {
+  const expiring = rule({ kind: 'selector', pattern: '*' }, '2026-03-01');
+
+  it('keeps a rule active through the whole of its expiry day', () => {
+    expect(isRuleActive(expiring, new Date(2026, 2, 1, 0, 0))).toBe(true);
+    expect(isRuleActive(expiring, new Date(2026, 2, 1, 23, 59, 59))).toBe(true);
+  });
+
+  it('stops applying the rule the day after', () => {
+    expect(isRuleActive(expiring, new Date(2026, 2, 2, 0, 0, 0))).toBe(false);
+  });
+
+  it('never expires a rule without a date', () => {
+    expect(isRuleActive(rule({ kind: 'selector', pattern: '*' }), new Date(2100, 0, 1))).toBe(true);
+  });
+});
+
+describe('matchesSuppression', () => {
+  it('matches on fingerprint', () => {
+    expect(matchesSuppression({ kind: 'fingerprint', fingerprint: computeFingerprint(violation) }, violation)).toBe(true);
+    expect(matchesSuppression({ kind: 'fingerprint', fingerprint: 'fp_00000000' }, violation)).toBe(false);
+  });
+
+  it('matches on criterion and a file glob, whatever the path separators', () => {
+    expect(matchesSuppression({ kind: 'criterion-file', criterion: '1.1.1', file: './src/components/*.tsx' }, violation)).toBe(true);
+    expect(matchesSuppression({ kind: 'criterion-file', criterion: 'Non-text Content', file: 'src/**' }, violation)).toBe(true);
+    expect(matchesSuppression({ kind: 'criterion-file', criterion: '1.4.3', file: 'src/**' }, violation)).toBe(false);
+    expect(matchesSuppression({ kind: 'criterion-file', criterion: '1.1.1', file: 'lib/**' }, violation)).toBe(false);
+  });
+
+  it('matches selectors with * wildcards and literal regular expression characters', () => {
+    expect(matchesSuppression({ kind: 'selector', pattern: 'img.hero-*' }, violation)).toBe(true);
+    expect(matchesSuppression({ kind: 'selector', pattern: 'img.hero' }, violation)).toBe(false);
+    expect(matchesSuppression({ kind: 'selector', pattern: 'img?hero-banner' }, violation)).toBe(false);
+  });
+
+  it('never matches file or selector rules on findings without code evidence', () => {
+    const visual = { ...violation, code_evidence: undefined };
+    expect(matchesSuppression({ kind: 'criterion-file', criterion: '1.1.1', file: '**' }, visual)).toBe(false);
+    expect(matchesSuppression({ kind: 'selector', pattern: '*' }, visual)).toBe(false);
+  });
+});
+
+describe('applySuppressions', () => {
+  const now = new Date(2026, 2, 10);
+
+  it('moves matched findings aside with the rule that matched', () => {
+    const other = { ...violation, wcag_criterion: '4.1.2 Name, Role, Value', suppressed_by: 'rule_old' };
+    const { active, suppressed } = applySuppressions(
+      [violation, other],
+      [rule({ kind: 'criterion-file', criterion: '1.1.1', file: 'src/**' })],
+      now
+    );
+
+    expect(suppressed).toEqual([{ ...violation, suppressed_by: 'rule_1' }]);
+    expect(active).toEqual([{ ...violation, wcag_criterion: '4.1.2 Name, Role, Value' }]);
+  });
+
+  it('ignores expired rules', () => {
+    const { active, suppressed } = applySuppressions([violation], [rule({ kind: 'selector', pattern: '*' }, '2026-03-09')], now);
+    expect(active).toHaveLength(1);
+    expect(suppressed).toHaveLength(0);
+  });
+});
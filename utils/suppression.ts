@@ -0,0 +1,72 @@
+import { SuppressionMatch, SuppressionRule, Violation } from '../types';
+import { criterionId, withFingerprint } from './fingerprint';
+import { globToRegExp } from './sourceFiles';
+
+/**
+ * Project-level suppression of findings already judged to be false positives.
+ * Suppressed findings are kept on the report for reference but excluded from
+ * scoring, so a known false positive doesn't drag every later audit down.
+ */
+
+export interface SuppressionResult {
+  active: Violation[];
+  suppressed: Violation[];
+}
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^\.?\//, '');
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// A rule stays active through the whole of its expiry day
+export function isRuleActive(rule: SuppressionRule, now: Date = new Date()): boolean {
+  if (!rule.expiresAt) return true;
+  return now.getTime() <= new Date(`${rule.expiresAt}T23:59:59.999`).getTime();
+}
+
+export function matchesSuppression(match: SuppressionMatch, violation: Violation): boolean {
+  const v = withFingerprint(violation);
+  switch (match.kind) {
+    case 'fingerprint':
+      return v.fingerprint === match.fingerprint;
+    case 'criterion-file': {
+      const file = v.code_evidence?.file;
+      if (!file || criterionId(v.wcag_criterion) !== criterionId(match.criterion)) return false;
+      return globToRegExp(normalizePath(match.file)).test(normalizePath(file));
+    }
+    case 'selector': {
+      const selector = v.code_evidence?.selector;
+      return !!selector && wildcardToRegExp(match.pattern).test(selector);
+    }
+  }
+}
+
+export function applySuppressions(
+  violations: Violation[],
+  rules: SuppressionRule[] = [],
+  now: Date = new Date()
+): SuppressionResult {
+  const activeRules = rules.filter(rule => isRuleActive(rule, now));
+  const result: SuppressionResult = { active: [], suppressed: [] };
+
+  for (const violation of violations) {
+    const rule = activeRules.find(r => matchesSuppression(r.match, violation));
+    if (rule) {
+      result.suppressed.push({ ...violation, suppressed_by: rule.ruleId });
+    } else {
+      const { suppressed_by: _, ...rest } = violation;
+      result.active.push(rest);
+    }
+  }
+  return result;
+}
+
+export function describeSuppressionMatch(match: SuppressionMatch): string {
+  switch (match.kind) {
+    case 'fingerprint': return `Finding ${match.fingerprint}`;
+    case 'criterion-file': return `${match.criterion} in ${match.file}`;
+    case 'selector': return `Selector ${match.pattern}`;
+  }
+}
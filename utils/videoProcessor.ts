@@ -1,3 +1,5 @@
+import { FrameSampleReason, VideoFrame } from '../types';
+
 /**
  * Extracts frames from a video file at a specified interval.
  * Returns an array of base64 encoded image strings (without data:image/jpeg;base64, prefix).
@@ -6,12 +8,12 @@ export const extractFramesFromVideo = async (
   videoFile: File,
   intervalSeconds: number = 2.0, // Extract a frame every 2 seconds to manage payload size
   maxFrames: number = 10 // Cap frames to prevent token overflow for this demo
-): Promise<{ timestamp: string; data: string }[]> => {
+): Promise<VideoFrame[]> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d');
-    const frames: { timestamp: string; data: string }[] = [];
+    const frames: VideoFrame[] = [];
 
     if (!context) {
       reject(new Error("Could not create canvas context"));
@@ -53,7 +55,8 @@ export const extractFramesFromVideo = async (
 
         frames.push({
           timestamp: `${mins}:${secs}`,
-          data: base64Data
+          data: base64Data,
+          reason: 'interval'
         });
 
         currentTime += intervalSeconds;
@@ -72,4 +75,241 @@ export const extractFramesFromVideo = async (
       reject(e);
     };
   });
-};
\ No newline at end of file
+};
+
+export interface KeyFrameOptions {
+  maxFrames?: number; // Frame budget sent to the audit engine
+  probeInterval?: number; // Seconds between low-resolution probes
+  maxProbes?: number; // Upper bound on probes; the interval widens for long videos
+  changeThreshold?: number; // 0-1 block difference that counts as a new UI state
+  startTime?: number;
+  endTime?: number;
+}
+
+const PROBE_WIDTH = 64;
+const DIFF_GRID = 8; // Frame is split into 8x8 blocks so small changes (focus rings, toasts) register
+
+interface Probe {
+  time: number;
+  score: number;
+  reason: FrameSampleReason;
+}
+
+const formatTimestamp = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60).toString().padStart(2, '0');
+  const rest = seconds % 60;
+  const secs = Math.floor(rest).toString().padStart(2, '0');
+  const tenths = Math.round((rest - Math.floor(rest)) * 10);
+  return tenths > 0 && tenths < 10 ? `${mins}:${secs}.${tenths}` : `${mins}:${secs}`;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Failed to seek video"));
+    video.currentTime = time;
+  });
+
+const loadVideo = async (videoFile: File): Promise<HTMLVideoElement> => {
+  const video = await new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load video"));
+    video.src = URL.createObjectURL(videoFile);
+  });
+  // MediaRecorder WebM files have no duration in their header and report Infinity;
+  // seeking past the end makes the browser scan the file and fill in the real one
+  if (video.duration === Infinity) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER);
+    await seekTo(video, 0);
+  }
+  return video;
+};
+
+const toLuma = (image: ImageData): Uint8Array => {
+  const luma = new Uint8Array(image.width * image.height);
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = (image.data[p * 4] * 299 + image.data[p * 4 + 1] * 587 + image.data[p * 4 + 2] * 114) / 1000;
+  }
+  return luma;
+};
+
+// Largest mean absolute difference over a grid of blocks, normalised to 0-1.
+// Using the max block rather than the whole-frame mean keeps localized changes visible.
+const blockDifference = (a: Uint8Array, b: Uint8Array, width: number, height: number): number => {
+  const blockW = Math.max(1, Math.floor(width / DIFF_GRID));
+  const blockH = Math.max(1, Math.floor(height / DIFF_GRID));
+  let max = 0;
+  for (let by = 0; by + blockH <= height; by += blockH) {
+    for (let bx = 0; bx + blockW <= width; bx += blockW) {
+      let sum = 0;
+      for (let y = by; y < by + blockH; y++) {
+        for (let x = bx; x < bx + blockW; x++) {
+          sum += Math.abs(a[y * width + x] - b[y * width + x]);
+        }
+      }
+      max = Math.max(max, sum / (blockW * blockH * 255));
+    }
+  }
+  return max;
+};
+
+// 64-bit average hash; Hamming distance catches layout shifts at equal brightness
+const averageHash = (luma: Uint8Array, width: number, height: number): boolean[] => {
+  const cells: number[] = [];
+  for (let cy = 0; cy < 8; cy++) {
+    for (let cx = 0; cx < 8; cx++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = Math.floor((cy * height) / 8); y < Math.floor(((cy + 1) * height) / 8); y++) {
+        for (let x = Math.floor((cx * width) / 8); x < Math.floor(((cx + 1) * width) / 8); x++) {
+          sum += luma[y * width + x];
+          count++;
+        }
+      }
+      cells.push(count ? sum / count : 0);
+    }
+  }
+  const mean = cells.reduce((a, b) => a + b, 0) / cells.length;
+  return cells.map(c => c > mean);
+};
+
+const hammingDistance = (a: boolean[], b: boolean[]) => a.reduce((d, bit, i) => d + (bit !== b[i] ? 1 : 0), 0);
+
+/**
+ * Reads the duration (in seconds) of a video file from its metadata.
+ */
+export const getVideoDuration = async (videoFile: File): Promise<number> => {
+  const video = await loadVideo(videoFile);
+  const duration = video.duration;
+  URL.revokeObjectURL(video.src);
+  return duration;
+};
+
+/**
+ * Adaptive sampler: probes the recording at low resolution, keeps only frames that
+ * differ visibly from the previously kept one, and spends the frame budget on the
+ * largest changes. Each returned frame records why it was kept.
+ */
+export const extractKeyFrames = async (
+  videoFile: File,
+  options: KeyFrameOptions = {}
+): Promise<VideoFrame[]> => {
+  const {
+    maxFrames = 10,
+    probeInterval = 0.25,
+    maxProbes = 480,
+    changeThreshold = 0.08,
+    startTime = 0
+  } = options;
+
+  const video = await loadVideo(videoFile);
+  try {
+    // A duration the browser could not determine leaves the window as requested, or a
+    // probe budget's worth of the recording when none was
+    const duration = Number.isFinite(video.duration) ? video.duration : Infinity;
+    const requestedEnd = Math.min(options.endTime ?? duration, duration);
+    const endTime = Number.isFinite(requestedEnd) ? requestedEnd : startTime + maxProbes * probeInterval;
+    const span = Math.max(0, endTime - startTime);
+    const interval = Math.max(probeInterval, span / maxProbes);
+
+    const probeCanvas = document.createElement('canvas');
+    probeCanvas.width = PROBE_WIDTH;
+    probeCanvas.height = Math.max(1, Math.round((PROBE_WIDTH * video.videoHeight) / video.videoWidth));
+    const probeContext = probeCanvas.getContext('2d', { willReadFrequently: true });
+    if (!probeContext) throw new Error("Could not create canvas context");
+    const { width, height } = probeCanvas;
+
+    // Pass 1: probe at low resolution and keep visually distinct states
+    const candidates: Probe[] = [];
+    let lastKept: { luma: Uint8Array; hash: boolean[] } | null = null;
+
+    for (let time = startTime; time < endTime; time += interval) {
+      await seekTo(video, time);
+      probeContext.drawImage(video, 0, 0, width, height);
+      const luma = toLuma(probeContext.getImageData(0, 0, width, height));
+      const hash = averageHash(luma, width, height);
+
+      if (!lastKept) {
+        candidates.push({ time, score: 1, reason: 'first-frame' });
+        lastKept = { luma, hash };
+        continue;
+      }
+
+      const pixelScore = blockDifference(lastKept.luma, luma, width, height);
+      const hashScore = hammingDistance(lastKept.hash, hash) / 64;
+      const score = Math.max(pixelScore, hashScore);
+      if (score >= changeThreshold) {
+        candidates.push({ time, score, reason: 'scene-change' });
+        lastKept = { luma, hash };
+      }
+    }
+
+    // Over budget: keep the opening frame plus the largest changes, in time order
+    const selected = candidates.length <= maxFrames
+      ? candidates
+      : [candidates[0], ...candidates.slice(1).sort((a, b) => b.score - a.score).slice(0, maxFrames - 1)]
+          .sort((a, b) => a.time - b.time);
+
+    // Pass 2: capture the selected states at full audit resolution
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth / 2; // Resize to reduce token usage
+    canvas.height = video.videoHeight / 2;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Could not create canvas context");
+
+    const frames: VideoFrame[] = [];
+    for (const probe of selected) {
+      await seekTo(video, probe.time);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({
+        timestamp: formatTimestamp(probe.time),
+        data: canvas.toDataURL('image/jpeg', 0.7).split(',')[1],
+        reason: probe.reason,
+        change_score: Math.round(probe.score * 1000) / 1000
+      });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+/**
+ * Parses "MM:SS", "HH:MM:SS" or plain seconds ("12.5s", "12") into seconds.
+ * Returns NaN when the timestamp cannot be interpreted.
+ */
+export const timestampToSeconds = (timestamp: string): number => {
+  const cleaned = timestamp.trim().replace(/s$/i, '');
+  if (!cleaned.includes(':')) return parseFloat(cleaned);
+  return cleaned.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/**
+ * Finds the extracted frame closest to a (possibly model-formatted) timestamp.
+ */
+export const findFrameForTimestamp = <T extends { timestamp: string }>(
+  frames: T[],
+  timestamp: string
+): T | undefined => {
+  const exact = frames.find(f => f.timestamp === timestamp);
+  if (exact) return exact;
+
+  const target = timestampToSeconds(timestamp);
+  if (isNaN(target)) return undefined;
+
+  let closest: T | undefined;
+  let bestDistance = Infinity;
+  for (const frame of frames) {
+    const distance = Math.abs(timestampToSeconds(frame.timestamp) - target);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      closest = frame;
+    }
+  }
+  return closest;
+};
+
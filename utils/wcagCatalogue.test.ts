@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Severity, Violation, WcagVersion } from '../types';
+import { criterionLevel, getCriterion, isInVersion, lookupCriterion, normalizeViolationCriterion } from './wcagCatalogue';
+
+describe('lookupCriterion', () => {
+  it('resolves criterion numbers anywhere in the text', () => {
+    expect(lookupCriterion('1.4.3')?.name).toBe('Contrast (Minimum)');
+    expect(lookupCriterion('SC 2.4.7 Focus visible')?.id).toBe('2.4.7');
+    expect(lookupCriterion('WCAG2.1 1.4.11')?.id).toBe('1.4.11');
+  });
+
+  it('skips numbers that are not criteria', () => {
+    expect(lookupCriterion('Version 9.9.9, see 1.3.1')?.id).toBe('1.3.1');
+  });
+
+  it('resolves names exactly or, for multi-word names, contained in the text', () => {
+    expect(lookupCriterion('contrast (minimum)')?.id).toBe('1.4.3');
+    expect(lookupCriterion('Fails Contrast (Enhanced) for body text')?.id).toBe('1.4.6');
+    expect(lookupCriterion('Keyboard')?.id).toBe('2.1.1');
+  });
+
+  it('does not match single-word names inside other text', () => {
+    expect(lookupCriterion('Keyboard shortcuts are hard to discover')).toBeUndefined();
+    expect(lookupCriterion('')).toBeUndefined();
+    expect(lookupCriterion('Best practice')).toBeUndefined();
+  });
+});
+
+describe('isInVersion', () => {
+  it('knows when criteria were introduced and removed', () => {
+    const parsing = getCriterion('4.1.1')!;
+    const targetSize = getCriterion('2.5.8')!;
+    const versions: WcagVersion[] = ['2.0', '2.1', '2.2'];
+
+    expect(versions.map(v => isInVersion(parsing, v))).toEqual([true, true, false]);
+    expect(versions.map(v => isInVersion(targetSize, v))).toEqual([false, false, true]);
+  });
+});
+
+describe('criterionLevel', () => {
+  it('returns the level only when the criterion is part of the version', () => {
+    expect(criterionLevel('1.4.3')).toBe('AA');
+    expect(criterionLevel('4.1.1 Parsing', '2.1')).toBe('A');
+    expect(criterionLevel('4.1.1 Parsing', '2.2')).toBeUndefined();
+    expect(criterionLevel('Not a criterion')).toBeUndefined();
+  });
+});
+
+describe('normalizeViolationCriterion', () => {
+  const violation = (wcag_criterion: string): Violation => ({
+    severity: Severity.HIGH,
+    wcag_criterion,
+    title: '',
+    description: '',
+    user_impact: '',
+    suggested_fix: { code: '', explanation: '' }
+  });
+
+  it('rewrites recognized criteria to the canonical form', () => {
+    expect(normalizeViolationCriterion(violation('WCAG 1.4.3 (AA)')).wcag_criterion).toBe('1.4.3 Contrast (Minimum)');
+  });
+
+  it('keeps canonical and unrecognized values as they are', () => {
+    const canonical = violation('1.4.3 Contrast (Minimum)');
+    const unknown = violation('Best practice');
+    expect(normalizeViolationCriterion(canonical)).toBe(canonical);
+    expect(normalizeViolationCriterion(unknown)).toBe(unknown);
+  });
+});
@@ -0,0 +1,194 @@
+import { Violation, WcagCriterion, WcagLevel, WcagVersion } from '../types';
+
+/**
+ * WCAG 2.1 / 2.2 success criteria. The model reports `wcag_criterion` as free
+ * text ("WCAG 1.4.3", "Contrast (Minimum)", "1.4.3 Contrast minimum"); everything
+ * downstream — level classification, fingerprints, exports — works from the
+ * normalized "<id> <name>" form produced here.
+ */
+
+const UNDERSTANDING_BASE = 'https://www.w3.org/WAI/WCAG22/Understanding/';
+
+const PRINCIPLES: Record<string, string> = {
+  '1': 'Perceivable',
+  '2': 'Operable',
+  '3': 'Understandable',
+  '4': 'Robust'
+};
+
+const GUIDELINES: Record<string, string> = {
+  '1.1': 'Text Alternatives',
+  '1.2': 'Time-based Media',
+  '1.3': 'Adaptable',
+  '1.4': 'Distinguishable',
+  '2.1': 'Keyboard Accessible',
+  '2.2': 'Enough Time',
+  '2.3': 'Seizures and Physical Reactions',
+  '2.4': 'Navigable',
+  '2.5': 'Input Modalities',
+  '3.1': 'Readable',
+  '3.2': 'Predictable',
+  '3.3': 'Input Assistance',
+  '4.1': 'Compatible'
+};
+
+// [id, name, level, introduced in, removed in]
+type CriterionRow = [string, string, WcagLevel, WcagVersion, WcagVersion?];
+
+const CRITERIA: CriterionRow[] = [
+  ['1.1.1', 'Non-text Content', 'A', '2.0'],
+  ['1.2.1', 'Audio-only and Video-only (Prerecorded)', 'A', '2.0'],
+  ['1.2.2', 'Captions (Prerecorded)', 'A', '2.0'],
+  ['1.2.3', 'Audio Description or Media Alternative (Prerecorded)', 'A', '2.0'],
+  ['1.2.4', 'Captions (Live)', 'AA', '2.0'],
+  ['1.2.5', 'Audio Description (Prerecorded)', 'AA', '2.0'],
+  ['1.2.6', 'Sign Language (Prerecorded)', 'AAA', '2.0'],
+  ['1.2.7', 'Extended Audio Description (Prerecorded)', 'AAA', '2.0'],
+  ['1.2.8', 'Media Alternative (Prerecorded)', 'AAA', '2.0'],
+  ['1.2.9', 'Audio-only (Live)', 'AAA', '2.0'],
+  ['1.3.1', 'Info and Relationships', 'A', '2.0'],
+  ['1.3.2', 'Meaningful Sequence', 'A', '2.0'],
+  ['1.3.3', 'Sensory Characteristics', 'A', '2.0'],
+  ['1.3.4', 'Orientation', 'AA', '2.1'],
+  ['1.3.5', 'Identify Input Purpose', 'AA', '2.1'],
+  ['1.3.6', 'Identify Purpose', 'AAA', '2.1'],
+  ['1.4.1', 'Use of Color', 'A', '2.0'],
+  ['1.4.2', 'Audio Control', 'A', '2.0'],
+  ['1.4.3', 'Contrast (Minimum)', 'AA', '2.0'],
+  ['1.4.4', 'Resize Text', 'AA', '2.0'],
+  ['1.4.5', 'Images of Text', 'AA', '2.0'],
+  ['1.4.6', 'Contrast (Enhanced)', 'AAA', '2.0'],
+  ['1.4.7', 'Low or No Background Audio', 'AAA', '2.0'],
+  ['1.4.8', 'Visual Presentation', 'AAA', '2.0'],
+  ['1.4.9', 'Images of Text (No Exception)', 'AAA', '2.0'],
+  ['1.4.10', 'Reflow', 'AA', '2.1'],
+  ['1.4.11', 'Non-text Contrast', 'AA', '2.1'],
+  ['1.4.12', 'Text Spacing', 'AA', '2.1'],
+  ['1.4.13', 'Content on Hover or Focus', 'AA', '2.1'],
+  ['2.1.1', 'Keyboard', 'A', '2.0'],
+  ['2.1.2', 'No Keyboard Trap', 'A', '2.0'],
+  ['2.1.3', 'Keyboard (No Exception)', 'AAA', '2.0'],
+  ['2.1.4', 'Character Key Shortcuts', 'A', '2.1'],
+  ['2.2.1', 'Timing Adjustable', 'A', '2.0'],
+  ['2.2.2', 'Pause, Stop, Hide', 'A', '2.0'],
+  ['2.2.3', 'No Timing', 'AAA', '2.0'],
+  ['2.2.4', 'Interruptions', 'AAA', '2.0'],
+  ['2.2.5', 'Re-authenticating', 'AAA', '2.0'],
+  ['2.2.6', 'Timeouts', 'AAA', '2.1'],
+  ['2.3.1', 'Three Flashes or Below Threshold', 'A', '2.0'],
+  ['2.3.2', 'Three Flashes', 'AAA', '2.0'],
+  ['2.3.3', 'Animation from Interactions', 'AAA', '2.1'],
+  ['2.4.1', 'Bypass Blocks', 'A', '2.0'],
+  ['2.4.2', 'Page Titled', 'A', '2.0'],
+  ['2.4.3', 'Focus Order', 'A', '2.0'],
+  ['2.4.4', 'Link Purpose (In Context)', 'A', '2.0'],
+  ['2.4.5', 'Multiple Ways', 'AA', '2.0'],
+  ['2.4.6', 'Headings and Labels', 'AA', '2.0'],
+  ['2.4.7', 'Focus Visible', 'AA', '2.0'],
+  ['2.4.8', 'Location', 'AAA', '2.0'],
+  ['2.4.9', 'Link Purpose (Link Only)', 'AAA', '2.0'],
+  ['2.4.10', 'Section Headings', 'AAA', '2.0'],
+  ['2.4.11', 'Focus Not Obscured (Minimum)', 'AA', '2.2'],
+  ['2.4.12', 'Focus Not Obscured (Enhanced)', 'AAA', '2.2'],
+  ['2.4.13', 'Focus Appearance', 'AAA', '2.2'],
+  ['2.5.1', 'Pointer Gestures', 'A', '2.1'],
+  ['2.5.2', 'Pointer Cancellation', 'A', '2.1'],
+  ['2.5.3', 'Label in Name', 'A', '2.1'],
+  ['2.5.4', 'Motion Actuation', 'A', '2.1'],
+  ['2.5.5', 'Target Size (Enhanced)', 'AAA', '2.1'],
+  ['2.5.6', 'Concurrent Input Mechanisms', 'AAA', '2.1'],
+  ['2.5.7', 'Dragging Movements', 'AA', '2.2'],
+  ['2.5.8', 'Target Size (Minimum)', 'AA', '2.2'],
+  ['3.1.1', 'Language of Page', 'A', '2.0'],
+  ['3.1.2', 'Language of Parts', 'AA', '2.0'],
+  ['3.1.3', 'Unusual Words', 'AAA', '2.0'],
+  ['3.1.4', 'Abbreviations', 'AAA', '2.0'],
+  ['3.1.5', 'Reading Level', 'AAA', '2.0'],
+  ['3.1.6', 'Pronunciation', 'AAA', '2.0'],
+  ['3.2.1', 'On Focus', 'A', '2.0'],
+  ['3.2.2', 'On Input', 'A', '2.0'],
+  ['3.2.3', 'Consistent Navigation', 'AA', '2.0'],
+  ['3.2.4', 'Consistent Identification', 'AA', '2.0'],
+  ['3.2.5', 'Change on Request', 'AAA', '2.0'],
+  ['3.2.6', 'Consistent Help', 'A', '2.2'],
+  ['3.3.1', 'Error Identification', 'A', '2.0'],
+  ['3.3.2', 'Labels or Instructions', 'A', '2.0'],
+  ['3.3.3', 'Error Suggestion', 'AA', '2.0'],
+  ['3.3.4', 'Error Prevention (Legal, Financial, Data)', 'AA', '2.0'],
+  ['3.3.5', 'Help', 'AAA', '2.0'],
+  ['3.3.6', 'Error Prevention (All)', 'AAA', '2.0'],
+  ['3.3.7', 'Redundant Entry', 'A', '2.2'],
+  ['3.3.8', 'Accessible Authentication (Minimum)', 'AA', '2.2'],
+  ['3.3.9', 'Accessible Authentication (Enhanced)', 'AAA', '2.2'],
+  ['4.1.1', 'Parsing', 'A', '2.0', '2.2'],
+  ['4.1.2', 'Name, Role, Value', 'A', '2.0'],
+  ['4.1.3', 'Status Messages', 'AA', '2.1']
+];
+
+const slugify = (name: string) => name.toLowerCase().replace(/[(),]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const WCAG_CRITERIA: WcagCriterion[] = CRITERIA.map(([id, name, level, introducedIn, removedIn]) => ({
+  id,
+  name,
+  level,
+  principle: PRINCIPLES[id.split('.')[0]],
+  guideline: `${id.split('.').slice(0, 2).join('.')} ${GUIDELINES[id.split('.').slice(0, 2).join('.')]}`,
+  understandingUrl: `${UNDERSTANDING_BASE}${slugify(name)}.html`,
+  introducedIn,
+  removedIn
+}));
+
+const BY_ID = new Map(WCAG_CRITERIA.map(c => [c.id, c]));
+
+const nameKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+const BY_NAME = new Map(WCAG_CRITERIA.map(c => [nameKey(c.name), c]));
+
+const VERSION_ORDER: WcagVersion[] = ['2.0', '2.1', '2.2'];
+
+// Whether the criterion is part of the given WCAG version (4.1.1 was removed in 2.2)
+export function isInVersion(criterion: WcagCriterion, version: WcagVersion): boolean {
+  const at = VERSION_ORDER.indexOf(version);
+  if (VERSION_ORDER.indexOf(criterion.introducedIn) > at) return false;
+  return !criterion.removedIn || VERSION_ORDER.indexOf(criterion.removedIn) > at;
+}
+
+export function getCriterion(id: string): WcagCriterion | undefined {
+  return BY_ID.get(id);
+}
+
+// Resolves free text to a catalogue entry: by number first ("SC 1.4.3", "WCAG2.1 1.4.3"),
+// then by exact name ("Contrast (Minimum)"), then by a multi-word name contained in the
+// text. Single-word names ("Help", "Keyboard") only match exactly to avoid false hits.
+export function lookupCriterion(text: string): WcagCriterion | undefined {
+  if (!text) return undefined;
+  for (const match of text.matchAll(/(\d)\.(\d{1,2})\.(\d{1,2})/g)) {
+    const criterion = BY_ID.get(`${match[1]}.${match[2]}.${match[3]}`);
+    if (criterion) return criterion;
+  }
+
+  const key = nameKey(text);
+  if (!key) return undefined;
+  const exact = BY_NAME.get(key);
+  if (exact) return exact;
+
+  // Longest name first so "Contrast (Enhanced)" wins over a shorter partial match
+  return [...WCAG_CRITERIA]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(c => /\s/.test(c.name) && key.includes(nameKey(c.name)));
+}
+
+export const formatCriterion = (criterion: WcagCriterion) => `${criterion.id} ${criterion.name}`;
+
+export function criterionLevel(text: string, version: WcagVersion = '2.2'): WcagLevel | undefined {
+  const criterion = lookupCriterion(text);
+  return criterion && isInVersion(criterion, version) ? criterion.level : undefined;
+}
+
+// Rewrites wcag_criterion to the canonical "<id> <name>" form. Unrecognized values
+// are kept verbatim so nothing the model reported is lost; the UI flags them.
+export function normalizeViolationCriterion(violation: Violation): Violation {
+  const criterion = lookupCriterion(violation.wcag_criterion);
+  if (!criterion) return violation;
+  const wcag_criterion = formatCriterion(criterion);
+  return wcag_criterion === violation.wcag_criterion ? violation : { ...violation, wcag_criterion };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { AuditRecord, Project, WorkspaceBackup } from '../types';
+import { ExistingWorkspace, parseWorkspaceBackup, planWorkspaceImport } from './workspaceBackup';
+import { generateAuditReport } from './scoring';
+
+const project: Project = {
+  projectId: 'proj_1',
+  userId: 'user_old',
+  projectName: 'Storefront',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  auditCount: 2,
+  latestScore: 80,
+  suppressionRules: [{
+    ruleId: 'rule_1',
+    match: { kind: 'selector', pattern: '.ad *' },
+    justification: 'Third-party',
+    createdAt: '2026-01-02T00:00:00.000Z',
+    createdBy: 'user_old'
+  }]
+};
+
+const audit = (auditId: string, auditVersion: number, accessibilityScore: number): AuditRecord => ({
+  auditId,
+  projectId: 'proj_1',
+  userId: 'user_old',
+  auditVersion,
+  timestamp: `2026-01-0${auditVersion}T00:00:00.000Z`,
+  accessibilityScore,
+  wcagCompliance: { levelA: true, levelAA: true, levelAAA: false },
+  totalViolations: 0,
+  violationsBySeverity: { critical: 0, high: 0, medium: 0, low: 0 },
+  fullReport: generateAuditReport([])
+});
+
+const backup: WorkspaceBackup = {
+  format: 'echo-audit-backup',
+  version: 1,
+  exportedAt: '2026-02-02T00:00:00.000Z',
+  exportedBy: { userId: 'user_old', email: 'old@example.com', displayName: 'Old' },
+  projects: [{ project, audits: [audit('aud_2', 2, 80), audit('aud_1', 1, 70)] }],
+  frames: [{ auditId: 'aud_1', timestamp: '00:04', data: 'AAAA' }, { auditId: 'aud_gone', timestamp: '00:01', data: 'AAAA' }]
+};
+
+const emptyWorkspace = (): ExistingWorkspace => ({ ownedProjects: new Map(), takenProjectIds: new Set(), takenAuditIds: new Set() });
+
+describe('parseWorkspaceBackup', () => {
+  it('round-trips an exported backup', () => {
+    expect(parseWorkspaceBackup(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it('rejects other files, newer versions and invalid entries', () => {
+    expect(() => parseWorkspaceBackup('not json')).toThrow('Backup file is not valid JSON');
+    expect(() => parseWorkspaceBackup('{"format":"other"}')).toThrow('Not an Echo-Audit backup file');
+    expect(() => parseWorkspaceBackup(JSON.stringify({ ...backup, version: 2 }))).toThrow('Unsupported backup version 2');
+
+    const broken = { ...backup, projects: [{ project: { projectName: 'X' }, audits: [{ ...audit('aud_1', 1, 70), auditVersion: '1' }] }] };
+    expect(() => parseWorkspaceBackup(JSON.stringify(broken))).toThrow(
+      'Invalid backup: projects[0].project.projectId is missing; projects[0].audits[0].auditVersion is not a number'
+    );
+  });
+});
+
+describe('planWorkspaceImport', () => {
+  it('restores projects and audits into an empty workspace under the importing user', () => {
+    const { projects, summary } = planWorkspaceImport(parseWorkspaceBackup(JSON.stringify(backup)), emptyWorkspace(), 'user_new');
+    const [plan] = projects;
+
+    expect(plan.action).toBe('create');
+    expect(plan.project).toMatchObject({
+      projectId: 'proj_1',
+      userId: 'user_new',
+      auditCount: 2,
+      latestScore: 80,
+      suppressionRules: project.suppressionRules
+    });
+    expect(plan.audits.map(a => [a.auditId, a.auditVersion, a.userId])).toEqual([['aud_1', 1, 'user_new'], ['aud_2', 2, 'user_new']]);
+    expect(summary).toEqual({
+      projectsCreated: 1,
+      projectsMerged: 0,
+      auditsCreated: 2,
+      auditsSkipped: 0,
+      idsRemapped: 0,
+      framesImported: 1,
+      warnings: []
+    });
+  });
+
+  it('drops organization and shares from created projects', () => {
+    const share = { userId: 'user_x', email: 'x@example.com', displayName: 'X', role: 'auditor' as const, sharedAt: '', sharedBy: 'user_old' };
+    const shared: WorkspaceBackup = {
+      ...backup,
+      projects: [{ project: { ...project, orgId: 'org_other', shares: [share], syncedAt: '2026-02-01T00:00:00.000Z' }, audits: [] }]
+    };
+    const { projects, summary } = planWorkspaceImport(shared, emptyWorkspace(), 'user_new');
+
+    expect(projects[0].project).not.toHaveProperty('orgId');
+    expect(projects[0].project).not.toHaveProperty('shares');
+    expect(projects[0].project).not.toHaveProperty('syncedAt');
+    expect(summary.warnings).toEqual(['"Storefront" is imported unshared; share it again from the project']);
+  });
+
+  it('reassigns ids taken by other users', () => {
+    const existing = { ...emptyWorkspace(), takenProjectIds: new Set(['proj_1']), takenAuditIds: new Set(['aud_1']) };
+    const { projects, summary } = planWorkspaceImport(backup, existing, 'user_new');
+    const [plan] = projects;
+
+    expect(plan.project.projectId).toMatch(/^proj_\d+_[a-z0-9]+$/);
+    expect(plan.audits.every(a => a.projectId === plan.project.projectId)).toBe(true);
+    expect(plan.auditIdMap.get('aud_1')).toMatch(/^aud_\d+_[a-z0-9]+$/);
+    expect(plan.auditIdMap.get('aud_2')).toBe('aud_2');
+    expect(summary.idsRemapped).toBe(2);
+  });
+
+  it('merges into an owned project, skipping present audits and renumbering clashing versions', () => {
+    const owned = { ...project, userId: 'user_new', auditCount: 2, latestScore: 90, suppressionRules: [] };
+    const existing: ExistingWorkspace = {
+      ownedProjects: new Map([['proj_1', { project: owned, audits: [audit('aud_1', 1, 70), audit('aud_local', 2, 90)] }]]),
+      takenProjectIds: new Set(['proj_1']),
+      takenAuditIds: new Set(['aud_1', 'aud_local'])
+    };
+    const { projects, summary } = planWorkspaceImport(backup, existing, 'user_new');
+    const [plan] = projects;
+
+    expect(plan.action).toBe('merge');
+    expect(plan.audits.map(a => [a.auditId, a.auditVersion])).toEqual([['aud_2', 3]]);
+    expect(plan.project).toMatchObject({ auditCount: 3, latestScore: 80, suppressionRules: project.suppressionRules });
+    expect(summary).toMatchObject({ projectsMerged: 1, auditsCreated: 1, auditsSkipped: 1, framesImported: 0 });
+    expect(summary.warnings).toEqual(['"Storefront" audit v2 is imported as v3 because that version already exists']);
+  });
+});
@@ -0,0 +1,205 @@
+import { AuditRecord, BackupImportSummary, Project, WorkspaceBackup } from '../types';
+
+/**
+ * Versioned backup file for a user's projects and audits. Parsing validates the
+ * file; planning works out, against a snapshot of what already exists, which
+ * projects are created or merged, which audits are new or already present and
+ * which ids must be reassigned. Storage applies the plan (or only reports it on
+ * a dry run).
+ */
+
+export const BACKUP_FORMAT = 'echo-audit-backup';
+export const BACKUP_VERSION = 1;
+
+// ============= VALIDATION =============
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function projectErrors(project: any, path: string): string[] {
+  if (!isObject(project)) return [`${path} is not an object`];
+  const errors: string[] = [];
+  if (typeof project.projectId !== 'string' || !project.projectId) errors.push(`${path}.projectId is missing`);
+  if (typeof project.projectName !== 'string') errors.push(`${path}.projectName is missing`);
+  return errors;
+}
+
+function auditErrors(audit: any, path: string): string[] {
+  if (!isObject(audit)) return [`${path} is not an object`];
+  const errors: string[] = [];
+  if (typeof audit.auditId !== 'string' || !audit.auditId) errors.push(`${path}.auditId is missing`);
+  if (typeof audit.auditVersion !== 'number') errors.push(`${path}.auditVersion is not a number`);
+  if (typeof audit.accessibilityScore !== 'number') errors.push(`${path}.accessibilityScore is not a number`);
+  if (!isObject(audit.fullReport) || !Array.isArray(audit.fullReport.violations)) {
+    errors.push(`${path}.fullReport.violations is missing`);
+  }
+  return errors;
+}
+
+export function parseWorkspaceBackup(text: string): WorkspaceBackup {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) throw new Error('Not an Echo-Audit backup file');
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${data.version}; this app reads up to version ${BACKUP_VERSION}`);
+  }
+  if (!Array.isArray(data.projects)) throw new Error('Backup has no projects list');
+
+  const errors = data.projects.flatMap((entry: any, i: number) => [
+    ...projectErrors(entry?.project, `projects[${i}].project`),
+    ...(Array.isArray(entry?.audits)
+      ? entry.audits.flatMap((audit: any, j: number) => auditErrors(audit, `projects[${i}].audits[${j}]`))
+      : [`projects[${i}].audits is not a list`])
+  ]);
+  if (data.frames !== undefined && !Array.isArray(data.frames)) errors.push('frames is not a list');
+  if (errors.length > 0) {
+    const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+    throw new Error(`Invalid backup: ${errors.slice(0, 5).join('; ')}${more}`);
+  }
+
+  return data as WorkspaceBackup;
+}
+
+// ============= IMPORT PLANNING =============
+
+export interface ExistingWorkspace {
+  ownedProjects: Map<string, { project: Project; audits: AuditRecord[] }>; // The importing user's projects, by id
+  takenProjectIds: Set<string>; // Ids in use by anyone, owned projects included
+  takenAuditIds: Set<string>;
+}
+
+export interface ProjectImportPlan {
+  action: 'create' | 'merge';
+  project: Project; // Final record to write
+  audits: AuditRecord[]; // Audits to write with target ids; frame references still use the backup ids
+  auditIdMap: Map<string, string>; // Backup audit id -> stored audit id, for frames
+}
+
+export interface WorkspaceImportPlan {
+  projects: ProjectImportPlan[];
+  summary: BackupImportSummary;
+}
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Keeps every item of `current` and adds incoming items whose key is not present yet
+function mergeByKey<T>(current: T[] | undefined, incoming: T[] | undefined, key: (item: T) => string): T[] | undefined {
+  if (!incoming?.length) return current;
+  const seen = new Set((current || []).map(key));
+  return [...(current || []), ...incoming.filter(item => !seen.has(key(item)))];
+}
+
+export function planWorkspaceImport(backup: WorkspaceBackup, existing: ExistingWorkspace, userId: string): WorkspaceImportPlan {
+  const summary: BackupImportSummary = {
+    projectsCreated: 0,
+    projectsMerged: 0,
+    auditsCreated: 0,
+    auditsSkipped: 0,
+    idsRemapped: 0,
+    framesImported: 0,
+    warnings: []
+  };
+  const takenProjectIds = new Set(existing.takenProjectIds);
+  const takenAuditIds = new Set(existing.takenAuditIds);
+  const now = new Date().toISOString();
+
+  const projects = backup.projects.map(({ project: incoming, audits: incomingAudits }): ProjectImportPlan => {
+    const owned = existing.ownedProjects.get(incoming.projectId);
+
+    let projectId = incoming.projectId;
+    if (!owned && takenProjectIds.has(projectId)) {
+      projectId = generateId('proj');
+      summary.idsRemapped++;
+    }
+    takenProjectIds.add(projectId);
+
+    const presentAuditIds = new Set((owned?.audits || []).map(a => a.auditId));
+    const usedVersions = new Set((owned?.audits || []).map(a => a.auditVersion));
+    let nextVersion = Math.max(0, ...usedVersions) + 1;
+    const auditIdMap = new Map<string, string>();
+    const audits: AuditRecord[] = [];
+
+    for (const audit of [...incomingAudits].sort((a, b) => a.auditVersion - b.auditVersion)) {
+      if (presentAuditIds.has(audit.auditId)) {
+        summary.auditsSkipped++;
+        continue;
+      }
+
+      let auditId = audit.auditId;
+      if (takenAuditIds.has(auditId)) {
+        auditId = generateId('aud');
+        summary.idsRemapped++;
+      }
+      takenAuditIds.add(auditId);
+      auditIdMap.set(audit.auditId, auditId);
+
+      let auditVersion = audit.auditVersion;
+      if (usedVersions.has(auditVersion)) {
+        auditVersion = nextVersion;
+        summary.warnings.push(
+          `"${incoming.projectName}" audit v${audit.auditVersion} is imported as v${auditVersion} because that version already exists`
+        );
+      }
+      usedVersions.add(auditVersion);
+      nextVersion = Math.max(nextVersion, auditVersion + 1);
+
+      audits.push({
+        ...audit,
+        auditId,
+        projectId,
+        userId,
+        auditVersion
+      });
+    }
+    summary.auditsCreated += audits.length;
+
+    const all = [...(owned?.audits || []), ...audits];
+    const latest = all.reduce<AuditRecord | undefined>((best, a) => (!best || a.auditVersion > best.auditVersion ? a : best), undefined);
+    const scoreFields = {
+      auditCount: latest?.auditVersion || 0,
+      latestScore: latest?.accessibilityScore || 0
+    };
+
+    if (owned) {
+      summary.projectsMerged++;
+      const project: Project = {
+        ...owned.project,
+        suppressionRules: mergeByKey(owned.project.suppressionRules, incoming.suppressionRules, r => r.ruleId),
+        scoringProfiles: mergeByKey(owned.project.scoringProfiles, incoming.scoringProfiles, p => p.profileId),
+        acrOverrides: mergeByKey(owned.project.acrOverrides, incoming.acrOverrides, o => o.criterionId),
+        ...scoreFields,
+        updatedAt: audits.length > 0 ? now : owned.project.updatedAt
+      };
+      return { action: 'merge', project, audits, auditIdMap };
+    }
+
+    // Sharing is granted, not restored: a backup could otherwise add a project to any
+    // organization by id, or share it with anyone. syncedAt belongs to the stored copy.
+    summary.projectsCreated++;
+    const { orgId, shares, syncedAt, ...fields } = incoming;
+    if (orgId || shares?.length) {
+      summary.warnings.push(`"${incoming.projectName}" is imported unshared; share it again from the project`);
+    }
+    const project: Project = {
+      ...fields,
+      projectId,
+      userId,
+      createdAt: incoming.createdAt || now,
+      updatedAt: incoming.updatedAt || now,
+      ...scoreFields
+    };
+    return { action: 'create', project, audits, auditIdMap };
+  });
+
+  // Frames are only carried for audits being written
+  summary.framesImported = (backup.frames || []).filter(frame =>
+    projects.some(plan => plan.auditIdMap.has(frame.auditId))
+  ).length;
+
+  return { projects, summary };
+}
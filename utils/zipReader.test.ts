@@ -0,0 +1,79 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { readZipEntries } from './zipReader';
+
+// Builds an archive in memory; the reader does not check CRCs, so they are left at 0
+function buildZip(entries: { path: string; content?: string; deflate?: boolean; flags?: number }[]): Blob {
+  const encoder = new TextEncoder();
+  const locals: ArrayBuffer[] = [];
+  const centrals: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = encoder.encode(entry.content ?? '');
+    const data = entry.deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length + data.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(6, entry.flags ?? 0, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    const localBytes = new Uint8Array(local.buffer);
+    localBytes.set(name, 30);
+    localBytes.set(data, 30 + name.length);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(8, entry.flags ?? 0, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    const centralBytes = new Uint8Array(central.buffer);
+    centralBytes.set(name, 46);
+
+    locals.push(local.buffer);
+    centrals.push(central.buffer);
+    offset += local.byteLength;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.byteLength, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...locals, ...centrals, eocd.buffer]);
+}
+
+const text = async (bytes: Promise<Uint8Array>) => new TextDecoder().decode(await bytes);
+
+describe('readZipEntries', () => {
+  it('reads stored and deflated entries and skips directories', async () => {
+    const zip = buildZip([
+      { path: 'repo-main/' },
+      { path: 'repo-main/index.html', content: '<main>Hello</main>' },
+      { path: 'repo-main/src/App.tsx', content: 'export const App = () => <div>'.repeat(20), deflate: true }
+    ]);
+    const entries = await readZipEntries(zip);
+
+    expect(entries.map(e => [e.path, e.size])).toEqual([
+      ['repo-main/index.html', 18],
+      ['repo-main/src/App.tsx', 600]
+    ]);
+    expect(await text(entries[0].read())).toBe('<main>Hello</main>');
+    expect(await text(entries[1].read())).toBe('export const App = () => <div>'.repeat(20));
+  });
+
+  it('rejects files that are not archives and encrypted entries', async () => {
+    await expect(readZipEntries(new Blob(['not a zip file at all, just some text']))).rejects.toThrow('Not a valid ZIP archive');
+    await expect(readZipEntries(buildZip([{ path: 'secret.txt', content: 'x', flags: 0x1 }]))).rejects.toThrow('Encrypted ZIP entry');
+  });
+});
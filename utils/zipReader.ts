@@ -0,0 +1,84 @@
+/**
+ * Minimal ZIP archive reader built on the browser's DecompressionStream.
+ * Supports stored and deflated entries, which covers archives produced by
+ * GitHub "Download ZIP", `git archive` and OS zip tools. ZIP64 and encrypted
+ * archives are rejected.
+ */
+
+export interface ZipEntry {
+  path: string;
+  size: number; // Uncompressed size in bytes
+  read: () => Promise<Uint8Array>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // EOCD is 22 bytes plus an optional comment of up to 64 KiB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error('Not a valid ZIP archive');
+}
+
+async function inflateRaw(data: BlobPart): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue; // Directory entry
+    if (flags & 0x1) throw new Error(`Encrypted ZIP entry: ${path}`);
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+          throw new Error(`Corrupt ZIP entry: ${path}`);
+        }
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return data;
+        if (method === 8) return inflateRaw(data);
+        throw new Error(`Unsupported ZIP compression method ${method} for ${path}`);
+      }
+    });
+  }
+
+  return entries;
+}
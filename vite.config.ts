@@ -6,6 +6,10 @@ export default defineConfig({
   plugins: [react()],
   define: {
     // Expose env vars to the client-side
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY) 
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // 'gemini' (default) or 'local' to replay recorded fixtures without network access
+    'process.env.AUDIT_ENGINE': JSON.stringify(process.env.AUDIT_ENGINE),
+    // Base URL of the optional sync server (server/); unset keeps all data in the browser
+    'process.env.ECHO_AUDIT_SERVER': JSON.stringify(process.env.ECHO_AUDIT_SERVER)
   }
 });
\ No newline at end of file